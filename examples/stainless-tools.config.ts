@@ -1,13 +1,13 @@
 /**
  * Example Stainless Tools configuration file
  * This file can be named:
- * - stainless-tools.config.js
- * - .stainless-toolsrc.js
+ * - stainless-tools.config.ts
+ * - stainless-tools.config.js (using module.exports instead of export default)
  * - Or any other format supported by cosmiconfig
  */
+import { defineConfig } from 'stainless-tools';
 
-/** @type {import('../dist/config').StainlessConfig} */
-module.exports = {
+export default defineConfig({
   // Map of SDK names to their repository URLs
   // Each SDK has a staging and production repository URL
   // Use --prod flag to use production URLs, otherwise staging URLs are used by default
@@ -68,4 +68,4 @@ module.exports = {
 
     projectName: 'my-project'
   }
-}; 
\ No newline at end of file
+});
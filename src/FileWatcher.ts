@@ -3,12 +3,39 @@ import { watch } from "chokidar";
 import type { FSWatcher } from "chokidar";
 import type { Ora } from "ora";
 import type { LifecycleManager } from "./LifecycleManager.js";
+import { type PublishHistory, type PublishTarget, hashPublishContents } from "./PublishHistory.js";
 import type { StainlessApi } from "./StainlessApi.js";
 import { StainlessError } from "./StainlessError.js";
+import { type EventHandler, toErrorEvent } from "./events.js";
+import type { Logger } from "./logger.js";
+import { assertValidOpenApiSpec } from "./spec-validation.js";
 
-interface FileWatcherOptions {
+/**
+ * Milliseconds to wait after the last change of a file before publishing
+ */
+export const DEFAULT_DEBOUNCE_MS = 1000;
+
+/**
+ * Milliseconds the size of a file must stay the same before a write counts as finished
+ */
+export const DEFAULT_STABILITY_THRESHOLD_MS = 5000;
+
+/**
+ * Files a FileWatcher watches, and how long it waits before publishing them
+ */
+export interface WatchOptions {
   openApiFile?: string;
   stainlessConfigFile?: string;
+  /** Milliseconds to wait after the last change before publishing (default: 1000) */
+  debounceMs?: number;
+  /**
+   * Milliseconds the size of a changed file must stay the same before it is published, so that
+   * files that are still being written are not published. 0 publishes right away. (default: 5000)
+   */
+  stabilityThresholdMs?: number;
+}
+
+interface FileWatcherOptions extends WatchOptions {
   spinner?: Ora;
   branch: string;
   stainlessApi: StainlessApi;
@@ -18,6 +45,33 @@ interface FileWatcherOptions {
   };
   lifecycleManager?: LifecycleManager;
   sdkName?: string;
+  /**
+   * Names of all SDKs sharing this watcher. The prePublishSpec hook runs for each of them.
+   * Takes precedence over sdkName.
+   */
+  sdkNames?: string[];
+  /**
+   * Logger used for user-facing output. Defaults to the console.
+   */
+  logger?: Logger;
+  /**
+   * Receives an error event when publishing after a file change fails.
+   */
+  onEvent?: EventHandler;
+  /**
+   * Skips publishing when the files have not changed since they were last published to the project and
+   * branch. Every publish is sent when omitted.
+   */
+  publishHistory?: PublishHistory;
+  /**
+   * Publishes even when the files have not changed since they were last published, still recording the publish.
+   */
+  force?: boolean;
+  /**
+   * Whether to record a publish in publishHistory as soon as the Stainless API accepts it. When false, it is only
+   * recorded by recordLastPublish, e.g. once the SDK commit it generates arrived. Defaults to true.
+   */
+  recordOnPublish?: boolean;
 }
 
 export class FileWatcher {
@@ -25,8 +79,13 @@ export class FileWatcher {
   private publishTimeout: NodeJS.Timeout | undefined;
   private isPublishing = false;
   private isWatching = false;
+  private publishAbortController: AbortController | undefined;
+  private unrecordedPublish: { target: PublishTarget; hash: string } | undefined;
+  private logger: Logger;
 
-  constructor(private options: FileWatcherOptions) {}
+  constructor(private options: FileWatcherOptions) {
+    this.logger = options.logger ?? console;
+  }
 
   /**
    * Starts watching for changes in the OpenAPI and config files.
@@ -50,11 +109,12 @@ export class FileWatcher {
       watchPaths.push(this.options.stainlessConfigFile);
     }
 
+    const stabilityThreshold = this.options.stabilityThresholdMs ?? DEFAULT_STABILITY_THRESHOLD_MS;
     this.watcher = watch(watchPaths, {
       ignoreInitial: true,
-      awaitWriteFinish: {
-        stabilityThreshold: 5000,
-        pollInterval: 100,
+      awaitWriteFinish: stabilityThreshold > 0 && {
+        stabilityThreshold,
+        pollInterval: Math.min(100, stabilityThreshold),
       },
     });
 
@@ -86,31 +146,70 @@ export class FileWatcher {
 
             this.isPublishing = true;
             this.options.spinner?.stop();
-            console.log(`\nDetected changes in ${filePath}, publishing to Stainless API...`);
+            this.logger.log(`\nDetected changes in ${filePath}, publishing to Stainless API...`);
 
             try {
-              await this.publishFiles();
-              console.log(
-                "\n✓ Successfully published changes to Stainless API. Please wait up to a minute for new SDK updates.",
-              );
+              if (await this.publishFiles()) {
+                this.logger.log(
+                  "\n✓ Successfully published changes to Stainless API. Please wait up to a minute for new SDK updates.",
+                );
+              }
             } finally {
               this.isPublishing = false;
-              this.options.spinner?.start("Listening for new SDK updates...");
+              if (!this.isPublishAborted()) {
+                this.options.spinner?.start("Listening for new SDK updates...");
+              }
             }
           } catch (error) {
-            console.error("Failed to publish changes:", error);
+            if (this.isPublishAborted()) {
+              // Cancelled by abortPublish, e.g. when watching stops for good
+              return;
+            }
+            this.logger.error("Failed to publish changes:", error);
+            this.options.onEvent?.(toErrorEvent(error));
             this.isPublishing = false;
             this.options.spinner?.start("Listening for new SDK updates...");
           }
-        }, 1000);
+        }, this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
       } catch (error) {
-        console.error("Failed to handle file change:", error);
+        this.logger.error("Failed to handle file change:", error);
+        this.options.onEvent?.(toErrorEvent(error));
         this.isPublishing = false;
         this.options.spinner?.start("Listening for new SDK updates...");
       }
     });
   }
 
+  /**
+   * Changes the files that are watched and published and the timings, e.g. when the configuration is reloaded.
+   * Watching restarts with the new options if it was started.
+   */
+  setWatchOptions(options: WatchOptions): void {
+    const wasWatching = this.isWatching;
+    this.stop();
+    this.options = {
+      ...this.options,
+      openApiFile: options.openApiFile,
+      stainlessConfigFile: options.stainlessConfigFile,
+      debounceMs: options.debounceMs,
+      stabilityThresholdMs: options.stabilityThresholdMs,
+    };
+    if (wasWatching) {
+      this.start();
+    }
+  }
+
+  /**
+   * Cancels the publish in flight, if any, e.g. when the process is shutting down.
+   */
+  abortPublish(): void {
+    this.publishAbortController?.abort();
+  }
+
+  private isPublishAborted(): boolean {
+    return this.publishAbortController?.signal.aborted ?? false;
+  }
+
   /**
    * Stops watching for file changes.
    */
@@ -127,20 +226,28 @@ export class FileWatcher {
   }
 
   /**
-   * Publishes the OpenAPI and config files to the Stainless API.
+   * Validates the OpenAPI file and publishes it, along with the config file, to the Stainless API.
+   * Skipped if neither the files nor the project and branch changed since the last publish recorded in
+   * publishHistory, unless force is set.
+   * @returns Whether the files were published
+   * @throws {StainlessError} If the OpenAPI file is not a valid OpenAPI 3.0 / 3.1 specification
    */
-  async publishFiles(): Promise<void> {
+  async publishFiles(): Promise<boolean> {
     try {
       if (!this.options.openApiFile) {
         throw new StainlessError("OpenAPI specification file is required");
       }
 
-      if (this.options.lifecycleManager && this.options.sdkName) {
-        await this.options.lifecycleManager.executePrePublishSpec({
-          sdkPath: process.cwd(),
-          branch: this.options.branch,
-          sdkName: this.options.sdkName,
-        });
+      if (this.options.lifecycleManager) {
+        const sdkNames = this.options.sdkNames ?? (this.options.sdkName ? [this.options.sdkName] : []);
+
+        for (const sdkName of sdkNames) {
+          await this.options.lifecycleManager.executePrePublishSpec({
+            sdkPath: process.cwd(),
+            branch: this.options.branch,
+            sdkName,
+          });
+        }
       }
 
       let spec: Buffer;
@@ -152,6 +259,9 @@ export class FileWatcher {
         throw new StainlessError(`Failed to read OpenAPI file (${this.options.openApiFile})`, error);
       }
 
+      // Catch broken specs locally instead of sending them to the Stainless API
+      await assertValidOpenApiSpec(this.options.openApiFile, spec);
+
       if (this.options.stainlessConfigFile) {
         try {
           config = await fs.readFile(this.options.stainlessConfigFile);
@@ -160,13 +270,32 @@ export class FileWatcher {
         }
       }
 
+      const target = { branch: this.options.branch, projectName: this.options.stainlessApiOptions?.projectName };
+      const historyTarget = { ...target, baseUrl: this.options.stainlessApi.baseUrl };
+      const { publishHistory } = this.options;
+      const hash = hashPublishContents({
+        ...target,
+        spec,
+        config,
+        guessConfig: this.options.stainlessApiOptions?.guessConfig,
+      });
+      if (publishHistory && !this.options.force && (await publishHistory.getLastHash(historyTarget)) === hash) {
+        this.logger.log(
+          `\nSkipped publishing to Stainless API: nothing changed since the last publish to branch ${target.branch}. Use --force to publish anyway.`,
+        );
+        this.options.onEvent?.({ type: "publish-skipped", ...target });
+        this.options.spinner?.start("Listening for new SDK updates...");
+        return false;
+      }
+
       try {
+        this.publishAbortController = new AbortController();
         await this.options.stainlessApi.publish({
           spec,
           config,
-          branch: this.options.branch,
-          projectName: this.options.stainlessApiOptions?.projectName,
+          ...target,
           guessConfig: this.options.stainlessApiOptions?.guessConfig,
+          signal: this.publishAbortController.signal,
         });
         this.options.spinner?.start("Listening for new SDK updates...");
       } catch (error) {
@@ -183,6 +312,12 @@ export class FileWatcher {
 
         throw new StainlessError(`Failed to publish ${files} to Stainless API`, error);
       }
+
+      this.unrecordedPublish = { target: historyTarget, hash };
+      if (this.options.recordOnPublish ?? true) {
+        await this.recordLastPublish();
+      }
+      return true;
     } catch (error) {
       if (error instanceof StainlessError) {
         throw error;
@@ -190,4 +325,22 @@ export class FileWatcher {
       throw new StainlessError("Failed to publish files to Stainless API", error);
     }
   }
+
+  /**
+   * Records the last publish in publishHistory, unless it is recorded already. Called by publishFiles
+   * unless recordOnPublish is false. Failing to record it is logged, as it only means the next publish
+   * is not skipped.
+   */
+  async recordLastPublish(): Promise<void> {
+    const { publishHistory } = this.options;
+    if (!publishHistory || !this.unrecordedPublish) {
+      return;
+    }
+
+    const { target, hash } = this.unrecordedPublish;
+    this.unrecordedPublish = undefined;
+    await publishHistory.record(target, hash).catch((error) => {
+      this.logger.error(`Failed to record the publish in ${publishHistory.filepath}:`, error);
+    });
+  }
 }
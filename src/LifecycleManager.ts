@@ -1,6 +1,8 @@
 import chalk from "chalk";
 import { execa } from "execa";
-import { StainlessError } from "./StainlessError.js";
+import { LifecycleHookError } from "./StainlessError.js";
+import type { EventHandler } from "./events.js";
+import type { Logger } from "./logger.js";
 
 /**
  * Configuration for lifecycle hooks that can be executed at various stages
@@ -44,6 +46,27 @@ export interface LifecycleContext {
   sdkName: string;
 }
 
+/**
+ * Additional options for a LifecycleManager.
+ */
+export interface LifecycleManagerOptions {
+  /**
+   * Receives hook-started and hook-finished events.
+   */
+  onEvent?: EventHandler;
+  /**
+   * Stream the stdout of hooks is written to. Defaults to process.stdout.
+   */
+  hookStdout?: NodeJS.WritableStream;
+}
+
+/**
+ * Whether an error carries the exit code of a command, e.g. the error execa throws when a command fails
+ */
+function hasExitCode(error: unknown): error is Error & { exitCode: number } {
+  return error instanceof Error && typeof (error as { exitCode?: unknown }).exitCode === "number";
+}
+
 /**
  * Manages the execution of lifecycle hooks for SDK repositories.
  *
@@ -61,7 +84,19 @@ export interface LifecycleContext {
  * and name.
  */
 export class LifecycleManager {
-  constructor(private config: LifecycleConfig = {}) {}
+  constructor(
+    private config: LifecycleConfig = {},
+    private logger: Logger = console,
+    private options: LifecycleManagerOptions = {},
+  ) {}
+
+  /**
+   * Replaces the lifecycle hooks, e.g. when the configuration is reloaded.
+   * Hooks that are already running are not affected.
+   */
+  setConfig(config: LifecycleConfig = {}): void {
+    this.config = config;
+  }
 
   /**
    * Executes a lifecycle command with real-time output streaming and interactive input support
@@ -71,8 +106,11 @@ export class LifecycleManager {
     context: LifecycleContext,
     type: "postClone" | "postUpdate" | "prePublishSpec",
   ): Promise<void> {
+    let exitCode: number | null = null;
+
     try {
-      console.log(chalk.magenta(`\n🚀 Executing ${type} command: ${chalk.yellow(command)}`));
+      this.logger.log(chalk.magenta(`\n🚀 Executing ${type} command: ${chalk.yellow(command)}`));
+      this.options.onEvent?.({ type: "hook-started", sdkName: context.sdkName, hook: type, command });
       const subprocess = execa(command, {
         shell: true,
         env: {
@@ -86,8 +124,9 @@ export class LifecycleManager {
 
       // Stream output in real-time
       if (subprocess.stdout) {
+        const stdout = this.options.hookStdout ?? process.stdout;
         subprocess.stdout.on("data", (data) => {
-          process.stdout.write(data);
+          stdout.write(data);
         });
       }
       if (subprocess.stderr) {
@@ -96,14 +135,22 @@ export class LifecycleManager {
         });
       }
 
-      const { exitCode } = await subprocess;
+      ({ exitCode } = await subprocess);
       if (exitCode === 0) {
-        console.log(chalk.green(`\n✓ Successfully executed ${type} command`));
+        this.logger.log(chalk.green(`\n✓ Successfully executed ${type} command`));
       } else {
         throw new Error(chalk.red(`Command ${type} exited with code ${exitCode}`));
       }
-    } catch (error) {
-      throw new StainlessError(`Failed to execute ${type} command: ${command}`, error);
+    } catch (error: unknown) {
+      exitCode = exitCode ?? (hasExitCode(error) ? error.exitCode : null);
+      throw new LifecycleHookError(`Failed to execute ${type} command: ${command}`, {
+        hook: type,
+        command,
+        exitCode,
+        cause: error,
+      });
+    } finally {
+      this.options.onEvent?.({ type: "hook-finished", sdkName: context.sdkName, hook: type, command, exitCode });
     }
   }
 
@@ -0,0 +1,122 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+
+/**
+ * Stainless project and branch specifications are published to
+ */
+export interface PublishTarget {
+  branch: string;
+  projectName?: string;
+  /** Base URL of the Stainless API, so that publishes to another API, e.g. the mock server, are kept apart */
+  baseUrl?: string;
+}
+
+/**
+ * Everything that is sent when publishing, and so decides whether publishing again would change anything
+ */
+export interface PublishContents extends PublishTarget {
+  spec: string | Buffer;
+  config?: string | Buffer;
+  guessConfig?: boolean;
+}
+
+interface PublishRecord {
+  hash: string;
+  publishedAt: string;
+}
+
+/**
+ * Name of the file the history is stored in, in the state directory
+ */
+const HISTORY_FILE_NAME = "published.json";
+
+/**
+ * Returns the directory stainless-tools keeps its state in: `STAINLESS_TOOLS_STATE_DIR` if set, otherwise
+ * `stainless-tools` in `XDG_STATE_HOME` or `~/.local/state`
+ */
+export function getDefaultStateDir(): string {
+  if (process.env.STAINLESS_TOOLS_STATE_DIR) {
+    return path.resolve(process.env.STAINLESS_TOOLS_STATE_DIR);
+  }
+  return path.join(process.env.XDG_STATE_HOME || path.join(os.homedir(), ".local", "state"), "stainless-tools");
+}
+
+/**
+ * Hashes the spec, Stainless config, branch, project and guessConfig flag of a publish
+ */
+export function hashPublishContents(contents: PublishContents): string {
+  const hash = createHash("sha256");
+  const parts = [
+    contents.spec,
+    contents.config ?? "",
+    contents.branch,
+    contents.projectName ?? "",
+    String(contents.guessConfig ?? false),
+  ];
+  for (const part of parts) {
+    // Prefix each part with its length, so that moving bytes from one part to the next changes the hash
+    const buffer = typeof part === "string" ? Buffer.from(part) : part;
+    hash.update(`${buffer.length}:`);
+    hash.update(buffer);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Remembers the hash of what was last published to each Stainless project and branch of each API, in a file of
+ * the state directory, so that publishing the same spec and config again can be skipped, also after a restart.
+ * Publishes made from other machines are unknown to it.
+ */
+export class PublishHistory {
+  readonly filepath: string;
+
+  /**
+   * @param stateDir - Directory the history is stored in (default: see getDefaultStateDir)
+   */
+  constructor(stateDir: string = getDefaultStateDir()) {
+    this.filepath = path.join(stateDir, HISTORY_FILE_NAME);
+  }
+
+  /**
+   * Returns the hash of what was last published to a project and branch, or undefined if nothing was, or the
+   * history cannot be read
+   */
+  async getLastHash(target: PublishTarget): Promise<string | undefined> {
+    const records = await this.read();
+    return records[getTargetKey(target)]?.hash;
+  }
+
+  /**
+   * Records the hash of what was just published to a project and branch
+   * @throws If the history cannot be written
+   */
+  async record(target: PublishTarget, hash: string): Promise<void> {
+    const records = await this.read();
+    records[getTargetKey(target)] = { hash, publishedAt: new Date().toISOString() };
+
+    // Write to a temporary file first, so that a crash never leaves a truncated history behind
+    await fs.mkdir(path.dirname(this.filepath), { recursive: true });
+    const tempFile = `${this.filepath}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, `${JSON.stringify(records, null, 2)}\n`);
+    await fs.rename(tempFile, this.filepath);
+  }
+
+  private async read(): Promise<Record<string, PublishRecord>> {
+    try {
+      const records = JSON.parse(await fs.readFile(this.filepath, "utf-8"));
+      return records && typeof records === "object" && !Array.isArray(records) ? records : {};
+    } catch {
+      // Missing or corrupt, which only means the next publish is not skipped
+      return {};
+    }
+  }
+}
+
+/**
+ * Key of a project and branch in the history, e.g. `my-project/main@https://api.stainlessapi.com`
+ */
+function getTargetKey({ branch, projectName, baseUrl }: PublishTarget): string {
+  return `${projectName ?? ""}/${branch}${baseUrl ? `@${baseUrl}` : ""}`;
+}
@@ -2,8 +2,19 @@ import * as fs from "node:fs/promises";
 import chalk from "chalk";
 import simpleGit, { type SimpleGit } from "simple-git";
 import type { LifecycleManager } from "./LifecycleManager.js";
-import { StainlessError } from "./StainlessError.js";
-import { getTargetDir } from "./utils.js";
+import { GitOperationError, LifecycleHookError, StainlessError } from "./StainlessError.js";
+import type { EventHandler } from "./events.js";
+import type { Logger } from "./logger.js";
+import { isSameRepository } from "./utils.js";
+
+/**
+ * Messages used for the stashes RepoManager creates to preserve local changes.
+ */
+export const REPO_MANAGER_STASH_MESSAGES = {
+  branchSwitch: "Stashing changes before switching branches",
+  update: "Stashing changes before SDK update",
+} as const;
+
 /**
  * Options for configuring a RepoManager instance.
  */
@@ -18,6 +29,7 @@ export interface RepoManagerOptions {
   branch: string;
   /**
    * Local directory where the SDK repository will be cloned/managed.
+   * Used as given, so target directory templates must already be rendered (see getTargetDir of template.ts).
    */
   targetDir: string;
   /**
@@ -25,17 +37,49 @@ export interface RepoManagerOptions {
    * Optional - only required for lifecycle hooks.
    */
   sdkName?: string;
-  /**
-   * Current environment (staging/prod).
-   * Optional - used for target directory templating.
-   */
-  env?: string;
   /**
    * Lifecycle manager for executing hooks at various stages.
    */
   lifecycleManager: LifecycleManager;
+  /**
+   * Logger used for user-facing output.
+   * Optional - defaults to the console.
+   */
+  logger?: Logger;
+  /**
+   * Receives sdk-update-detected and pulled events.
+   * Optional.
+   */
+  onEvent?: EventHandler;
 }
 
+/**
+ * Options for waiting for a new commit on the SDK branch.
+ */
+export interface WaitForNewCommitOptions {
+  /**
+   * Maximum time to wait in milliseconds.
+   */
+  timeoutMs: number;
+  /**
+   * Interval in milliseconds between checks of the remote branch.
+   * Optional - defaults to 5000.
+   */
+  pollIntervalMs?: number;
+  /**
+   * Commit the remote branch has to move past, e.g. its head before publishing (see getRemoteBranchHead),
+   * or null if the branch did not exist then, so that its first commit counts as new.
+   * Optional - defaults to the commit recorded when the repository was last cloned, updated or pulled.
+   */
+  baseHash?: string | null;
+}
+
+/**
+ * Git errors that waiting longer does not fix, e.g. rejected credentials or a missing repository
+ */
+const PERMANENT_GIT_ERROR_PATTERN =
+  /authentication failed|permission denied|could not read (username|password)|repository not found|does not appear to be a git repository|host key verification failed/i;
+
 /**
  * Manages SDK repository operations and lifecycle events.
  *
@@ -58,7 +102,6 @@ export interface RepoManagerOptions {
  *   branch: 'main',
  *   targetDir: './sdks/typescript',
  *   sdkName: 'typescript',
- *   env: 'staging',
  *   lifecycleManager: new LifecycleManager()
  * });
  *
@@ -72,38 +115,20 @@ export class RepoManager {
   private options: RepoManagerOptions;
   private git: SimpleGit;
   private isInitialized = false;
+  private logger: Logger;
 
   constructor(options: RepoManagerOptions) {
     this.options = options;
+    this.logger = options.logger ?? console;
     this.sdkGit = simpleGit();
     this.git = simpleGit();
   }
 
   /**
-   * Gets the actual target directory path, replacing template variables
+   * Gets the target directory path
    */
   getTargetDir(): string {
-    return getTargetDir({
-      targetDir: this.options.targetDir,
-      sdkName: this.options.sdkName,
-      env: this.options.env,
-      branch: this.options.branch,
-    });
-  }
-
-  /**
-   * Checks if two git repository URLs point to the same repository.
-   * Handles both HTTPS and SSH URLs.
-   */
-  private isSameRepository(url1: string, url2: string): boolean {
-    const getRepoPath = (url: string): string => {
-      const match = url.match(/(?:^|\/|:)([\w-]+\/[\w-]+)(?:\.git)?$/);
-      return match?.[1] || "";
-    };
-
-    const repo1 = getRepoPath(url1);
-    const repo2 = getRepoPath(url2);
-    return repo1 !== "" && repo2 !== "" && repo1 === repo2;
+    return this.options.targetDir;
   }
 
   /**
@@ -114,7 +139,7 @@ export class RepoManager {
       const log = await this.sdkGit.log();
       return log.latest?.hash ?? "";
     } catch (error) {
-      throw new StainlessError("Failed to get SDK commit hash", error);
+      throw new GitOperationError("Failed to get SDK commit hash", error);
     }
   }
 
@@ -137,6 +162,77 @@ export class RepoManager {
     }
   }
 
+  /**
+   * Reads the commit the remote branch points at without fetching, e.g. before publishing, so that
+   * a commit generated while the repository is still being cloned is not mistaken for the old one.
+   * @returns The hash of the commit, or null if the branch does not exist
+   * @throws {GitOperationError} If the remote repository cannot be read
+   */
+  async getRemoteBranchHead(): Promise<string | null> {
+    try {
+      const output = await this.git.listRemote(["--heads", this.options.sdkRepo, `refs/heads/${this.options.branch}`]);
+      return output.trim().split(/\s+/)[0] || null;
+    } catch (error) {
+      throw new GitOperationError(`Failed to read branch '${this.options.branch}' of ${this.options.sdkRepo}`, error);
+    }
+  }
+
+  /**
+   * Waits until the remote branch moves past a commit, by default the one recorded when the repository
+   * was last cloned, updated or pulled. Does not pull the new commit.
+   * @param options - How long to wait, how often to check the remote branch and the commit to move past
+   * @returns The hash of the new commit on the remote branch
+   * @throws {GitOperationError} If the remote repository rejects the credentials or cannot be found
+   * @throws {StainlessError} If no new commit shows up before the timeout
+   */
+  async waitForNewCommit(options: WaitForNewCommitOptions): Promise<string> {
+    const deadline = Date.now() + options.timeoutMs;
+    const baseHash =
+      options.baseHash !== undefined
+        ? options.baseHash
+        : (this.lastSdkCommitHash ?? (await this.getCurrentSdkCommitHash()));
+    let lastError: unknown;
+
+    while (true) {
+      try {
+        await this.sdkGit.fetch();
+        const remoteLog = await this.sdkGit.log([`origin/${this.options.branch}`]);
+        const remoteHash = remoteLog.latest?.hash ?? "";
+        if (remoteHash && remoteHash !== baseHash) {
+          this.options.onEvent?.({
+            type: "sdk-update-detected",
+            sdkName: this.options.sdkName,
+            branch: this.options.branch,
+            localHash: baseHash ?? "",
+            remoteHash,
+          });
+          return remoteHash;
+        }
+        lastError = undefined;
+      } catch (error) {
+        if (PERMANENT_GIT_ERROR_PATTERN.test(error instanceof Error ? error.message : String(error))) {
+          throw new GitOperationError(`Failed to check branch '${this.options.branch}' for new commits`, error);
+        }
+        // Keep trying until the timeout, e.g. after a network error
+        lastError = error;
+      }
+
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        const lastErrorMessage = lastError
+          ? `. Last error: ${(lastError instanceof Error ? lastError.message : String(lastError)).trim().split("\n")[0]}`
+          : "";
+        throw new StainlessError(
+          `Timed out after ${Math.round(options.timeoutMs / 1000)}s waiting for a new commit on branch ` +
+            `'${this.options.branch}' of ${this.options.sdkRepo} (still at ${baseHash?.substring(0, 7) || "no commit"})${lastErrorMessage}`,
+          lastError,
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, Math.min(options.pollIntervalMs ?? 5000, remainingMs)));
+    }
+  }
+
   /**
    * Checks if there are new changes in the SDK repository.
    */
@@ -147,9 +243,20 @@ export class RepoManager {
       const remoteLog = await this.sdkGit.log([`origin/${this.options.branch}`]);
       const remoteHash = remoteLog.latest?.hash ?? "";
 
-      return localHash !== remoteHash;
+      if (localHash === remoteHash) {
+        return false;
+      }
+
+      this.options.onEvent?.({
+        type: "sdk-update-detected",
+        sdkName: this.options.sdkName,
+        branch: this.options.branch,
+        localHash,
+        remoteHash,
+      });
+      return true;
     } catch (error) {
-      throw new StainlessError("Failed to check for new changes", error);
+      throw new GitOperationError("Failed to check for new changes", error);
     }
   }
 
@@ -183,14 +290,14 @@ export class RepoManager {
       // Verify it's the correct repository
       const remotes = await this.sdkGit.getRemotes(true);
       const originUrl = remotes?.[0]?.refs?.fetch;
-      if (!originUrl || !this.isSameRepository(originUrl, this.options.sdkRepo)) {
+      if (!originUrl || !isSameRepository(originUrl, this.options.sdkRepo)) {
         throw new StainlessError(
           `Directory ${resolvedTargetDir} contains a different repository (${originUrl || "unknown"}). ` +
             `Expected ${this.options.sdkRepo}. Please remove the directory manually and try again.`,
         );
       }
 
-      console.log("\nExisting SDK repository found, checking for updates...");
+      this.logger.log("\nExisting SDK repository found, checking for updates...");
       await this.sdkGit.fetch();
 
       await this.handleBranchSwitch();
@@ -198,7 +305,7 @@ export class RepoManager {
       this.lastSdkCommitHash = await this.getCurrentSdkCommitHash();
     } catch (error) {
       if (error instanceof StainlessError) throw error;
-      throw new StainlessError("Failed to update existing repository", error);
+      throw new GitOperationError("Failed to update existing repository", error);
     }
   }
 
@@ -217,7 +324,7 @@ export class RepoManager {
       const branchExists = branches.all.includes(`origin/${this.options.branch}`);
 
       if (!branchExists) {
-        console.log(`\nWaiting for branch '${this.options.branch}' to be created...`);
+        this.logger.log(`\nWaiting for branch '${this.options.branch}' to be created...`);
         await this.waitForRemoteBranch(this.options.branch);
       }
 
@@ -228,7 +335,8 @@ export class RepoManager {
 
       await this.executePostCloneCommand(resolvedTargetDir);
     } catch (error) {
-      throw new StainlessError(`Failed to clone SDK repository (${this.options.sdkRepo})`, error);
+      if (error instanceof LifecycleHookError) throw error;
+      throw new GitOperationError(`Failed to clone SDK repository (${this.options.sdkRepo})`, error);
     }
   }
 
@@ -254,9 +362,9 @@ export class RepoManager {
     const status = await this.sdkGit.status();
     const hasLocalChanges = !status.isClean();
     if (hasLocalChanges) {
-      console.log("\nLocal changes detected in SDK repository.");
-      console.log("Stashing your local changes before switching branches...");
-      await this.sdkGit.stash(["push", "-u", "-m", "Stashing changes before switching branches"]);
+      this.logger.log("\nLocal changes detected in SDK repository.");
+      this.logger.log("Stashing your local changes before switching branches...");
+      await this.sdkGit.stash(["push", "-u", "-m", REPO_MANAGER_STASH_MESSAGES.branchSwitch]);
     }
 
     try {
@@ -266,7 +374,7 @@ export class RepoManager {
       const branchExists = branches.all.includes(`origin/${this.options.branch}`);
 
       if (!branchExists) {
-        console.log(`\nWaiting for branch '${this.options.branch}' to be created...`);
+        this.logger.log(`\nWaiting for branch '${this.options.branch}' to be created...`);
         await this.waitForRemoteBranch(this.options.branch);
       }
 
@@ -287,10 +395,10 @@ export class RepoManager {
   }
 
   private async restoreStashedChanges(): Promise<void> {
-    console.log("\nReapplying your local changes...");
+    this.logger.log("\nReapplying your local changes...");
     try {
       await this.sdkGit.stash(["pop"]);
-      console.log("\n✓ Successfully reapplied your local changes.");
+      this.logger.log("\n✓ Successfully reapplied your local changes.");
     } catch (stashError) {
       const stashList = await this.sdkGit.stash(["list"]);
       const stashRef = stashList.split("\n")[0]?.match(/stash@\{0\}/)?.[0];
@@ -298,40 +406,40 @@ export class RepoManager {
       if (stashRef) {
         try {
           await this.sdkGit.stash(["apply", stashRef]);
-          console.log("\n✓ Successfully reapplied your local changes (with potential conflicts).");
-          console.log("\n⚠️  There were conflicts while reapplying your changes.");
-          console.log("Your changes are preserved in the stash. To resolve:");
-          console.log("1. Resolve any conflicts in your working directory");
-          console.log("2. Run: git stash drop");
+          this.logger.log("\n✓ Successfully reapplied your local changes (with potential conflicts).");
+          this.logger.log("\n⚠️  There were conflicts while reapplying your changes.");
+          this.logger.log("Your changes are preserved in the stash. To resolve:");
+          this.logger.log("1. Resolve any conflicts in your working directory");
+          this.logger.log("2. Run: git stash drop");
           process.exit(1);
         } catch {
-          console.log("\n⚠️  Could not reapply your local changes due to conflicts.");
-          console.log("Your changes are preserved in the stash. To resolve:");
-          console.log("1. Run: git stash pop");
-          console.log("2. Resolve the conflicts manually");
-          console.log("3. Commit your changes");
+          this.logger.log("\n⚠️  Could not reapply your local changes due to conflicts.");
+          this.logger.log("Your changes are preserved in the stash. To resolve:");
+          this.logger.log("1. Run: git stash pop");
+          this.logger.log("2. Resolve the conflicts manually");
+          this.logger.log("3. Commit your changes");
           process.exit(1);
         }
       } else {
-        throw new StainlessError("Failed to reapply local changes and could not find stash reference", stashError);
+        throw new GitOperationError("Failed to reapply local changes and could not find stash reference", stashError);
       }
     }
   }
 
   private async handleFailedBranchSwitch(): Promise<void> {
     try {
-      console.log("\nOperation failed, attempting to restore your local changes...");
+      this.logger.log("\nOperation failed, attempting to restore your local changes...");
       await this.sdkGit.stash(["pop"]);
-      console.log("✓ Successfully restored your local changes.");
-      console.log("\n⚠️  Could not switch to branch due to an error.");
-      console.log("To switch manually:");
-      console.log("1. Stash your changes: git stash");
-      console.log(`2. Switch branch: git checkout ${this.options.branch}`);
-      console.log("3. Reapply your changes: git stash pop");
-      console.log("4. Resolve any conflicts");
+      this.logger.log("✓ Successfully restored your local changes.");
+      this.logger.log("\n⚠️  Could not switch to branch due to an error.");
+      this.logger.log("To switch manually:");
+      this.logger.log("1. Stash your changes: git stash");
+      this.logger.log(`2. Switch branch: git checkout ${this.options.branch}`);
+      this.logger.log("3. Reapply your changes: git stash pop");
+      this.logger.log("4. Resolve any conflicts");
       process.exit(1);
     } catch (stashError) {
-      throw new StainlessError("Failed to restore local changes after operation failed", stashError);
+      throw new GitOperationError("Failed to restore local changes after operation failed", stashError);
     }
   }
 
@@ -345,18 +453,25 @@ export class RepoManager {
       const oldHash = await this.getCurrentSdkCommitHash();
 
       if (hasLocalChanges) {
-        console.log("\nLocal changes detected in SDK repository.");
-        console.log("Stashing your local changes before pulling updates...");
-        await this.sdkGit.stash(["push", "-u", "-m", "Stashing changes before SDK update"]);
+        this.logger.log("\nLocal changes detected in SDK repository.");
+        this.logger.log("Stashing your local changes before pulling updates...");
+        await this.sdkGit.stash(["push", "-u", "-m", REPO_MANAGER_STASH_MESSAGES.update]);
       }
 
       try {
         await this.sdkGit.pull("origin", this.options.branch);
         const newHash = await this.getCurrentSdkCommitHash();
-        console.log(
+        this.logger.log(
           chalk.cyan(`\n✏️ Updated SDK repository from ${oldHash.substring(0, 7)} to ${newHash.substring(0, 7)}`),
         );
         this.lastSdkCommitHash = newHash;
+        this.options.onEvent?.({
+          type: "pulled",
+          sdkName: this.options.sdkName,
+          branch: this.options.branch,
+          oldHash,
+          newHash,
+        });
 
         if (hasLocalChanges) {
           await this.restoreStashedChanges();
@@ -371,7 +486,7 @@ export class RepoManager {
       }
     } catch (error) {
       if (error instanceof StainlessError) throw error;
-      throw new StainlessError("Failed to pull changes", error);
+      throw new GitOperationError("Failed to pull changes", error);
     }
   }
 
@@ -387,18 +502,18 @@ export class RepoManager {
 
   private async handleFailedPull(): Promise<void> {
     try {
-      console.log("\nPull failed, attempting to restore your local changes...");
+      this.logger.log("\nPull failed, attempting to restore your local changes...");
       await this.sdkGit.stash(["pop"]);
-      console.log("✓ Successfully restored your local changes.");
-      console.log("\n⚠️  Could not update to the latest SDK version due to conflicts.");
-      console.log("To update manually:");
-      console.log("1. Stash your changes: git stash");
-      console.log("2. Pull latest changes: git pull");
-      console.log("3. Reapply your changes: git stash pop");
-      console.log("4. Resolve any conflicts");
+      this.logger.log("✓ Successfully restored your local changes.");
+      this.logger.log("\n⚠️  Could not update to the latest SDK version due to conflicts.");
+      this.logger.log("To update manually:");
+      this.logger.log("1. Stash your changes: git stash");
+      this.logger.log("2. Pull latest changes: git pull");
+      this.logger.log("3. Reapply your changes: git stash pop");
+      this.logger.log("4. Resolve any conflicts");
       process.exit(1);
     } catch (stashError) {
-      throw new StainlessError("Failed to restore local changes after pull failed", stashError);
+      throw new GitOperationError("Failed to restore local changes after pull failed", stashError);
     }
   }
 }
@@ -1,5 +1,8 @@
 import chalk from "chalk";
-import { StainlessError } from "./StainlessError.js";
+import type { Ora } from "ora";
+import { StainlessApiError, StainlessAuthError, StainlessError } from "./StainlessError.js";
+import type { EventHandler } from "./events.js";
+import type { Logger } from "./logger.js";
 
 /**
  * Interface defining the configuration options for the StainlessApi client
@@ -7,12 +10,81 @@ import { StainlessError } from "./StainlessError.js";
 interface StainlessApiOptions {
   /** Optional API key for authentication. Can be provided here or via STAINLESS_API_KEY environment variable */
   apiKey?: string;
-  /** Optional base URL for the API. Defaults to https://api.stainlessapi.com */
+  /** Optional base URL for the API. Can be provided here or via STAINLESS_API_BASE_URL environment variable. Defaults to https://api.stainlessapi.com */
   baseUrl?: string;
   /** Optional project name to associate with API calls */
   projectName?: string;
   /** Optional flag to enable automatic configuration guessing */
   guessConfig?: boolean;
+  /** Optional logger for user-facing output. Defaults to the console */
+  logger?: Logger;
+  /** Optional handler receiving publish-started, publish-retrying, publish-succeeded and publish-failed events */
+  onEvent?: EventHandler;
+  /** Optional spinner reporting each retry */
+  spinner?: Ora;
+  /** Optional maximum number of attempts to publish, including the first one. Defaults to 4 */
+  maxAttempts?: number;
+  /** Optional maximum time in milliseconds to spend publishing, including the time waiting between retries. Defaults to 60000 */
+  retryBudgetMs?: number;
+  /** Optional maximum time in milliseconds to wait for the API to respond to each request. Defaults to 30000 */
+  requestTimeoutMs?: number;
+}
+
+/**
+ * Default maximum number of attempts to publish, including the first one
+ */
+export const DEFAULT_MAX_ATTEMPTS = 4;
+
+/**
+ * Default maximum time to spend publishing, including the time waiting between retries
+ */
+export const DEFAULT_RETRY_BUDGET_MS = 60_000;
+
+/**
+ * Default maximum time to wait for the API to respond to each request
+ */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+/** Delay before the first retry, doubled for every following retry */
+const RETRY_BASE_DELAY_MS = 500;
+/** Maximum delay between two attempts, unless the API asks for a longer one with Retry-After */
+const RETRY_MAX_DELAY_MS = 10_000;
+
+/**
+ * HTTP statuses of failures that may succeed when retried: timeouts, rate limits and server errors
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  if (/^\d+$/.test(header.trim())) {
+    return Number(header) * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * A failed attempt to publish
+ */
+interface PublishFailure {
+  error: StainlessApiError;
+  /** Message of the publish-failed event */
+  message: string;
+  /** HTTP status of the response, if the API responded */
+  status?: number;
+  /** Whether the attempt may succeed when retried */
+  retryable: boolean;
+  /** Delay the API asked for with Retry-After */
+  retryAfterMs?: number;
 }
 
 /**
@@ -29,6 +101,8 @@ interface PublishOptions {
   projectName?: string;
   /** Optional flag to enable automatic configuration guessing */
   guessConfig?: boolean;
+  /** Optional signal that cancels publishing, including the request in flight and the wait before a retry */
+  signal?: AbortSignal;
 }
 
 /**
@@ -39,7 +113,7 @@ interface PublishOptions {
  * - Publishing Stainless configuration files
  * - Managing SDK generation settings
  * - Handling API authentication
- * - Error handling and retries
+ * - Error handling, and retries of network errors, timeouts, rate limits and server errors
  *
  * It requires a Stainless API key for authentication, which can be
  * provided via environment variable STAINLESS_API_KEY.
@@ -58,19 +132,32 @@ interface PublishOptions {
  */
 export class StainlessApi {
   private apiKey: string;
-  private baseUrl: string;
+  /** Base URL of the API, from the options, STAINLESS_API_BASE_URL or the default */
+  readonly baseUrl: string;
+  private logger: Logger;
+  private onEvent?: EventHandler;
+  private spinner?: Ora;
+  private maxAttempts: number;
+  private retryBudgetMs: number;
+  private requestTimeoutMs: number;
 
   /**
    * Creates a new instance of the StainlessApi client
    * @param options - Configuration options for the API client
-   * @throws {StainlessError} If no API key is provided via options or environment variable
+   * @throws {StainlessAuthError} If no API key is provided via options or environment variable
    */
   constructor(options: StainlessApiOptions = {}) {
     this.apiKey = options.apiKey || process.env.STAINLESS_API_KEY || "";
-    this.baseUrl = options.baseUrl || "https://api.stainlessapi.com";
+    this.baseUrl = options.baseUrl || process.env.STAINLESS_API_BASE_URL || "https://api.stainlessapi.com";
+    this.logger = options.logger ?? console;
+    this.onEvent = options.onEvent;
+    this.spinner = options.spinner;
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    this.retryBudgetMs = options.retryBudgetMs ?? DEFAULT_RETRY_BUDGET_MS;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
 
     if (!this.apiKey) {
-      throw new StainlessError(
+      throw new StainlessAuthError(
         "Stainless API key is required. Set STAINLESS_API_KEY environment variable or pass it in options.",
       );
     }
@@ -79,6 +166,9 @@ export class StainlessApi {
   /**
    * Publishes an OpenAPI specification and optional Stainless configuration to the API.
    * This method handles the upload of specification files and associated metadata to the Stainless platform.
+   * Network errors, timeouts (408), rate limits (429) and server errors (5xx) are retried with jittered
+   * exponential backoff, honouring Retry-After, until the attempts or the retry budget run out.
+   * Each request times out after `requestTimeoutMs`, which is retried like a network error.
    *
    * @param options - Options for publishing
    * @param options.spec - OpenAPI specification content as a string or Buffer
@@ -86,10 +176,15 @@ export class StainlessApi {
    * @param options.branch - Optional branch name to associate with the publication
    * @param options.projectName - Optional project name to associate with the publication
    * @param options.guessConfig - Optional flag to enable automatic configuration guessing
+   * @param options.signal - Optional signal that cancels publishing
    * @returns Promise that resolves when the upload is complete
-   * @throws {StainlessError} If the spec is missing or if there's an error during upload
+   * @throws {StainlessError} If the spec is missing
+   * @throws {StainlessAuthError} If the API rejects the API key
+   * @throws {StainlessApiError} If there's an error during upload or if publishing is cancelled
    */
   async publish(options: PublishOptions): Promise<void> {
+    const target = { branch: options.branch, projectName: options.projectName };
+
     try {
       if (!options.spec) {
         throw new StainlessError("OpenAPI specification is required");
@@ -126,41 +221,179 @@ export class StainlessApi {
         formData.append("guessConfig", "true");
       }
 
-      console.info(chalk.blue("\n🚀 Publishing specifications to Stainless..."));
+      this.logger.log(chalk.blue("\n🚀 Publishing specifications to Stainless..."));
+      this.onEvent?.({ type: "publish-started", ...target });
 
-      const response = await fetch(`${this.baseUrl}/api/spec`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: formData,
-      });
+      const startedAt = Date.now();
+      for (let attempt = 1; ; attempt++) {
+        const failure = await this.attemptPublish(formData, options.signal);
+        if (!failure) {
+          break;
+        }
 
-      if (!response.ok) {
-        const responseText = await response.text();
-        let errorInfo: any;
-        try {
-          errorInfo = JSON.parse(responseText);
-        } catch {
-          errorInfo = { message: responseText || "Unknown error" };
+        const delayMs = this.getRetryDelay(failure, attempt, startedAt);
+        if (delayMs === undefined) {
+          this.onEvent?.({ type: "publish-failed", ...target, status: failure.status, message: failure.message });
+          throw failure.error;
         }
 
-        const details = errorInfo.details ? `\nDetails: ${errorInfo.details}` : "";
-        const errorMessage = `API Error (HTTP ${response.status}): ${errorInfo.message}${details}\nResponse: ${responseText}`;
-        throw new StainlessError(errorMessage);
+        this.onEvent?.({
+          type: "publish-retrying",
+          ...target,
+          status: failure.status,
+          message: failure.message,
+          attempt: attempt + 1,
+          maxAttempts: this.maxAttempts,
+          delayMs,
+        });
+        await this.waitForRetry(
+          `${failure.status ? `Stainless API responded with HTTP ${failure.status}` : failure.message}, retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1} of ${this.maxAttempts})...`,
+          delayMs,
+          options.signal,
+        );
       }
 
-      console.info(
+      this.logger.log(
         chalk.green(
           "\n✓ Successfully published specifications to Stainless. This will not generate a new SDK if there are no actual changes.",
         ),
       );
+      this.onEvent?.({ type: "publish-succeeded", ...target });
     } catch (err: unknown) {
       if (err instanceof StainlessError) {
         throw err;
       }
       // For non-Error objects (shouldn't happen, but just in case)
-      throw new StainlessError(`Failed to publish to Stainless API: ${String(err)}`);
+      this.onEvent?.({ type: "publish-failed", ...target, message: String(err) });
+      throw new StainlessApiError(`Failed to publish to Stainless API: ${String(err)}`, { cause: err });
+    }
+  }
+
+  /**
+   * Sends the specifications to the API once, giving up after the request timeout
+   * @returns The failure, or undefined if the specifications were published
+   */
+  private async attemptPublish(formData: FormData, signal?: AbortSignal): Promise<PublishFailure | undefined> {
+    const cancelled = (): PublishFailure => ({
+      error: new StainlessApiError("Publishing to Stainless API was cancelled", { cause: signal?.reason }),
+      message: "Cancelled",
+      retryable: false,
+    });
+    if (signal?.aborted) {
+      return cancelled();
+    }
+
+    // Aborted by the timeout or the signal of the caller. AbortSignal.any is not available in Node 18.
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.requestTimeoutMs);
+    const abort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", abort, { once: true });
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/spec`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: formData,
+        signal: controller.signal,
+      });
+
+      if (response.ok) {
+        return undefined;
+      }
+
+      const responseText = await response.text();
+      let errorInfo: any;
+      try {
+        errorInfo = JSON.parse(responseText);
+      } catch {
+        errorInfo = { message: responseText || "Unknown error" };
+      }
+
+      const details = errorInfo.details ? `\nDetails: ${errorInfo.details}` : "";
+      const ApiError = response.status === 401 || response.status === 403 ? StainlessAuthError : StainlessApiError;
+      return {
+        error: new ApiError(
+          `API Error (HTTP ${response.status}): ${errorInfo.message}${details}\nResponse: ${responseText}`,
+          { status: response.status, body: errorInfo },
+        ),
+        message: `${errorInfo.message}${errorInfo.details ? ` (${errorInfo.details})` : ""}`,
+        status: response.status,
+        retryable: isRetryableStatus(response.status),
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      };
+    } catch (err) {
+      if (signal?.aborted) {
+        return cancelled();
+      }
+      if (timedOut) {
+        const message = `No response within ${this.requestTimeoutMs / 1000}s`;
+        return {
+          error: new StainlessApiError(`Failed to publish to Stainless API: ${message}`, { cause: err }),
+          message,
+          retryable: true,
+        };
+      }
+      // The request did not reach the API, or the connection dropped
+      return {
+        error: new StainlessApiError(`Failed to publish to Stainless API: ${String(err)}`, { cause: err }),
+        message: String(err),
+        retryable: true,
+      };
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  /**
+   * Calculates how long to wait before retrying a failed attempt: the delay the API asked for with
+   * Retry-After, or an exponential backoff with jitter so that clients do not retry in lockstep
+   * @returns The delay in milliseconds, or undefined if the failure should not be retried
+   */
+  private getRetryDelay(failure: PublishFailure, attempt: number, startedAt: number): number | undefined {
+    if (!failure.retryable || attempt >= this.maxAttempts) {
+      return undefined;
+    }
+
+    const backoffMs = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    const delayMs = failure.retryAfterMs ?? Math.round(backoffMs / 2 + Math.random() * (backoffMs / 2));
+
+    // Give up rather than wait past the budget
+    return Date.now() - startedAt + delayMs > this.retryBudgetMs ? undefined : delayMs;
+  }
+
+  /**
+   * Waits before retrying, showing why on the spinner. Stops waiting when the signal is aborted.
+   */
+  private async waitForRetry(message: string, delayMs: number, signal?: AbortSignal): Promise<void> {
+    const wasSpinning = this.spinner?.isSpinning;
+    const text = this.spinner?.text;
+    this.spinner?.start(message);
+
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const timeout = setTimeout(done, delayMs);
+      signal?.addEventListener("abort", done, { once: true });
+      // The signal may have been aborted while the response of the failed attempt was read
+      if (signal?.aborted) {
+        done();
+      }
+    });
+
+    if (wasSpinning) {
+      this.spinner?.start(text);
+    } else {
+      this.spinner?.stop();
     }
   }
 }
@@ -1,4 +1,21 @@
+import type { ZodIssue } from "zod";
+
+/**
+ * Stable codes that identify the kind of a StainlessError, for scripts and error handling that should not
+ * depend on the wording of messages
+ */
+export type StainlessErrorCode =
+  | "STAINLESS_ERROR"
+  | "STAINLESS_API_ERROR"
+  | "STAINLESS_AUTH_ERROR"
+  | "GIT_OPERATION_ERROR"
+  | "LIFECYCLE_HOOK_ERROR"
+  | "CONFIG_ERROR";
+
 export class StainlessError extends Error {
+  /** Stable code of the kind of error */
+  readonly code: StainlessErrorCode = "STAINLESS_ERROR";
+
   constructor(
     message: string,
     public readonly cause?: unknown,
@@ -7,3 +24,97 @@ export class StainlessError extends Error {
     this.name = "StainlessError";
   }
 }
+
+export interface StainlessApiErrorOptions {
+  /** HTTP status of the response, undefined if no response was received */
+  status?: number;
+  /** Body of the response, parsed as JSON when possible */
+  body?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * The Stainless API rejected a request, or could not be reached
+ */
+export class StainlessApiError extends StainlessError {
+  override readonly code: StainlessErrorCode = "STAINLESS_API_ERROR";
+  readonly status?: number;
+  readonly body?: unknown;
+
+  constructor(message: string, { status, body, cause }: StainlessApiErrorOptions = {}) {
+    super(message, cause);
+    this.name = "StainlessApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * The Stainless API key is missing, or was rejected by the API (HTTP 401 or 403)
+ */
+export class StainlessAuthError extends StainlessApiError {
+  override readonly code: StainlessErrorCode = "STAINLESS_AUTH_ERROR";
+
+  constructor(message: string, options: StainlessApiErrorOptions = {}) {
+    super(message, options);
+    this.name = "StainlessAuthError";
+  }
+}
+
+/**
+ * A git command on the SDK repository failed, e.g. cloning, pulling or stashing local changes
+ */
+export class GitOperationError extends StainlessError {
+  override readonly code: StainlessErrorCode = "GIT_OPERATION_ERROR";
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = "GitOperationError";
+  }
+}
+
+export interface LifecycleHookErrorOptions {
+  hook: "postClone" | "postUpdate" | "prePublishSpec";
+  command: string;
+  /** Exit code of the command, null if it could not be started or was killed by a signal */
+  exitCode: number | null;
+  cause?: unknown;
+}
+
+/**
+ * A lifecycle hook failed to run or exited with a non-zero code
+ */
+export class LifecycleHookError extends StainlessError {
+  override readonly code: StainlessErrorCode = "LIFECYCLE_HOOK_ERROR";
+  readonly hook: LifecycleHookErrorOptions["hook"];
+  readonly command: string;
+  readonly exitCode: number | null;
+
+  constructor(message: string, { hook, command, exitCode, cause }: LifecycleHookErrorOptions) {
+    super(message, cause);
+    this.name = "LifecycleHookError";
+    this.hook = hook;
+    this.command = command;
+    this.exitCode = exitCode;
+  }
+}
+
+export interface ConfigErrorOptions {
+  /** Validation issues of the configuration, empty if it could not be loaded at all */
+  issues?: ZodIssue[];
+  cause?: unknown;
+}
+
+/**
+ * The configuration could not be found or loaded, is invalid, or does not define what a command needs
+ */
+export class ConfigError extends StainlessError {
+  override readonly code: StainlessErrorCode = "CONFIG_ERROR";
+  readonly issues: ZodIssue[];
+
+  constructor(message: string, { issues = [], cause }: ConfigErrorOptions = {}) {
+    super(message, cause);
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
@@ -1,9 +1,12 @@
 import type { Ora } from "ora";
-import { FileWatcher } from "./FileWatcher.js";
+import { FileWatcher, type WatchOptions } from "./FileWatcher.js";
 import { LifecycleManager } from "./LifecycleManager.js";
-import { RepoManager } from "./RepoManager.js";
+import type { PublishHistory } from "./PublishHistory.js";
+import { RepoManager, type WaitForNewCommitOptions } from "./RepoManager.js";
 import { StainlessApi } from "./StainlessApi.js";
 import { StainlessError } from "./StainlessError.js";
+import type { EventHandler } from "./events.js";
+import type { Logger } from "./logger.js";
 import { isValidGitUrl } from "./utils.js";
 
 /**
@@ -20,6 +23,7 @@ export interface StainlessToolsOptions {
   branch: string;
   /**
    * Local directory where the SDK repository will be cloned/managed.
+   * Used as given: render target directory templates such as `./sdks/{sdk}` before passing them.
    */
   targetDir: string;
   /**
@@ -31,6 +35,14 @@ export interface StainlessToolsOptions {
    * Path to the Stainless configuration file.
    */
   stainlessConfigFile?: string;
+  /**
+   * Milliseconds to wait after the last change of the watched files before publishing them.
+   */
+  debounceMs?: number;
+  /**
+   * Milliseconds the size of a changed file must stay the same before it is published.
+   */
+  stabilityThresholdMs?: number;
   /**
    * Name of the project in Stainless.
    */
@@ -40,7 +52,7 @@ export interface StainlessToolsOptions {
    */
   sdkName?: string;
   /**
-   * Current environment (staging/prod).
+   * Current environment, e.g. staging or prod.
    */
   env?: string;
   /**
@@ -48,13 +60,40 @@ export interface StainlessToolsOptions {
    */
   guessConfig?: boolean;
   /**
-   * Lifecycle manager for executing hooks at various stages.
+   * Lifecycle manager for executing hooks at various stages, e.g. one whose hooks are reloaded while watching.
+   * Defaults to one created from `lifecycle`.
    */
-  lifecycleManager: LifecycleManager;
+  lifecycleManager?: LifecycleManager;
   /**
    * Progress spinner for CLI output.
    */
   spinner?: Ora;
+  /**
+   * Logger used for user-facing output. Defaults to the console.
+   */
+  logger?: Logger;
+  /**
+   * Whether this instance publishes and watches the OpenAPI / Stainless config files.
+   * Set to false when a shared FileWatcher handles them for several SDKs. Defaults to true.
+   */
+  watchFiles?: boolean;
+  /**
+   * Receives machine-readable events from publishing, repository updates and lifecycle hooks.
+   */
+  onEvent?: EventHandler;
+  /**
+   * Stream the stdout of lifecycle hooks is written to. Defaults to process.stdout.
+   */
+  hookStdout?: NodeJS.WritableStream;
+  /**
+   * History of publishes, used to skip publishing files that have not changed since they were last published.
+   * Every publish is sent when omitted.
+   */
+  publishHistory?: PublishHistory;
+  /**
+   * Whether to publish files even when they have not changed since they were last published.
+   */
+  force?: boolean;
   /**
    * Options for configuring the Stainless API client.
    */
@@ -71,6 +110,18 @@ export interface StainlessToolsOptions {
      * Project name in Stainless.
      */
     projectName?: string;
+    /**
+     * Maximum number of attempts to publish, including the first one. Defaults to 4.
+     */
+    maxAttempts?: number;
+    /**
+     * Maximum time in milliseconds to spend publishing, including the time waiting between retries. Defaults to 60000.
+     */
+    retryBudgetMs?: number;
+    /**
+     * Maximum time in milliseconds to wait for the API to respond to each request. Defaults to 30000.
+     */
+    requestTimeoutMs?: number;
   };
   /**
    * Lifecycle hooks configuration.
@@ -136,21 +187,34 @@ export class StainlessTools {
    */
   constructor(private options: StainlessToolsOptions) {
     this.validateInputs();
-    this.stainlessApi = new StainlessApi(options.stainlessApiOptions);
-    this.lifecycleManager = new LifecycleManager(options.lifecycle);
+    this.stainlessApi = new StainlessApi({
+      ...options.stainlessApiOptions,
+      logger: options.logger,
+      onEvent: options.onEvent,
+      spinner: options.spinner,
+    });
+    this.lifecycleManager =
+      options.lifecycleManager ??
+      new LifecycleManager(options.lifecycle, options.logger, {
+        onEvent: options.onEvent,
+        hookStdout: options.hookStdout,
+      });
 
     this.repoManager = new RepoManager({
       sdkRepo: options.sdkRepo,
       branch: options.branch,
       targetDir: options.targetDir,
       sdkName: options.sdkName,
-      env: options.env,
       lifecycleManager: this.lifecycleManager,
+      logger: options.logger,
+      onEvent: options.onEvent,
     });
 
     this.fileWatcher = new FileWatcher({
       openApiFile: options.openApiFile,
       stainlessConfigFile: options.stainlessConfigFile,
+      debounceMs: options.debounceMs,
+      stabilityThresholdMs: options.stabilityThresholdMs,
       spinner: options.spinner,
       branch: options.branch,
       stainlessApi: this.stainlessApi,
@@ -160,6 +224,10 @@ export class StainlessTools {
       },
       lifecycleManager: this.lifecycleManager,
       sdkName: options.sdkName,
+      logger: options.logger,
+      onEvent: options.onEvent,
+      publishHistory: options.publishHistory,
+      force: options.force,
     });
   }
 
@@ -189,17 +257,25 @@ export class StainlessTools {
 
   /**
    * Clones the SDK repository and sets up the initial state.
-   * If OpenAPI or config files are specified, they will be published to the Stainless API.
+   * If OpenAPI or config files are specified, they will be published to the Stainless API,
+   * unless file watching has been disabled via the watchFiles option.
    * @throws {StainlessError} If cloning fails or if there are issues publishing files
    */
   async clone(): Promise<void> {
+    const watchFiles = this.options.watchFiles ?? true;
+
     try {
       // Always publish files since openApiFile is required
-      await this.fileWatcher.publishFiles();
+      if (watchFiles) {
+        await this.fileWatcher.publishFiles();
+      }
+
       await this.repoManager.initializeRepo();
 
       // Start watching for file changes after successful clone
-      this.fileWatcher.start();
+      if (watchFiles) {
+        this.fileWatcher.start();
+      }
     } catch (error) {
       if (error instanceof StainlessError) throw error;
       throw new StainlessError("Failed to clone or update SDK repository", error);
@@ -215,6 +291,25 @@ export class StainlessTools {
     return this.repoManager.hasNewChanges();
   }
 
+  /**
+   * Reads the commit the SDK branch points at without cloning, e.g. before publishing.
+   * @returns The hash of the commit, or null if the branch does not exist
+   * @throws {GitOperationError} If the SDK repository cannot be read
+   */
+  async getRemoteBranchHead(): Promise<string | null> {
+    return this.repoManager.getRemoteBranchHead();
+  }
+
+  /**
+   * Waits until the SDK branch moves past a commit, by default the one recorded when the repository was cloned.
+   * @param options - How long to wait, how often to check the remote branch and the commit to move past
+   * @returns The hash of the new commit
+   * @throws {StainlessError} If no new commit shows up before the timeout
+   */
+  async waitForNewCommit(options: WaitForNewCommitOptions): Promise<string> {
+    return this.repoManager.waitForNewCommit(options);
+  }
+
   /**
    * Pulls changes from the SDK repository.
    * If there are local changes, they will be stashed before pulling and restored after.
@@ -225,9 +320,19 @@ export class StainlessTools {
   }
 
   /**
-   * Cleans up resources used by the tools.
+   * Changes the OpenAPI and Stainless config files that are watched and published, and how long
+   * to wait before publishing them, e.g. when the configuration is reloaded.
+   */
+  setWatchOptions(options: WatchOptions & { openApiFile: string }): void {
+    this.options = { ...this.options, ...options };
+    this.fileWatcher.setWatchOptions(options);
+  }
+
+  /**
+   * Cleans up resources used by the tools, cancelling the publish in flight if any.
    */
   cleanup(): void {
     this.fileWatcher.stop();
+    this.fileWatcher.abortPublish();
   }
 }
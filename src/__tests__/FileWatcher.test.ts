@@ -1,18 +1,23 @@
 import * as fs from "node:fs/promises";
 import * as chokidar from "chokidar";
 import type { Ora } from "ora";
-import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type Mock, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { FileWatcher } from "../FileWatcher";
+import type { LifecycleManager } from "../LifecycleManager";
+import { type PublishHistory, hashPublishContents } from "../PublishHistory";
 import type { StainlessApi } from "../StainlessApi";
 import { StainlessError } from "../StainlessError";
+import { assertValidOpenApiSpec } from "../spec-validation";
 
 vi.mock("node:fs/promises");
 vi.mock("chokidar");
+vi.mock("../spec-validation");
 
 describe("FileWatcher", () => {
   const mockPublish = vi.fn().mockImplementation(() => Promise.resolve());
   const mockStainlessApi = {
     publish: mockPublish,
+    baseUrl: "https://api.stainlessapi.com",
   } as unknown as StainlessApi;
 
   const mockSpinner = {
@@ -275,6 +280,66 @@ describe("FileWatcher", () => {
     });
   });
 
+  describe("setWatchOptions", () => {
+    it("should restart watching with the new files", () => {
+      watcher.start();
+      watcher.setWatchOptions({ openApiFile: "specs/openapi.yaml" });
+
+      expect(mockFsWatcher.close).toHaveBeenCalledTimes(1);
+      expect(chokidar.watch).toHaveBeenLastCalledWith(["specs/openapi.yaml"], expect.anything());
+    });
+
+    it("should wait for the new timings", async () => {
+      const mockPublish = vi.spyOn(watcher, "publishFiles").mockResolvedValue();
+      watcher.start();
+      watcher.setWatchOptions({ openApiFile: "openapi.yaml", debounceMs: 200, stabilityThresholdMs: 0 });
+
+      expect(chokidar.watch).toHaveBeenLastCalledWith(
+        ["openapi.yaml"],
+        expect.objectContaining({ awaitWriteFinish: false }),
+      );
+
+      const [, changeCallback] = mockFsWatcher.on.mock.calls.filter(([event]) => event === "change").pop();
+      await changeCallback("openapi.yaml");
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(mockPublish).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not start watching if it was not watching", () => {
+      watcher.setWatchOptions({ openApiFile: "specs/openapi.yaml" });
+      expect(chokidar.watch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("abortPublish", () => {
+    it("should cancel the publish in flight without reporting an error", async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(Buffer.from("spec content"));
+      let signal: AbortSignal | undefined;
+      mockPublish.mockImplementationOnce(
+        (options) =>
+          new Promise((_, reject) => {
+            signal = options.signal;
+            signal?.addEventListener("abort", () => reject(new StainlessError("Cancelled")));
+          }),
+      );
+      const onEvent = vi.fn();
+      const abortingWatcher = new FileWatcher({ ...defaultOptions, onEvent });
+      abortingWatcher.start();
+
+      const [, changeCallback] = mockFsWatcher.on.mock.calls.filter(([event]) => event === "change").pop();
+      await changeCallback("openapi.yaml");
+      await vi.advanceTimersByTimeAsync(1000);
+
+      abortingWatcher.stop();
+      abortingWatcher.abortPublish();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(signal?.aborted).toBe(true);
+      expect(onEvent).not.toHaveBeenCalled();
+    });
+  });
+
   describe("publishFiles", () => {
     it("should throw error if OpenAPI file is not specified", async () => {
       const noOpenApiWatcher = new FileWatcher({
@@ -300,6 +365,7 @@ describe("FileWatcher", () => {
         spec: specContent,
         config: undefined,
         branch: defaultOptions.branch,
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -314,10 +380,34 @@ describe("FileWatcher", () => {
         spec: specContent,
         config: configContent,
         branch: defaultOptions.branch,
+        signal: expect.any(AbortSignal),
       });
       expect(mockSpinner.start).toHaveBeenCalledWith("Listening for new SDK updates...");
     });
 
+    it("should run prePublishSpec for every shared SDK", async () => {
+      vi.mocked(fs.readFile).mockResolvedValueOnce(Buffer.from("spec content"));
+      const mockLifecycleManager = { executePrePublishSpec: vi.fn() } as unknown as LifecycleManager;
+
+      const sharedWatcher = new FileWatcher({
+        ...defaultOptions,
+        stainlessConfigFile: undefined,
+        lifecycleManager: mockLifecycleManager,
+        sdkNames: ["typescript", "python"],
+      });
+
+      await sharedWatcher.publishFiles();
+
+      expect(mockLifecycleManager.executePrePublishSpec).toHaveBeenCalledTimes(2);
+      expect(mockLifecycleManager.executePrePublishSpec).toHaveBeenCalledWith(
+        expect.objectContaining({ sdkName: "typescript", branch: "main" }),
+      );
+      expect(mockLifecycleManager.executePrePublishSpec).toHaveBeenCalledWith(
+        expect.objectContaining({ sdkName: "python", branch: "main" }),
+      );
+      expect(mockStainlessApi.publish).toHaveBeenCalledTimes(1);
+    });
+
     it("should handle OpenAPI file read error", async () => {
       const error = new Error("File read error");
       vi.mocked(fs.readFile).mockRejectedValueOnce(error);
@@ -337,6 +427,26 @@ describe("FileWatcher", () => {
       );
     });
 
+    it("should validate the OpenAPI spec before publishing", async () => {
+      const specContent = Buffer.from("spec content");
+      vi.mocked(fs.readFile).mockResolvedValueOnce(specContent).mockResolvedValueOnce(Buffer.from("config content"));
+
+      await watcher.publishFiles();
+
+      expect(assertValidOpenApiSpec).toHaveBeenCalledWith(defaultOptions.openApiFile, specContent);
+    });
+
+    it("should not publish an invalid OpenAPI spec", async () => {
+      vi.mocked(fs.readFile).mockResolvedValueOnce(Buffer.from("spec content"));
+      const validationError = new StainlessError(
+        "Invalid OpenAPI specification (openapi.yaml):\n  openapi.yaml:2 #/info: must have required property 'version'",
+      );
+      vi.mocked(assertValidOpenApiSpec).mockRejectedValueOnce(validationError);
+
+      await expect(watcher.publishFiles()).rejects.toThrow(validationError);
+      expect(mockStainlessApi.publish).not.toHaveBeenCalled();
+    });
+
     it("should handle publish API error", async () => {
       const specContent = Buffer.from("spec content");
       const configContent = Buffer.from("config content");
@@ -348,4 +458,112 @@ describe("FileWatcher", () => {
       await expect(watcher.publishFiles()).rejects.toThrow(apiError);
     });
   });
+
+  describe("publishHistory", () => {
+    const specContent = Buffer.from("spec content");
+    const configContent = Buffer.from("config content");
+    const hash = hashPublishContents({ spec: specContent, config: configContent, branch: "main" });
+    const historyTarget = { branch: "main", projectName: undefined, baseUrl: "https://api.stainlessapi.com" };
+    let publishHistory: { filepath: string; getLastHash: Mock; record: Mock };
+
+    beforeEach(() => {
+      vi.mocked(fs.readFile).mockImplementation(async (file) =>
+        file === defaultOptions.openApiFile ? specContent : configContent,
+      );
+      publishHistory = {
+        filepath: "/state/published.json",
+        getLastHash: vi.fn().mockResolvedValue(undefined),
+        record: vi.fn().mockResolvedValue(undefined),
+      };
+    });
+
+    it("publishes and records files that changed since the last publish", async () => {
+      const historyWatcher = new FileWatcher({
+        ...defaultOptions,
+        publishHistory: publishHistory as unknown as PublishHistory,
+      });
+
+      await expect(historyWatcher.publishFiles()).resolves.toBe(true);
+
+      expect(mockPublish).toHaveBeenCalled();
+      expect(publishHistory.getLastHash).toHaveBeenCalledWith(historyTarget);
+      expect(publishHistory.record).toHaveBeenCalledWith(historyTarget, hash);
+    });
+
+    it("skips publishing files that did not change since the last publish", async () => {
+      publishHistory.getLastHash.mockResolvedValue(hash);
+      const onEvent = vi.fn();
+      const historyWatcher = new FileWatcher({
+        ...defaultOptions,
+        publishHistory: publishHistory as unknown as PublishHistory,
+        onEvent,
+      });
+
+      await expect(historyWatcher.publishFiles()).resolves.toBe(false);
+
+      expect(mockPublish).not.toHaveBeenCalled();
+      expect(publishHistory.record).not.toHaveBeenCalled();
+      expect(onEvent).toHaveBeenCalledWith({ type: "publish-skipped", branch: "main", projectName: undefined });
+      expect(mockSpinner.start).toHaveBeenCalledWith("Listening for new SDK updates...");
+    });
+
+    it("publishes unchanged files with force", async () => {
+      publishHistory.getLastHash.mockResolvedValue(hash);
+      const historyWatcher = new FileWatcher({
+        ...defaultOptions,
+        publishHistory: publishHistory as unknown as PublishHistory,
+        force: true,
+      });
+
+      await expect(historyWatcher.publishFiles()).resolves.toBe(true);
+
+      expect(mockPublish).toHaveBeenCalled();
+      expect(publishHistory.record).toHaveBeenCalledWith(historyTarget, hash);
+    });
+
+    it("does not record failed publishes", async () => {
+      mockPublish.mockRejectedValueOnce(new StainlessError("API Error"));
+      const historyWatcher = new FileWatcher({
+        ...defaultOptions,
+        publishHistory: publishHistory as unknown as PublishHistory,
+      });
+
+      await expect(historyWatcher.publishFiles()).rejects.toThrow("API Error");
+
+      expect(publishHistory.record).not.toHaveBeenCalled();
+    });
+
+    it("records the publish only when asked to, when recordOnPublish is false", async () => {
+      const historyWatcher = new FileWatcher({
+        ...defaultOptions,
+        publishHistory: publishHistory as unknown as PublishHistory,
+        recordOnPublish: false,
+      });
+
+      await expect(historyWatcher.publishFiles()).resolves.toBe(true);
+      expect(publishHistory.record).not.toHaveBeenCalled();
+
+      await historyWatcher.recordLastPublish();
+      await historyWatcher.recordLastPublish();
+      expect(publishHistory.record).toHaveBeenCalledTimes(1);
+      expect(publishHistory.record).toHaveBeenCalledWith(historyTarget, hash);
+    });
+
+    it("still succeeds when the publish cannot be recorded", async () => {
+      publishHistory.record.mockRejectedValue(new Error("EACCES"));
+      const logger = { log: vi.fn(), error: vi.fn() };
+      const historyWatcher = new FileWatcher({
+        ...defaultOptions,
+        publishHistory: publishHistory as unknown as PublishHistory,
+        logger,
+      });
+
+      await expect(historyWatcher.publishFiles()).resolves.toBe(true);
+
+      expect(logger.error).toHaveBeenCalledWith(
+        "Failed to record the publish in /state/published.json:",
+        expect.any(Error),
+      );
+    });
+  });
 });
@@ -2,7 +2,7 @@ import { Readable } from "node:stream";
 import { execa } from "execa";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { LifecycleManager } from "../LifecycleManager.js";
-import { StainlessError } from "../StainlessError.js";
+import { LifecycleHookError, StainlessError } from "../StainlessError.js";
 
 vi.mock("execa");
 
@@ -121,6 +121,22 @@ describe("LifecycleManager", () => {
     });
   });
 
+  describe("setConfig", () => {
+    it("runs the hooks of the new configuration", async () => {
+      lifecycleManager.setConfig({ "test-sdk": { postClone: "pnpm install" } });
+      await lifecycleManager.executePostClone(mockContext);
+
+      expect(execa).toHaveBeenCalledWith("pnpm install", expect.anything());
+    });
+
+    it("clears the hooks when the configuration is removed", async () => {
+      lifecycleManager.setConfig(undefined);
+      await lifecycleManager.executePostClone(mockContext);
+
+      expect(execa).not.toHaveBeenCalled();
+    });
+  });
+
   describe("executePostUpdate", () => {
     it("executes postUpdate command with correct environment variables", async () => {
       await lifecycleManager.executePostUpdate(mockContext);
@@ -229,6 +245,20 @@ describe("LifecycleManager", () => {
       await expect(lifecycleManager.executePostClone(mockContext)).rejects.toThrow(StainlessError);
     });
 
+    it("includes the hook, command and exit code in the error", async () => {
+      (execa as unknown as any).mockReturnValue({ stdout: mockStdout, stderr: mockStderr, exitCode: 3 });
+
+      const error = await lifecycleManager.executePostClone(mockContext).catch((error) => error);
+
+      expect(error).toBeInstanceOf(LifecycleHookError);
+      expect(error).toMatchObject({
+        code: "LIFECYCLE_HOOK_ERROR",
+        hook: "postClone",
+        command: "npm install",
+        exitCode: 3,
+      });
+    });
+
     it("includes the command in error message", async () => {
       const execaError = new Error("Command failed");
       (execa as unknown as any).mockRejectedValue(execaError);
@@ -238,4 +268,49 @@ describe("LifecycleManager", () => {
       );
     });
   });
+
+  describe("events", () => {
+    it("emits hook-started and hook-finished with the exit code", async () => {
+      const onEvent = vi.fn();
+      lifecycleManager = new LifecycleManager(mockConfig, console, { onEvent });
+
+      await lifecycleManager.executePostUpdate(mockContext);
+
+      expect(onEvent).toHaveBeenNthCalledWith(1, {
+        type: "hook-started",
+        sdkName: "test-sdk",
+        hook: "postUpdate",
+        command: "npm run build",
+      });
+      expect(onEvent).toHaveBeenNthCalledWith(2, {
+        type: "hook-finished",
+        sdkName: "test-sdk",
+        hook: "postUpdate",
+        command: "npm run build",
+        exitCode: 0,
+      });
+    });
+
+    it("emits hook-finished with the exit code of a failed command", async () => {
+      const onEvent = vi.fn();
+      lifecycleManager = new LifecycleManager(mockConfig, console, { onEvent });
+      (execa as unknown as any).mockRejectedValue(Object.assign(new Error("Command failed"), { exitCode: 2 }));
+
+      await expect(lifecycleManager.executePostClone(mockContext)).rejects.toThrow(StainlessError);
+
+      expect(onEvent).toHaveBeenLastCalledWith(expect.objectContaining({ type: "hook-finished", exitCode: 2 }));
+    });
+
+    it("writes hook stdout to the configured stream", async () => {
+      const hookStdout = { write: vi.fn() } as unknown as NodeJS.WritableStream;
+      lifecycleManager = new LifecycleManager(mockConfig, console, { hookStdout });
+
+      const promise = lifecycleManager.executePostClone(mockContext);
+      mockStdout.emit("data", "Installing dependencies...\n");
+      await promise;
+
+      expect(hookStdout.write).toHaveBeenCalledWith("Installing dependencies...\n");
+      expect(mockProcess.stdout.write).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,97 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { PublishHistory, getDefaultStateDir, hashPublishContents } from "../PublishHistory";
+
+describe("PublishHistory", () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "stainless-tools-state-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("remembers the last hash of each project and branch", async () => {
+    const history = new PublishHistory(path.join(stateDir, "nested"));
+
+    await history.record({ branch: "main", projectName: "my-project" }, "a");
+    await history.record({ branch: "feature", projectName: "my-project" }, "b");
+    await history.record({ branch: "main", projectName: "my-project" }, "c");
+
+    const reloaded = new PublishHistory(path.join(stateDir, "nested"));
+    expect(await reloaded.getLastHash({ branch: "main", projectName: "my-project" })).toBe("c");
+    expect(await reloaded.getLastHash({ branch: "feature", projectName: "my-project" })).toBe("b");
+    expect(await reloaded.getLastHash({ branch: "main", projectName: "other-project" })).toBeUndefined();
+  });
+
+  it("keeps the publishes to each Stainless API apart", async () => {
+    const history = new PublishHistory(stateDir);
+
+    await history.record({ branch: "main", projectName: "p", baseUrl: "http://127.0.0.1:4010" }, "mock");
+
+    expect(await history.getLastHash({ branch: "main", projectName: "p", baseUrl: "http://127.0.0.1:4010" })).toBe(
+      "mock",
+    );
+    expect(
+      await history.getLastHash({ branch: "main", projectName: "p", baseUrl: "https://api.stainlessapi.com" }),
+    ).toBeUndefined();
+  });
+
+  it("treats a missing or corrupt history as empty", async () => {
+    const history = new PublishHistory(stateDir);
+    expect(await history.getLastHash({ branch: "main" })).toBeUndefined();
+
+    await fs.writeFile(history.filepath, "{ not json");
+    expect(await history.getLastHash({ branch: "main" })).toBeUndefined();
+
+    await history.record({ branch: "main" }, "a");
+    expect(await history.getLastHash({ branch: "main" })).toBe("a");
+  });
+});
+
+describe("hashPublishContents", () => {
+  const contents = { spec: "openapi: 3.1.0", config: "client_settings: {}", branch: "main", projectName: "p" };
+
+  it("does not depend on whether the contents are strings or buffers", () => {
+    expect(hashPublishContents({ ...contents, spec: Buffer.from(contents.spec) })).toBe(hashPublishContents(contents));
+  });
+
+  it("changes with every part of the publish", () => {
+    const hash = hashPublishContents(contents);
+
+    expect(hashPublishContents({ ...contents, spec: "openapi: 3.0.0" })).not.toBe(hash);
+    expect(hashPublishContents({ ...contents, config: undefined })).not.toBe(hash);
+    expect(hashPublishContents({ ...contents, branch: "feature" })).not.toBe(hash);
+    expect(hashPublishContents({ ...contents, projectName: "other" })).not.toBe(hash);
+    expect(hashPublishContents({ ...contents, guessConfig: true })).not.toBe(hash);
+  });
+
+  it("does not confuse contents moved from one part to the next", () => {
+    expect(hashPublishContents({ ...contents, spec: "ab", config: "c" })).not.toBe(
+      hashPublishContents({ ...contents, spec: "a", config: "bc" }),
+    );
+  });
+});
+
+describe("getDefaultStateDir", () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("uses STAINLESS_TOOLS_STATE_DIR, then XDG_STATE_HOME, then ~/.local/state", () => {
+    process.env = { ...originalEnv, STAINLESS_TOOLS_STATE_DIR: "/custom/state", XDG_STATE_HOME: "/xdg" };
+    expect(getDefaultStateDir()).toBe(path.resolve("/custom/state"));
+
+    delete process.env.STAINLESS_TOOLS_STATE_DIR;
+    expect(getDefaultStateDir()).toBe(path.join("/xdg", "stainless-tools"));
+
+    delete process.env.XDG_STATE_HOME;
+    expect(getDefaultStateDir()).toBe(path.join(os.homedir(), ".local", "state", "stainless-tools"));
+  });
+});
@@ -2,6 +2,7 @@ import simpleGit from "simple-git";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { LifecycleManager } from "../LifecycleManager.js";
 import { RepoManager } from "../RepoManager.js";
+import { GitOperationError, LifecycleHookError } from "../StainlessError.js";
 
 vi.mock("simple-git");
 vi.mock("../LifecycleManager.js");
@@ -11,7 +12,6 @@ type RepoManagerTestOptions = {
   branch: string;
   targetDir: string;
   sdkName?: string;
-  env?: string;
   lifecycleManager: LifecycleManager;
 };
 
@@ -29,7 +29,6 @@ describe("RepoManager", () => {
     branch: "main",
     targetDir: "./sdks/test",
     sdkName: "test-sdk",
-    env: "staging",
     lifecycleManager: mockLifecycleManager,
   };
 
@@ -53,10 +52,19 @@ describe("RepoManager", () => {
       stash: vi.fn(),
       revparse: vi.fn(),
       getRemotes: vi.fn(),
+      listRemote: vi.fn(),
     };
     (simpleGit as unknown as any).mockReturnValue(mockGit);
   });
 
+  describe("getTargetDir", () => {
+    it("uses the target directory as given, even if the branch it was rendered from has braces", () => {
+      const manager = new RepoManager({ ...defaultOptions, branch: "fix{1}", targetDir: "./sdks/test/fix{1}" });
+
+      expect(manager.getTargetDir()).toBe("./sdks/test/fix{1}");
+    });
+  });
+
   describe("cloneFreshRepo", () => {
     it("initializes repository and executes postClone", async () => {
       const manager = new RepoManager(defaultOptions);
@@ -106,6 +114,31 @@ describe("RepoManager", () => {
       expect(mockGit.fetch).toHaveBeenCalledTimes(3);
       expect(mockGit.checkout).toHaveBeenCalledWith(["-b", "main", "origin/main"]);
     });
+
+    it("throws GitOperationError when a git command fails", async () => {
+      const manager = new RepoManager(defaultOptions);
+      mockGit.fetch.mockRejectedValue(new Error("Permission denied (publickey)"));
+
+      const error = await manager["cloneFreshRepo"]("./sdks/test").catch((error) => error);
+
+      expect(error).toBeInstanceOf(GitOperationError);
+      expect(error.code).toBe("GIT_OPERATION_ERROR");
+      expect(error.message).toBe(`Failed to clone SDK repository (${defaultOptions.sdkRepo})`);
+    });
+
+    it("keeps the error of a failed postClone hook", async () => {
+      const manager = new RepoManager(defaultOptions);
+      const hookError = new LifecycleHookError("Failed to execute postClone command: npm install", {
+        hook: "postClone",
+        command: "npm install",
+        exitCode: 1,
+      });
+      mockGit.branch.mockResolvedValue({ all: ["origin/main"] });
+      mockGit.log.mockResolvedValue({ latest: { hash: "abc123" } });
+      vi.mocked(mockLifecycleManager.executePostClone).mockRejectedValueOnce(hookError);
+
+      await expect(manager["cloneFreshRepo"]("./sdks/test")).rejects.toBe(hookError);
+    });
   });
 
   describe("pullChanges", () => {
@@ -159,4 +192,164 @@ describe("RepoManager", () => {
   });
 
   // ... rest of the RepoManager tests that don't involve lifecycle hooks ...
+
+  describe("waitForNewCommit", () => {
+    it("resolves once the remote branch moves past the cloned commit", async () => {
+      const manager = new RepoManager(defaultOptions);
+      mockGit.branch.mockResolvedValue({ all: ["origin/main"] });
+      mockGit.log.mockResolvedValue({ latest: { hash: "abc123" } });
+      await manager["cloneFreshRepo"]("./sdks/test");
+
+      mockGit.log
+        .mockResolvedValueOnce({ latest: { hash: "abc123" } })
+        .mockResolvedValueOnce({ latest: { hash: "def456" } });
+
+      const hash = await manager.waitForNewCommit({ timeoutMs: 1000, pollIntervalMs: 10 });
+
+      expect(hash).toBe("def456");
+      expect(mockGit.log).toHaveBeenLastCalledWith(["origin/main"]);
+      expect(mockGit.pull).not.toHaveBeenCalled();
+    });
+
+    it("keeps waiting when fetching fails", async () => {
+      const manager = new RepoManager(defaultOptions);
+      mockGit.branch.mockResolvedValue({ all: ["origin/main"] });
+      mockGit.log.mockResolvedValue({ latest: { hash: "abc123" } });
+      await manager["cloneFreshRepo"]("./sdks/test");
+
+      mockGit.fetch.mockRejectedValueOnce(new Error("network error"));
+      mockGit.log.mockResolvedValue({ latest: { hash: "def456" } });
+
+      await expect(manager.waitForNewCommit({ timeoutMs: 1000, pollIntervalMs: 10 })).resolves.toBe("def456");
+    });
+
+    it("waits for the remote branch to move past the given commit", async () => {
+      const manager = new RepoManager(defaultOptions);
+      mockGit.branch.mockResolvedValue({ all: ["origin/main"] });
+      mockGit.log.mockResolvedValue({ latest: { hash: "def456" } });
+      await manager["cloneFreshRepo"]("./sdks/test");
+
+      // Generated before the clone, so the cloned commit is already new
+      await expect(manager.waitForNewCommit({ timeoutMs: 1000, pollIntervalMs: 10, baseHash: "abc123" })).resolves.toBe(
+        "def456",
+      );
+    });
+
+    it("counts the first commit of a branch that did not exist before", async () => {
+      const manager = new RepoManager(defaultOptions);
+      mockGit.log.mockRejectedValueOnce(new Error("unknown revision origin/main"));
+      mockGit.log.mockResolvedValue({ latest: { hash: "def456" } });
+
+      await expect(manager.waitForNewCommit({ timeoutMs: 1000, pollIntervalMs: 10, baseHash: null })).resolves.toBe(
+        "def456",
+      );
+    });
+
+    it("fails right away when the remote rejects the credentials", async () => {
+      const manager = new RepoManager(defaultOptions);
+      mockGit.branch.mockResolvedValue({ all: ["origin/main"] });
+      mockGit.log.mockResolvedValue({ latest: { hash: "abc123" } });
+      await manager["cloneFreshRepo"]("./sdks/test");
+
+      mockGit.fetch.mockClear();
+      mockGit.fetch.mockRejectedValue(new Error("fatal: Authentication failed for 'https://github.com/org/repo.git/'"));
+
+      const error = await manager.waitForNewCommit({ timeoutMs: 60_000, pollIntervalMs: 10 }).catch((e) => e);
+      expect(error).toBeInstanceOf(GitOperationError);
+      expect(mockGit.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports the last error when timing out", async () => {
+      const manager = new RepoManager(defaultOptions);
+      mockGit.branch.mockResolvedValue({ all: ["origin/main"] });
+      mockGit.log.mockResolvedValue({ latest: { hash: "abc1234567" } });
+      await manager["cloneFreshRepo"]("./sdks/test");
+
+      mockGit.fetch.mockRejectedValue(new Error("fatal: unable to access: Could not resolve host\nmore details"));
+
+      await expect(manager.waitForNewCommit({ timeoutMs: 30, pollIntervalMs: 10 })).rejects.toThrow(
+        "(still at abc1234). Last error: fatal: unable to access: Could not resolve host",
+      );
+    });
+
+    it("throws a clear error when no new commit shows up in time", async () => {
+      const manager = new RepoManager(defaultOptions);
+      mockGit.branch.mockResolvedValue({ all: ["origin/main"] });
+      mockGit.log.mockResolvedValue({ latest: { hash: "abc1234567" } });
+      await manager["cloneFreshRepo"]("./sdks/test");
+
+      await expect(manager.waitForNewCommit({ timeoutMs: 30, pollIntervalMs: 10 })).rejects.toThrow(
+        "Timed out after 0s waiting for a new commit on branch 'main' of git@github.com:org/repo.git (still at abc1234)",
+      );
+    });
+  });
+
+  describe("getRemoteBranchHead", () => {
+    it("reads the head of the remote branch without cloning", async () => {
+      mockGit.listRemote.mockResolvedValue("abc123\trefs/heads/main\n");
+
+      await expect(new RepoManager(defaultOptions).getRemoteBranchHead()).resolves.toBe("abc123");
+      expect(mockGit.listRemote).toHaveBeenCalledWith(["--heads", defaultOptions.sdkRepo, "refs/heads/main"]);
+      expect(mockGit.init).not.toHaveBeenCalled();
+    });
+
+    it("returns null when the branch does not exist", async () => {
+      mockGit.listRemote.mockResolvedValue("");
+
+      await expect(new RepoManager(defaultOptions).getRemoteBranchHead()).resolves.toBeNull();
+    });
+
+    it("throws a GitOperationError when the repository cannot be read", async () => {
+      mockGit.listRemote.mockRejectedValue(new Error("Repository not found"));
+
+      await expect(new RepoManager(defaultOptions).getRemoteBranchHead()).rejects.toBeInstanceOf(GitOperationError);
+    });
+  });
+
+  describe("events", () => {
+    it("emits sdk-update-detected when the remote branch has new commits", async () => {
+      const onEvent = vi.fn();
+      const manager = new RepoManager({ ...defaultOptions, onEvent });
+      mockGit.log.mockImplementation(async (params?: string[]) => ({
+        latest: { hash: params?.[0] === "origin/main" ? "def456" : "abc123" },
+      }));
+
+      expect(await manager.hasNewChanges()).toBe(true);
+      expect(onEvent).toHaveBeenCalledWith({
+        type: "sdk-update-detected",
+        sdkName: "test-sdk",
+        branch: "main",
+        localHash: "abc123",
+        remoteHash: "def456",
+      });
+    });
+
+    it("does not emit when there are no new commits", async () => {
+      const onEvent = vi.fn();
+      const manager = new RepoManager({ ...defaultOptions, onEvent });
+      mockGit.log.mockResolvedValue({ latest: { hash: "abc123" } });
+
+      expect(await manager.hasNewChanges()).toBe(false);
+      expect(onEvent).not.toHaveBeenCalled();
+    });
+
+    it("emits pulled with the old and new hash", async () => {
+      const onEvent = vi.fn();
+      const manager = new RepoManager({ ...defaultOptions, onEvent });
+      mockGit.status.mockResolvedValue({ isClean: () => true });
+      mockGit.log.mockResolvedValueOnce({ latest: { hash: "abc123" } }).mockResolvedValueOnce({
+        latest: { hash: "def456" },
+      });
+
+      await manager.pullChanges();
+
+      expect(onEvent).toHaveBeenCalledWith({
+        type: "pulled",
+        sdkName: "test-sdk",
+        branch: "main",
+        oldHash: "abc123",
+        newHash: "def456",
+      });
+    });
+  });
 });
@@ -1,7 +1,8 @@
 import { fail } from "node:assert";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
-import { StainlessApi } from "../StainlessApi";
-import { StainlessError } from "../StainlessError";
+import type { Ora } from "ora";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { StainlessApi, parseRetryAfter } from "../StainlessApi";
+import { StainlessApiError, StainlessAuthError, StainlessError } from "../StainlessError";
 
 describe("StainlessApi", () => {
   const API_KEY = "test-api-key";
@@ -31,7 +32,7 @@ describe("StainlessApi", () => {
     });
 
     it("should throw if no API key is provided", () => {
-      expect(() => new StainlessApi()).toThrow(StainlessError);
+      expect(() => new StainlessApi()).toThrow(StainlessAuthError);
     });
 
     it("should use custom base URL if provided", () => {
@@ -141,9 +142,33 @@ describe("StainlessApi", () => {
       }
     });
 
+    it("includes the status and parsed body in API errors", async () => {
+      fetchMock.mockResponseOnce(JSON.stringify({ message: "Invalid spec format" }), { status: 400 });
+
+      const error = await api.publish({ spec: "openapi: 3.0.0" }).catch((error) => error);
+
+      expect(error).toBeInstanceOf(StainlessApiError);
+      expect(error).not.toBeInstanceOf(StainlessAuthError);
+      expect(error.code).toBe("STAINLESS_API_ERROR");
+      expect(error.status).toBe(400);
+      expect(error.body).toEqual({ message: "Invalid spec format" });
+    });
+
+    it.each([401, 403])("throws StainlessAuthError when the API responds with HTTP %i", async (status) => {
+      fetchMock.mockResponseOnce(JSON.stringify({ message: "Invalid API key" }), { status });
+
+      const error = await api.publish({ spec: "openapi: 3.0.0" }).catch((error) => error);
+
+      expect(error).toBeInstanceOf(StainlessAuthError);
+      expect(error.code).toBe("STAINLESS_AUTH_ERROR");
+      expect(error.status).toBe(status);
+      expect(error.body).toEqual({ message: "Invalid API key" });
+    });
+
     it("should handle network errors", async () => {
       const spec = "openapi: 3.0.0";
       fetchMock.mockReject(new Error("Network error"));
+      api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, maxAttempts: 1 });
 
       await expect(api.publish({ spec })).rejects.toThrow("Failed to publish to Stainless API");
     });
@@ -166,6 +191,7 @@ describe("StainlessApi", () => {
       const spec = "openapi: 3.0.0";
       const plainTextError = "Internal Server Error";
       fetchMock.mockResponseOnce(plainTextError, { status: 500 });
+      api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, maxAttempts: 1 });
 
       try {
         await api.publish({ spec });
@@ -176,5 +202,254 @@ describe("StainlessApi", () => {
         expect(error.message).toMatch(plainTextError);
       }
     });
+
+    it("emits publish-started and publish-succeeded events", async () => {
+      const onEvent = vi.fn();
+      const eventApi = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, onEvent });
+      fetchMock.mockResponseOnce(JSON.stringify({ success: true }));
+
+      await eventApi.publish({ spec: "openapi: 3.0.0", branch: "main", projectName: "test-project" });
+
+      expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+        { type: "publish-started", branch: "main", projectName: "test-project" },
+        { type: "publish-succeeded", branch: "main", projectName: "test-project" },
+      ]);
+    });
+
+    it("emits publish-failed with the HTTP status", async () => {
+      const onEvent = vi.fn();
+      const eventApi = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, onEvent });
+      fetchMock.mockResponseOnce(JSON.stringify({ message: "Invalid spec format" }), { status: 400 });
+
+      await expect(eventApi.publish({ spec: "openapi: 3.0.0", branch: "main" })).rejects.toThrow(StainlessError);
+
+      expect(onEvent).toHaveBeenLastCalledWith({
+        type: "publish-failed",
+        branch: "main",
+        projectName: undefined,
+        status: 400,
+        message: "Invalid spec format",
+      });
+    });
+
+    it("emits publish-failed on network errors", async () => {
+      const onEvent = vi.fn();
+      const eventApi = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, onEvent, maxAttempts: 1 });
+      fetchMock.mockReject(new Error("Network error"));
+
+      await expect(eventApi.publish({ spec: "openapi: 3.0.0" })).rejects.toThrow(StainlessError);
+
+      expect(onEvent).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: "publish-failed", message: "Error: Network error" }),
+      );
+    });
+  });
+
+  describe("retries", () => {
+    const spec = "openapi: 3.0.0";
+
+    beforeEach(() => {
+      fetchMock.resetMocks();
+      // Reading response bodies relies on the other timers
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    /** Publishes while advancing the fake timers until it settles */
+    const publish = async (api: StainlessApi) => {
+      const result = api.publish({ spec, branch: "main" }).then(
+        () => undefined,
+        (error) => error,
+      );
+      await vi.runAllTimersAsync();
+      return result;
+    };
+
+    it.each([408, 429, 500, 502, 503])("retries HTTP %i and succeeds", async (status) => {
+      fetchMock.mockResponseOnce("Unavailable", { status }).mockResponseOnce(JSON.stringify({ success: true }));
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL });
+
+      expect(await publish(api)).toBeUndefined();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("retries network errors", async () => {
+      fetchMock.mockRejectOnce(new TypeError("fetch failed")).mockResponseOnce(JSON.stringify({ success: true }));
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL });
+
+      expect(await publish(api)).toBeUndefined();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not retry client errors", async () => {
+      fetchMock.mockResponseOnce(JSON.stringify({ message: "Invalid spec format" }), { status: 400 });
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL });
+
+      expect(await publish(api)).toBeInstanceOf(StainlessError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("gives up after the maximum number of attempts", async () => {
+      fetchMock.mockResponse("Bad Gateway", { status: 502 });
+      const onEvent = vi.fn();
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, maxAttempts: 3, onEvent });
+
+      const error = await publish(api);
+
+      expect(error).toBeInstanceOf(StainlessError);
+      expect(error.message).toMatch(/API Error \(HTTP 502\)/);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+        "publish-started",
+        "publish-retrying",
+        "publish-retrying",
+        "publish-failed",
+      ]);
+    });
+
+    it("backs off exponentially with jitter", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(1);
+      fetchMock.mockResponse("Bad Gateway", { status: 502 });
+      const onEvent = vi.fn();
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, onEvent });
+
+      await publish(api);
+
+      const delays = onEvent.mock.calls
+        .filter(([event]) => event.type === "publish-retrying")
+        .map(([event]) => event.delayMs);
+      expect(delays).toEqual([500, 1000, 2000]);
+      vi.mocked(Math.random).mockRestore();
+    });
+
+    it("waits as long as Retry-After asks", async () => {
+      fetchMock
+        .mockResponseOnce("Too Many Requests", { status: 429, headers: { "Retry-After": "7" } })
+        .mockResponseOnce(JSON.stringify({ success: true }));
+      const onEvent = vi.fn();
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, onEvent });
+
+      expect(await publish(api)).toBeUndefined();
+      expect(onEvent).toHaveBeenCalledWith({
+        type: "publish-retrying",
+        branch: "main",
+        projectName: undefined,
+        status: 429,
+        message: "Too Many Requests",
+        attempt: 2,
+        maxAttempts: 4,
+        delayMs: 7000,
+      });
+    });
+
+    it("gives up when the next retry would exceed the budget", async () => {
+      fetchMock.mockResponseOnce("Too Many Requests", { status: 429, headers: { "Retry-After": "120" } });
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, retryBudgetMs: 60_000 });
+
+      expect(await publish(api)).toBeInstanceOf(StainlessError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports each retry through the spinner", async () => {
+      fetchMock.mockResponseOnce("Bad Gateway", { status: 502 }).mockResponseOnce(JSON.stringify({ success: true }));
+      const spinner = { isSpinning: true, text: "Publishing...", start: vi.fn(), stop: vi.fn() };
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, spinner: spinner as unknown as Ora });
+
+      await publish(api);
+
+      expect(spinner.start).toHaveBeenCalledWith(
+        expect.stringMatching(/^Stainless API responded with HTTP 502, retrying in \d\.\ds \(attempt 2 of 4\)\.\.\.$/),
+      );
+      expect(spinner.start).toHaveBeenLastCalledWith("Publishing...");
+    });
+  });
+
+  describe("timeouts and cancellation", () => {
+    const spec = "openapi: 3.0.0";
+
+    /** Responds to the request only when it is aborted, like a hung connection */
+    const hangUntilAborted = (request: Request) =>
+      new Promise<never>((_, reject) => {
+        request.signal.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+      });
+
+    beforeEach(() => {
+      fetchMock.resetMocks();
+    });
+
+    it("times out a request that gets no response and retries it", async () => {
+      fetchMock.mockResponseOnce(hangUntilAborted).mockResponseOnce(JSON.stringify({ success: true }));
+      const onEvent = vi.fn();
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, requestTimeoutMs: 20, onEvent });
+
+      await api.publish({ spec });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "publish-retrying", message: "No response within 0.02s" }),
+      );
+    });
+
+    it("fails once every attempt timed out", async () => {
+      fetchMock.mockResponse(hangUntilAborted);
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, requestTimeoutMs: 20, maxAttempts: 1 });
+
+      await expect(api.publish({ spec })).rejects.toThrow(
+        "Failed to publish to Stainless API: No response within 0.02s",
+      );
+    });
+
+    it("cancels the request in flight when the signal is aborted", async () => {
+      fetchMock.mockResponse(hangUntilAborted);
+      const onEvent = vi.fn();
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL, onEvent });
+      const controller = new AbortController();
+
+      const publish = api.publish({ spec, signal: controller.signal });
+      controller.abort();
+
+      await expect(publish).rejects.toThrow("Publishing to Stainless API was cancelled");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(onEvent).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: "publish-failed", message: "Cancelled" }),
+      );
+    });
+
+    it("stops waiting for a retry when the signal is aborted", async () => {
+      fetchMock.mockResponse("Too Many Requests", { status: 429, headers: { "Retry-After": "30" } });
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL });
+      const controller = new AbortController();
+
+      const publish = api.publish({ spec, signal: controller.signal });
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+      controller.abort();
+
+      await expect(publish).rejects.toThrow("Publishing to Stainless API was cancelled");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not send a request when the signal is already aborted", async () => {
+      const api = new StainlessApi({ apiKey: API_KEY, baseUrl: BASE_URL });
+
+      await expect(api.publish({ spec, signal: AbortSignal.abort() })).rejects.toThrow(
+        "Publishing to Stainless API was cancelled",
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("parses seconds and HTTP dates", () => {
+      const now = Date.parse("2025-01-01T00:00:00Z");
+
+      expect(parseRetryAfter("3", now)).toBe(3000);
+      expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:10 GMT", now)).toBe(10_000);
+      expect(parseRetryAfter("Tue, 31 Dec 2024 23:59:00 GMT", now)).toBe(0);
+      expect(parseRetryAfter("soon", now)).toBeUndefined();
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
   });
 });
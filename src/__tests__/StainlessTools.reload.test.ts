@@ -0,0 +1,62 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { LifecycleManager } from "../LifecycleManager.js";
+import { StainlessApi } from "../StainlessApi.js";
+import { StainlessTools } from "../StainlessTools.js";
+import { silentLogger } from "../logger.js";
+import { type MockServer, startMockServer } from "../mock-server.js";
+
+// Unlike StainlessTools.test.ts, runs the real repository and lifecycle managers against the mock server
+describe("StainlessTools with reloaded lifecycle hooks", () => {
+  let tempDir: string;
+  let server: MockServer;
+
+  beforeEach(async () => {
+    fetchMock.disableMocks();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "stainless-tools-reload-"));
+    server = await startMockServer({ sdkRepo: path.join(tempDir, "sdk.git"), commitDelayMs: 0, logger: silentLogger });
+  });
+
+  afterEach(async () => {
+    fetchMock.enableMocks();
+    await server.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("runs the hooks of the lifecycle manager it is given once they are reloaded", async () => {
+    const targetDir = path.join(tempDir, "checkout");
+    const hookOutput = path.join(tempDir, "hooks.log");
+    const lifecycleManager = new LifecycleManager(
+      { typescript: { postUpdate: `echo old >> "${hookOutput}"` } },
+      silentLogger,
+    );
+    const tools = new StainlessTools({
+      sdkRepo: server.sdkRepoUrl as string,
+      branch: "main",
+      targetDir,
+      openApiFile: path.join(tempDir, "openapi.yml"),
+      projectName: "my-project",
+      sdkName: "typescript",
+      lifecycleManager,
+      logger: silentLogger,
+      watchFiles: false,
+      stainlessApiOptions: { apiKey: "mock", baseUrl: server.url },
+    });
+    await tools.clone();
+
+    // As the config watcher of generate does when the hooks of the configuration change
+    lifecycleManager.setConfig({
+      typescript: { postUpdate: `echo "new $STAINLESS_TOOLS_SDK_BRANCH" >> "${hookOutput}"` },
+    });
+    await new StainlessApi({ apiKey: "mock", baseUrl: server.url, logger: silentLogger }).publish({
+      spec: "openapi: 3.1.0",
+      branch: "main",
+    });
+    await tools.waitForNewCommit({ timeoutMs: 10_000, pollIntervalMs: 50 });
+    await tools.pullChanges();
+
+    expect(await fs.readFile(hookOutput, "utf-8")).toBe("new main\n");
+  });
+});
@@ -50,7 +50,6 @@ describe("StainlessTools", () => {
         branch: defaultOptions.branch,
         targetDir: defaultOptions.targetDir,
         sdkName: defaultOptions.sdkName,
-        env: defaultOptions.env,
         lifecycleManager: expect.any(LifecycleManager),
       });
       expect(FileWatcher).toHaveBeenCalledWith(
@@ -71,10 +70,22 @@ describe("StainlessTools", () => {
     });
 
     it("should create LifecycleManager with empty config when no lifecycle provided", () => {
-      const { lifecycle, ...optionsWithoutLifecycle } = defaultOptions;
+      const { lifecycle, lifecycleManager, ...optionsWithoutLifecycle } = defaultOptions;
 
       const tools = new StainlessTools(optionsWithoutLifecycle);
-      expect(LifecycleManager).toHaveBeenCalledWith(undefined);
+      expect(LifecycleManager).toHaveBeenCalledWith(undefined, undefined, {
+        onEvent: undefined,
+        hookStdout: undefined,
+      });
+    });
+
+    it("should use the given LifecycleManager", () => {
+      vi.mocked(LifecycleManager).mockClear();
+
+      new StainlessTools(defaultOptions);
+
+      expect(LifecycleManager).not.toHaveBeenCalled();
+      expect(vi.mocked(RepoManager).mock.calls[0][0].lifecycleManager).toBe(defaultOptions.lifecycleManager);
     });
 
     it("should throw error if sdkRepo is missing", () => {
@@ -130,6 +141,24 @@ describe("StainlessTools", () => {
       expect(mockFileWatcher.start).toHaveBeenCalled();
     });
 
+    it("should only initialize the repository when watchFiles is false", async () => {
+      const sharedTools = new StainlessTools({
+        ...defaultOptions,
+        watchFiles: false,
+      });
+      const sharedRepoManager = vi.mocked(RepoManager).mock.instances[1] as any;
+      const sharedFileWatcher = vi.mocked(FileWatcher).mock.instances[1] as any;
+      sharedRepoManager.initializeRepo = vi.fn().mockResolvedValue(undefined);
+      sharedFileWatcher.publishFiles = vi.fn();
+      sharedFileWatcher.start = vi.fn();
+
+      await sharedTools.clone();
+
+      expect(sharedRepoManager.initializeRepo).toHaveBeenCalled();
+      expect(sharedFileWatcher.publishFiles).not.toHaveBeenCalled();
+      expect(sharedFileWatcher.start).not.toHaveBeenCalled();
+    });
+
     it("should publish files even for cli branch", async () => {
       const cliTools = new StainlessTools({
         ...defaultOptions,
@@ -232,5 +261,10 @@ describe("StainlessTools", () => {
       tools.cleanup();
       expect(mockFileWatcher.stop).toHaveBeenCalled();
     });
+
+    it("should cancel the publish in flight", () => {
+      tools.cleanup();
+      expect(mockFileWatcher.abortPublish).toHaveBeenCalled();
+    });
   });
 });
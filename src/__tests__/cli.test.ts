@@ -12,4 +12,44 @@ describe("CLI", () => {
     expect(generateCommand).toBeDefined();
     expect(generateCommand?.description()).toBe("Generate an SDK");
   });
+
+  it("has the status command", () => {
+    const statusCommand = program.commands.find((cmd) => cmd.name() === "status");
+    expect(statusCommand).toBeDefined();
+    expect(statusCommand?.description()).toBe("Show the state of local SDK checkouts");
+  });
+
+  it("has the init command", () => {
+    const initCommand = program.commands.find((cmd) => cmd.name() === "init");
+    expect(initCommand).toBeDefined();
+    expect(initCommand?.description()).toBe("Create a stainless-tools configuration file");
+  });
+
+  it("has the doctor command", () => {
+    const doctorCommand = program.commands.find((cmd) => cmd.name() === "doctor");
+    expect(doctorCommand).toBeDefined();
+    expect(doctorCommand?.description()).toBe("Diagnose environment, configuration and git access problems");
+  });
+
+  it("has the config command", () => {
+    const configCommand = program.commands.find((cmd) => cmd.name() === "config");
+    expect(configCommand).toBeDefined();
+    expect(configCommand?.commands.map((cmd) => cmd.name())).toEqual(["resolve", "schema"]);
+  });
+
+  it("has the validate-spec command", () => {
+    const validateSpecCommand = program.commands.find((cmd) => cmd.name() === "validate-spec");
+    expect(validateSpecCommand).toBeDefined();
+    expect(validateSpecCommand?.description()).toBe(
+      "Validate OpenAPI specifications against the OpenAPI 3.0 / 3.1 schema without publishing them",
+    );
+  });
+
+  it("has the migrate-config command", () => {
+    const migrateConfigCommand = program.commands.find((cmd) => cmd.name() === "migrate-config");
+    expect(migrateConfigCommand).toBeDefined();
+    expect(migrateConfigCommand?.description()).toBe(
+      "Update a configuration file from the formats of older versions of stainless-tools",
+    );
+  });
 });
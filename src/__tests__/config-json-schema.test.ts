@@ -0,0 +1,34 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import { getConfigJsonSchema } from "../config-json-schema";
+
+describe("getConfigJsonSchema", () => {
+  const schema = getConfigJsonSchema() as any;
+
+  it("describes the configuration", () => {
+    expect(schema.type).toBe("object");
+    expect(schema.required).toEqual(["stainlessSdkRepos"]);
+    expect(schema.properties.defaults.properties.guessConfig).toEqual({
+      type: "boolean",
+      description: 'Whether to use the "Guess with AI" command from the Stainless Studio for the Stainless config',
+    });
+    expect(schema.properties.lifecycle.additionalProperties.properties).toHaveProperty("postClone");
+  });
+
+  it("allows SDK overrides of the defaults next to the repository URL of each environment", () => {
+    const sdkSchema = schema.properties.stainlessSdkRepos.additionalProperties;
+
+    expect(Object.keys(sdkSchema.properties)).toEqual(Object.keys(schema.properties.defaults.properties));
+    expect(sdkSchema.additionalProperties).toEqual({
+      type: "string",
+      description: "Git URL of the SDK repository of an environment",
+    });
+  });
+
+  it("matches the published config.schema.json", () => {
+    // Regenerate it with `pnpm config-schema` when the configuration schema changes
+    const published = JSON.parse(fs.readFileSync(path.join(__dirname, "../../config.schema.json"), "utf-8"));
+    expect(published).toEqual(schema);
+  });
+});
@@ -0,0 +1,201 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { diffLines, getMigratedFileName, migrateConfig } from "../config-migration";
+
+describe("config migration", () => {
+  // cosmiconfig loads its parsers lazily, which does not work with mock-fs, so the tests use a real directory
+  let projectDir: string;
+
+  const writeFiles = (files: Record<string, string>) => {
+    for (const [name, contents] of Object.entries(files)) {
+      fs.writeFileSync(path.join(projectDir, name), contents);
+    }
+  };
+  const readFile = (name: string) => fs.readFileSync(path.join(projectDir, name), "utf-8");
+  const exists = (name: string) => fs.existsSync(path.join(projectDir, name));
+
+  beforeEach(() => {
+    projectDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "stainless-tools-")));
+    vi.spyOn(process, "cwd").mockReturnValue(projectDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  describe("getMigratedFileName", () => {
+    it("renames files named after stainless-tools v1", () => {
+      expect(getMigratedFileName("/project/stainless.config.js")).toBe("stainless-tools.config.js");
+      expect(getMigratedFileName("/project/.stainlessrc")).toBe(".stainless-toolsrc");
+      expect(getMigratedFileName("/project/.stainlessrc.yml")).toBe(".stainless-toolsrc.yml");
+    });
+
+    it("keeps current names and unrelated files", () => {
+      expect(getMigratedFileName("/project/stainless-tools.config.js")).toBeUndefined();
+      expect(getMigratedFileName("/project/stainless.yml")).toBeUndefined();
+    });
+  });
+
+  describe("migrateConfig", () => {
+    it("moves the repository URL of each SDK to its staging environment in JSON files", async () => {
+      writeFiles({
+        ".stainless-toolsrc.json": `${JSON.stringify(
+          {
+            stainlessSdkRepos: {
+              typescript: "git@github.com:stainless-sdks/test-typescript.git",
+              python: { staging: "git@github.com:stainless-sdks/test-python.git" },
+            },
+          },
+          null,
+          4,
+        )}\n`,
+      });
+
+      const migration = await migrateConfig();
+
+      expect(migration.migratedSdkNames).toEqual(["typescript"]);
+      expect(migration.renamedTo).toBeUndefined();
+      expect(readFile(".stainless-toolsrc.json")).toBe(
+        `${JSON.stringify(
+          {
+            stainlessSdkRepos: {
+              typescript: { staging: "git@github.com:stainless-sdks/test-typescript.git" },
+              python: { staging: "git@github.com:stainless-sdks/test-python.git" },
+            },
+          },
+          null,
+          4,
+        )}\n`,
+      );
+    });
+
+    it("keeps the comments of YAML files", async () => {
+      writeFiles({
+        ".stainless-toolsrc.yml": [
+          "# SDKs to generate",
+          "stainlessSdkRepos:",
+          "  typescript: git@github.com:stainless-sdks/test-typescript.git # the main SDK",
+          "defaults:",
+          "  branch: main",
+          "",
+        ].join("\n"),
+      });
+
+      await migrateConfig();
+
+      expect(readFile(".stainless-toolsrc.yml")).toBe(
+        [
+          "# SDKs to generate",
+          "stainlessSdkRepos:",
+          "  typescript:",
+          "    staging: git@github.com:stainless-sdks/test-typescript.git # the main SDK",
+          "defaults:",
+          "  branch: main",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("renames files named after stainless-tools v1", async () => {
+      writeFiles({
+        ".stainlessrc.json": JSON.stringify({
+          stainlessSdkRepos: { typescript: { staging: "git@github.com:stainless-sdks/test-typescript.git" } },
+        }),
+      });
+
+      const migration = await migrateConfig();
+
+      expect(migration.renamedTo).toBe(path.join(projectDir, ".stainless-toolsrc.json"));
+      expect(migration.after).toBe(migration.before);
+      expect(exists(".stainlessrc.json")).toBe(false);
+      expect(readFile(".stainless-toolsrc.json")).toBe(migration.before);
+    });
+
+    it("does not overwrite an existing file when renaming", async () => {
+      writeFiles({
+        ".stainlessrc.json": "{}",
+        ".stainless-toolsrc.json": "{}",
+      });
+
+      await expect(migrateConfig({ configPath: ".stainlessrc.json" })).rejects.toThrow(
+        `Cannot rename ${path.join(projectDir, ".stainlessrc.json")} to ${path.join(projectDir, ".stainless-toolsrc.json")}, which already exists`,
+      );
+    });
+
+    it("does not write anything in a dry run", async () => {
+      const contents = JSON.stringify({ stainlessSdkRepos: { typescript: "git@github.com:org/typescript.git" } });
+      writeFiles({ ".stainlessrc.json": contents });
+
+      const migration = await migrateConfig({ dryRun: true });
+
+      expect(migration.after).toContain('"staging"');
+      expect(readFile(".stainlessrc.json")).toBe(contents);
+      expect(exists(".stainless-toolsrc.json")).toBe(false);
+    });
+
+    it("rewrites the properties of JavaScript files in place", async () => {
+      writeFiles({
+        "stainless.config.js": [
+          "// Shared by the team",
+          "module.exports = {",
+          "  stainlessSdkRepos: {",
+          "    typescript: 'git@github.com:stainless-sdks/test-typescript.git',",
+          '    "python": "git@github.com:stainless-sdks/test-python.git",',
+          "  },",
+          "};",
+          "",
+        ].join("\n"),
+      });
+
+      const migration = await migrateConfig();
+
+      expect(migration.renamedTo).toBe(path.join(projectDir, "stainless-tools.config.js"));
+      expect(readFile("stainless-tools.config.js")).toBe(
+        [
+          "// Shared by the team",
+          "module.exports = {",
+          "  stainlessSdkRepos: {",
+          "    typescript: { staging: 'git@github.com:stainless-sdks/test-typescript.git' },",
+          '    "python": { staging: "git@github.com:stainless-sdks/test-python.git" },',
+          "  },",
+          "};",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("fails when a repository URL of a JavaScript file is not a string literal", async () => {
+      const original = [
+        'const org = "stainless-sdks";',
+        "module.exports = {",
+        "  stainlessSdkRepos: {",
+        "    typescript: `git@github.com:${org}/test-typescript.git`,",
+        "  },",
+        "};",
+        "",
+      ].join("\n");
+      writeFiles({ "stainless-tools.config.js": original });
+
+      await expect(migrateConfig()).rejects.toThrow(
+        `Could not find the repository URL of "typescript" in ${path.join(projectDir, "stainless-tools.config.js")}. Replace it with { staging: "git@github.com:stainless-sdks/test-typescript.git" } by hand.`,
+      );
+      expect(readFile("stainless-tools.config.js")).toBe(original);
+    });
+
+    it("fails when no configuration is found", async () => {
+      await expect(migrateConfig()).rejects.toThrow("No configuration file found");
+    });
+  });
+
+  describe("diffLines", () => {
+    it("lists removed and added lines with the unchanged lines around them", () => {
+      const before = ["a", "b", "c", "d", "e", "f", "g", "h"].join("\n");
+      const after = ["a", "B", "c", "d", "e", "f", "g", "H"].join("\n");
+
+      expect(diffLines(before, after, 1)).toEqual(["  a", "- b", "+ B", "  c", "...", "  g", "- h", "+ H"]);
+    });
+  });
+});
@@ -1,9 +1,16 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 import { cosmiconfig } from "cosmiconfig";
 import mock from "mock-fs";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { configSchema, loadConfig } from "../config";
+import { ConfigError } from "../StainlessError";
+import { configSchema, defineConfig, findConfigFiles, formatConfigIssue, getSdkRepoUrls, loadConfig } from "../config";
 
-vi.mock("cosmiconfig");
+vi.mock("cosmiconfig", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("cosmiconfig")>()),
+  cosmiconfig: vi.fn(),
+}));
 
 describe("Configuration", () => {
   beforeEach(() => {
@@ -96,6 +103,60 @@ describe("Configuration", () => {
       expect(result.success).toBe(true);
     });
 
+    it("validates config with arbitrary named environments", () => {
+      const validConfig = {
+        stainlessSdkRepos: {
+          typescript: {
+            dev: "git@github.com:org/typescript-sdk-dev.git",
+            preview: "git@github.com:org/typescript-sdk-preview.git",
+            prod: "git@github.com:org/typescript-sdk.git",
+          },
+        },
+      };
+
+      const result = configSchema.safeParse(validConfig);
+      expect(result.success).toBe(true);
+    });
+
+    it("validates config with SDK overrides of the defaults", () => {
+      const validConfig = {
+        stainlessSdkRepos: {
+          typescript: {
+            staging: "git@github.com:org/typescript-sdk-staging.git",
+            branch: "next",
+            targetDir: "./typescript",
+            projectName: "typescript-project",
+            guessConfig: true,
+          },
+        },
+        defaults: {
+          branch: "main",
+        },
+      };
+
+      const result = configSchema.safeParse(validConfig);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(getSdkRepoUrls(result.data.stainlessSdkRepos.typescript)).toEqual({
+          staging: "git@github.com:org/typescript-sdk-staging.git",
+        });
+      }
+    });
+
+    it("rejects config with only overrides and no URLs defined", () => {
+      const invalidConfig = {
+        stainlessSdkRepos: {
+          typescript: { branch: "next" },
+        },
+      };
+
+      const result = configSchema.safeParse(invalidConfig);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("At least one environment must be defined");
+      }
+    });
+
     it("rejects config with no URLs defined", () => {
       const invalidConfig = {
         stainlessSdkRepos: {
@@ -106,7 +167,7 @@ describe("Configuration", () => {
       const result = configSchema.safeParse(invalidConfig);
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.errors[0].message).toBe("At least one of staging or prod must be defined");
+        expect(result.error.errors[0].message).toBe("At least one environment must be defined");
       }
     });
 
@@ -125,6 +186,13 @@ describe("Configuration", () => {
     });
   });
 
+  describe("defineConfig", () => {
+    it("returns the configuration", () => {
+      const config = { stainlessSdkRepos: { typescript: { staging: "git@github.com:org/typescript-sdk.git" } } };
+      expect(defineConfig(config)).toBe(config);
+    });
+  });
+
   describe("loadConfig", () => {
     it("loads and validates config file", async () => {
       const mockConfig = {
@@ -145,12 +213,498 @@ describe("Configuration", () => {
       expect(config).toEqual(mockConfig);
     });
 
+    describe("profiles", () => {
+      const mockConfig = {
+        stainlessSdkRepos: { typescript: { staging: "git@github.com:org/typescript-sdk-staging.git" } },
+        lifecycle: { typescript: { postClone: "npm install", postUpdate: "npm test" } },
+        defaults: { branch: "alice/dev", projectName: "acme" },
+        profiles: {
+          ci: {
+            env: "prod",
+            defaults: { branch: "main" },
+            lifecycle: { typescript: { postUpdate: "npm run build" } },
+          },
+        },
+      };
+
+      beforeEach(() => {
+        vi.mocked(cosmiconfig).mockReturnValue({
+          search: vi.fn().mockResolvedValue({ config: mockConfig, filepath: "/project/.stainless-toolsrc.json" }),
+        } as any);
+      });
+
+      it("overlays the selected profile on the defaults and lifecycle hooks", async () => {
+        const config = await loadConfig(undefined, "ci");
+
+        expect(config.defaults).toEqual({ branch: "main", projectName: "acme" });
+        expect(config.lifecycle).toEqual({ typescript: { postClone: "npm install", postUpdate: "npm run build" } });
+        expect(config.profiles).toEqual(mockConfig.profiles);
+      });
+
+      it("does not apply profiles unless one is selected", async () => {
+        expect(await loadConfig()).toEqual(mockConfig);
+      });
+
+      it("reports unknown profiles", async () => {
+        await expect(loadConfig(undefined, "cii")).rejects.toThrow(
+          'Profile "cii" not found in configuration. Did you mean "ci"? Available profiles: ci',
+        );
+      });
+
+      it("rejects unknown keys in profiles", () => {
+        const result = configSchema.safeParse({
+          ...mockConfig,
+          profiles: { ci: { defaults: { brnch: "main" } } },
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.issues.flatMap(formatConfigIssue)).toEqual([
+          'profiles.ci.defaults.brnch: Unknown key. Did you mean "branch"?',
+        ]);
+      });
+    });
+
+    describe("extends", () => {
+      const repos = {
+        typescript: { staging: "git@github.com:org/typescript-sdk-staging.git" },
+      };
+
+      // Mocks cosmiconfig to load configurations from a map of file paths
+      const mockFiles = (files: Record<string, unknown>) => {
+        const load = vi.fn(async (filepath: string) => {
+          if (!(filepath in files)) {
+            throw new Error(`ENOENT: no such file, open '${filepath}'`);
+          }
+          return { config: files[filepath], filepath };
+        });
+        vi.mocked(cosmiconfig).mockReturnValue({
+          search: vi.fn(() => load("/project/.stainless-toolsrc.js")),
+          load,
+        } as any);
+      };
+
+      it("deep merges the extended configuration", async () => {
+        mockFiles({
+          "/project/.stainless-toolsrc.js": {
+            extends: "../shared/base.js",
+            stainlessSdkRepos: repos,
+            defaults: { branch: "dev" },
+            lifecycle: { typescript: { postUpdate: "npm test" } },
+          },
+          "/shared/base.js": {
+            defaults: { branch: "main", projectName: "shared-project" },
+            lifecycle: { typescript: { postClone: "npm install", postUpdate: "npm run build" } },
+          },
+        });
+
+        const config = await loadConfig();
+
+        expect(config).toEqual({
+          stainlessSdkRepos: repos,
+          defaults: { branch: "dev", projectName: "shared-project" },
+          lifecycle: { typescript: { postClone: "npm install", postUpdate: "npm test" } },
+        });
+      });
+
+      it("merges a list of extended configurations in order", async () => {
+        mockFiles({
+          "/project/.stainless-toolsrc.js": { extends: ["./a.js", "./b.js"], stainlessSdkRepos: repos },
+          "/project/a.js": { defaults: { branch: "a", projectName: "a" } },
+          "/project/b.js": { extends: "./c.js", defaults: { branch: "b" } },
+          "/project/c.js": { defaults: { targetDir: "./c" } },
+        });
+
+        const config = await loadConfig();
+
+        expect(config.defaults).toEqual({ branch: "b", projectName: "a", targetDir: "./c" });
+        expect(config).not.toHaveProperty("extends");
+      });
+
+      it("resolves installed packages", async () => {
+        // Module resolution does not go through mock-fs, so the package is installed in a real directory
+        const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "stainless-tools-"));
+        const packageDir = path.join(projectDir, "node_modules", "@org", "stainless-preset");
+        fs.mkdirSync(packageDir, { recursive: true });
+        fs.writeFileSync(path.join(packageDir, "package.json"), JSON.stringify({ main: "preset.js" }));
+        fs.writeFileSync(path.join(packageDir, "preset.js"), "");
+
+        try {
+          mockFiles({
+            [path.join(projectDir, ".stainless-toolsrc.js")]: {
+              extends: "@org/stainless-preset",
+              stainlessSdkRepos: repos,
+            },
+            [path.join(fs.realpathSync(packageDir), "preset.js")]: { defaults: { projectName: "preset" } },
+          });
+
+          const config = await loadConfig(path.join(projectDir, ".stainless-toolsrc.js"));
+
+          expect(config.defaults).toEqual({ projectName: "preset" });
+        } finally {
+          fs.rmSync(projectDir, { recursive: true, force: true });
+        }
+      });
+
+      it("fails for packages that are not installed", async () => {
+        mock({ "/project": {} });
+        mockFiles({
+          "/project/.stainless-toolsrc.js": { extends: "@org/missing-preset", stainlessSdkRepos: repos },
+        });
+
+        await expect(loadConfig()).rejects.toThrow(
+          'Cannot find configuration "@org/missing-preset" extended by /project/.stainless-toolsrc.js',
+        );
+      });
+
+      it("detects cycles", async () => {
+        mockFiles({
+          "/project/.stainless-toolsrc.js": { extends: "./a.js", stainlessSdkRepos: repos },
+          "/project/a.js": { extends: "./b.js" },
+          "/project/b.js": { extends: "./a.js" },
+        });
+
+        await expect(loadConfig()).rejects.toThrow(
+          'Circular "extends" in configuration: /project/.stainless-toolsrc.js -> /project/a.js -> /project/b.js -> /project/a.js',
+        );
+      });
+
+      it("reports the chain of files when an extended configuration cannot be loaded", async () => {
+        mockFiles({
+          "/project/.stainless-toolsrc.js": { extends: "./a.js", stainlessSdkRepos: repos },
+          "/project/a.js": { extends: "./missing.js" },
+        });
+
+        await expect(loadConfig()).rejects.toThrow(
+          "Failed to load configuration /project/missing.js (extended by /project/.stainless-toolsrc.js -> /project/a.js)",
+        );
+      });
+
+      it("finds every file the configuration extends", async () => {
+        mockFiles({
+          "/project/.stainless-toolsrc.js": { extends: ["./a.js", "./b.js"], stainlessSdkRepos: repos },
+          "/project/a.js": { defaults: { branch: "a" } },
+          "/project/b.js": { extends: "./c.js" },
+          "/project/c.js": {},
+        });
+
+        expect(await findConfigFiles()).toEqual([
+          "/project/.stainless-toolsrc.js",
+          "/project/a.js",
+          "/project/b.js",
+          "/project/c.js",
+        ]);
+      });
+
+      it("finds the files the configuration extends up to one that cannot be loaded", async () => {
+        mockFiles({
+          "/project/.stainless-toolsrc.js": { extends: "./a.js", stainlessSdkRepos: repos },
+          "/project/a.js": { extends: "./missing.js" },
+        });
+
+        expect(await findConfigFiles()).toEqual([
+          "/project/.stainless-toolsrc.js",
+          "/project/a.js",
+          "/project/missing.js",
+        ]);
+      });
+
+      it("reports the chain of files when the merged configuration is invalid", async () => {
+        mockFiles({
+          "/project/.stainless-toolsrc.js": { extends: "./a.js", stainlessSdkRepos: repos },
+          "/project/a.js": { extends: "./b.js" },
+          "/project/b.js": { defaults: { guessConfig: "yes" } },
+        });
+
+        await expect(loadConfig()).rejects.toThrow(
+          "Invalid configuration (merged from /project/.stainless-toolsrc.js -> /project/a.js -> /project/b.js):\n" +
+            "  defaults.guessConfig: Expected boolean, received string",
+        );
+      });
+    });
+
+    describe("environment variables", () => {
+      const mockConfigFile = (config: unknown) => {
+        vi.mocked(cosmiconfig).mockReturnValue({
+          search: vi.fn().mockResolvedValue({ config, filepath: "/project/.stainless-toolsrc.yml" }),
+          load: vi.fn(),
+        } as any);
+      };
+
+      afterEach(() => {
+        vi.unstubAllEnvs();
+      });
+
+      it("expands variables in every string", async () => {
+        vi.stubEnv("USER", "alice");
+        vi.stubEnv("SDK_ORG", "acme");
+        mockConfigFile({
+          stainlessSdkRepos: {
+            typescript: { staging: "git@github.com:${SDK_ORG}/typescript-sdk.git" },
+          },
+          defaults: { branch: "${USER}/dev", targetDir: "./sdks/${USER}/{sdk}" },
+        });
+
+        const config = await loadConfig();
+
+        expect(config.stainlessSdkRepos.typescript.staging).toBe("git@github.com:acme/typescript-sdk.git");
+        expect(config.defaults).toEqual({ branch: "alice/dev", targetDir: "./sdks/alice/{sdk}" });
+      });
+
+      it("uses the default of unset or empty variables", async () => {
+        vi.stubEnv("SDK_BRANCH", "");
+        mockConfigFile({
+          stainlessSdkRepos: { typescript: { staging: "git@github.com:org/typescript-sdk.git" } },
+          defaults: { branch: "${SDK_BRANCH:-main}", projectName: "${SDK_PROJECT:-my-project}" },
+        });
+
+        const config = await loadConfig();
+
+        expect(config.defaults).toEqual({ branch: "main", projectName: "my-project" });
+      });
+
+      it("keeps escaped references", async () => {
+        mockConfigFile({
+          stainlessSdkRepos: { typescript: { staging: "git@github.com:org/typescript-sdk.git" } },
+          lifecycle: { typescript: { postClone: "cd $${STAINLESS_TOOLS_SDK_PATH} && npm install" } },
+        });
+
+        const config = await loadConfig();
+
+        expect(config.lifecycle?.typescript.postClone).toBe("cd ${STAINLESS_TOOLS_SDK_PATH} && npm install");
+      });
+
+      it("keeps the variables of lifecycle hooks for the shell to expand", async () => {
+        vi.stubEnv("STAINLESS_TOOLS_SDK_PATH", undefined);
+        vi.stubEnv("STAINLESS_TOOLS_SDK_BRANCH", "stale");
+        vi.stubEnv("NPM_REGISTRY", "https://npm.example.com");
+        mockConfigFile({
+          stainlessSdkRepos: { typescript: { staging: "git@github.com:org/typescript-sdk.git" } },
+          lifecycle: {
+            typescript: {
+              postClone: "cd ${STAINLESS_TOOLS_SDK_PATH} && npm install --registry ${NPM_REGISTRY}",
+              postUpdate: "echo ${STAINLESS_TOOLS_SDK_BRANCH:-main}",
+            },
+          },
+        });
+
+        const config = await loadConfig();
+
+        expect(config.lifecycle?.typescript).toEqual({
+          postClone: "cd ${STAINLESS_TOOLS_SDK_PATH} && npm install --registry https://npm.example.com",
+          postUpdate: "echo ${STAINLESS_TOOLS_SDK_BRANCH:-main}",
+        });
+      });
+
+      it("lists every undefined variable", async () => {
+        vi.stubEnv("SDK_ORG", undefined);
+        vi.stubEnv("SDK_USER", undefined);
+        mockConfigFile({
+          stainlessSdkRepos: {
+            typescript: { staging: "git@github.com:${SDK_ORG}/typescript-sdk.git" },
+            python: { staging: "git@github.com:${SDK_ORG}/python-sdk.git" },
+          },
+          defaults: { branch: "${SDK_USER}/dev" },
+        });
+
+        await expect(loadConfig()).rejects.toThrow(
+          "Undefined environment variables in configuration (/project/.stainless-toolsrc.yml):\n" +
+            "  SDK_ORG (used in stainlessSdkRepos.typescript.staging, stainlessSdkRepos.python.staging)\n" +
+            "  SDK_USER (used in defaults.branch)",
+        );
+      });
+    });
+
+    describe("TypeScript", () => {
+      const loadTs = async (filepath: string, content: string) => {
+        vi.mocked(cosmiconfig).mockReturnValue({ search: vi.fn().mockResolvedValue(null), load: vi.fn() } as any);
+        await loadConfig().catch(() => {});
+        const loader = vi.mocked(cosmiconfig).mock.calls[0][1]?.loaders?.[".ts"];
+        return loader?.(filepath, content);
+      };
+
+      it("loads the default export", async () => {
+        const config = await loadTs(
+          path.join(__dirname, "stainless-tools.config.ts"),
+          [
+            'import type { StainlessConfig } from "stainless-tools";',
+            'const branch: string = ["main"].join("");',
+            "export default { defaults: { branch } } satisfies Partial<StainlessConfig>;",
+          ].join("\n"),
+        );
+
+        expect(config).toEqual({ defaults: { branch: "main" } });
+      });
+
+      it("reports syntax errors", async () => {
+        await expect(loadTs(path.join(__dirname, "stainless-tools.config.ts"), "export default {")).rejects.toThrow(
+          /^Failed to compile .*stainless-tools\.config\.ts:\n {2}'}' expected\./,
+        );
+      });
+
+      it("reports errors of the compiled configuration", async () => {
+        const filepath = path.join(__dirname, "stainless-tools.config.ts");
+
+        await expect(
+          loadTs(filepath, 'import { missing } from "not-installed";\nexport default missing;'),
+        ).rejects.toThrow(`Failed to load ${filepath}: Cannot find module 'not-installed'`);
+        expect(fs.existsSync(path.join(__dirname, "stainless-tools.config.cjs"))).toBe(false);
+      });
+
+      it("loads the configuration afresh every time", async () => {
+        const filepath = path.join(__dirname, "stainless-tools.config.ts");
+
+        expect(await loadTs(filepath, 'export default { defaults: { branch: "one" } };')).toEqual({
+          defaults: { branch: "one" },
+        });
+        expect(await loadTs(filepath, 'export default { defaults: { branch: "two" } };')).toEqual({
+          defaults: { branch: "two" },
+        });
+      });
+
+      it("requires typescript to be installed", async () => {
+        vi.doMock("typescript", () => {
+          throw new Error("Cannot find module 'typescript'");
+        });
+
+        try {
+          await expect(loadTs("/project/stainless-tools.config.ts", "export default {};")).rejects.toThrow(
+            'Loading /project/stainless-tools.config.ts requires the "typescript" package.',
+          );
+        } finally {
+          vi.doUnmock("typescript");
+        }
+      });
+    });
+
+    describe("validation errors", () => {
+      const repos = {
+        typescript: { staging: "git@github.com:org/typescript-sdk-staging.git" },
+      };
+
+      const loadInvalidConfig = async (config: unknown) => {
+        vi.mocked(cosmiconfig).mockReturnValue({
+          search: vi.fn().mockResolvedValue({ config, filepath: "/project/.stainless-toolsrc.yml" }),
+          load: vi.fn(),
+        } as any);
+        return loadConfig().then(
+          () => expect.fail("Expected the configuration to be invalid"),
+          (error: Error) => error.message,
+        );
+      };
+
+      it("rejects unknown keys with suggestions", async () => {
+        const message = await loadInvalidConfig({
+          stainlessSdkRepos: repos,
+          lifeCycle: {},
+          lifecycle: { typescript: { postclone: "npm install", build: "npm run build" } },
+          defaults: { brnach: "main" },
+        });
+
+        expect(message).toBe(
+          [
+            "Invalid configuration (/project/.stainless-toolsrc.yml):",
+            '  lifecycle.typescript.postclone: Unknown key. Did you mean "postClone"?',
+            "  lifecycle.typescript.build: Unknown key",
+            '  defaults.brnach: Unknown key. Did you mean "branch"?',
+            '  lifeCycle: Unknown key. Did you mean "lifecycle"?',
+          ].join("\n"),
+        );
+      });
+
+      it("throws ConfigError with the validation issues", async () => {
+        vi.mocked(cosmiconfig).mockReturnValue({
+          search: vi.fn().mockResolvedValue({
+            config: { stainlessSdkRepos: repos, defaults: { guessConfig: "yes" } },
+            filepath: "/project/.stainless-toolsrc.yml",
+          }),
+          load: vi.fn(),
+        } as any);
+
+        const error = await loadConfig().catch((error) => error);
+
+        expect(error).toBeInstanceOf(ConfigError);
+        expect(error.code).toBe("CONFIG_ERROR");
+        expect(error.issues).toEqual([
+          expect.objectContaining({ path: ["defaults", "guessConfig"], code: "invalid_type" }),
+        ]);
+      });
+
+      it("suggests overrides for misspelled keys of SDK entries", async () => {
+        const message = await loadInvalidConfig({
+          stainlessSdkRepos: { typescript: { ...repos.typescript, projectname: "my-project", guesConfig: true } },
+        });
+
+        expect(message).toContain(
+          '  stainlessSdkRepos.typescript.projectname: Invalid git URL. Did you mean "projectName"?',
+        );
+        expect(message).toContain(
+          '  stainlessSdkRepos.typescript.guesConfig: Expected string, received boolean. Did you mean "guessConfig"?',
+        );
+      });
+
+      it("describes what was expected", async () => {
+        const message = await loadInvalidConfig({
+          lifecycle: { typescript: { postClone: ["npm install"] } },
+          defaults: { guessConfig: "yes" },
+        });
+
+        expect(message).toBe(
+          [
+            "Invalid configuration (/project/.stainless-toolsrc.yml):",
+            "  stainlessSdkRepos: Required, expected object",
+            "  lifecycle.typescript.postClone: Expected string, received array",
+            "  defaults.guessConfig: Expected boolean, received string",
+          ].join("\n"),
+        );
+      });
+    });
+
+    describe("legacy configurations", () => {
+      it("points at migrate-config for SDKs with a single repository URL", async () => {
+        vi.mocked(cosmiconfig).mockReturnValue({
+          search: vi.fn().mockResolvedValue({
+            config: { stainlessSdkRepos: { typescript: "git@github.com:org/typescript-sdk.git" } },
+            filepath: "/project/.stainless-toolsrc.json",
+          }),
+          load: vi.fn(),
+        } as any);
+
+        await expect(loadConfig()).rejects.toThrow(
+          "Configuration (/project/.stainless-toolsrc.json) uses the format of stainless-tools v2, where each SDK is a single repository URL (typescript). " +
+            'Run "stainless-tools migrate-config" to update it.',
+        );
+      });
+
+      it("points at migrate-config for files named after stainless-tools v1", async () => {
+        vi.mocked(cosmiconfig).mockImplementation(
+          (moduleName) =>
+            ({
+              search: vi
+                .fn()
+                .mockResolvedValue(
+                  moduleName === "stainless" ? { config: {}, filepath: "/project/stainless.config.js" } : null,
+                ),
+              load: vi.fn(),
+            }) as any,
+        );
+
+        await expect(loadConfig()).rejects.toThrow(
+          'No configuration file found, but found /project/stainless.config.js, which uses the name of stainless-tools v1. Run "stainless-tools migrate-config" to update it.',
+        );
+        expect(cosmiconfig).toHaveBeenCalledWith(
+          "stainless",
+          expect.objectContaining({ searchPlaces: expect.not.arrayContaining(["package.json"]) }),
+        );
+      });
+    });
+
     it("throws error when no config file found", async () => {
       vi.mocked(cosmiconfig).mockReturnValue({
         search: vi.fn().mockResolvedValue(null),
         load: vi.fn().mockResolvedValue(null),
       } as any);
 
+      await expect(loadConfig()).rejects.toThrow(ConfigError);
       await expect(loadConfig()).rejects.toThrow("No configuration file found");
     });
   });
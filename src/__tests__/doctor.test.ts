@@ -0,0 +1,372 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { execa } from "execa";
+import mock from "mock-fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { StainlessError } from "../StainlessError.js";
+import { loadConfig } from "../config.js";
+import { extractCommandNames, resolveExecutable, runDoctorChecks } from "../doctor.js";
+
+vi.mock("execa");
+vi.mock("../config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../config.js")>()),
+  loadConfig: vi.fn(),
+}));
+
+// Schemas the OpenAPI validator reads, which have to be visible through mock-fs
+const validatorSchemasDir = fs.realpathSync(path.resolve("node_modules/@seriousme/openapi-schema-validator/schemas"));
+
+describe("doctor", () => {
+  const originalEnv = { ...process.env };
+
+  const mockConfig = {
+    stainlessSdkRepos: {
+      typescript: {
+        staging: "git@github.com:org/typescript-staging.git",
+        prod: "git@github.com:org/typescript.git",
+      },
+    },
+    lifecycle: {
+      typescript: {
+        postClone: "cd $STAINLESS_TOOLS_SDK_PATH && npm install",
+        postUpdate: "missing-tool build",
+      },
+    },
+    defaults: {
+      openApiFile: "./openapi.yml",
+      stainlessConfigFile: "./stainless.yml",
+      targetDir: "./sdks/{sdk}",
+    },
+  };
+
+  const findCheck = (checks: Awaited<ReturnType<typeof runDoctorChecks>>, scope: string, name: string) =>
+    checks.find((check) => check.scope === scope && check.name === name);
+
+  const mockFileSystem = (items: Parameters<typeof mock>[0]) => {
+    mock.restore();
+    mock({ ...items, [validatorSchemasDir]: mock.load(validatorSchemasDir) }, { createCwd: false });
+    vi.spyOn(process, "cwd").mockReturnValue("/project");
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env = { ...originalEnv, STAINLESS_API_KEY: "test-key", PATH: "/usr/local/bin" };
+    delete process.env.STAINLESS_SDK_BRANCH;
+
+    vi.mocked(loadConfig).mockResolvedValue(mockConfig);
+    vi.mocked(execa).mockResolvedValue({ stdout: "git version 2.45.0" } as any);
+
+    mockFileSystem({
+      "/project": {
+        "openapi.yml": "openapi: 3.1.0\ninfo:\n  title: Test\n  version: 1.0.0\npaths: {}\n",
+        "stainless.yml": "client_settings: {}\n",
+      },
+      "/usr/local/bin": {
+        npm: mock.file({ content: "", mode: 0o755 }),
+      },
+    });
+  });
+
+  afterEach(() => {
+    mock.restore();
+    vi.restoreAllMocks();
+    process.env = originalEnv;
+  });
+
+  it("passes general checks for a healthy setup", async () => {
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "general", "Configuration")?.status).toBe("pass");
+    expect(findCheck(checks, "general", "STAINLESS_API_KEY")?.status).toBe("pass");
+    expect(findCheck(checks, "general", "git")).toEqual({
+      scope: "general",
+      name: "git",
+      status: "pass",
+      message: "git version 2.45.0",
+    });
+    expect(findCheck(checks, "general", "OpenAPI file")?.status).toBe("pass");
+    expect(findCheck(checks, "general", "Stainless config file")?.status).toBe("pass");
+  });
+
+  it("checks every repository URL with git ls-remote", async () => {
+    const checks = await runDoctorChecks();
+
+    expect(execa).toHaveBeenCalledWith(
+      "git",
+      ["ls-remote", "--heads", "git@github.com:org/typescript-staging.git"],
+      expect.objectContaining({ env: { GIT_TERMINAL_PROMPT: "0" } }),
+    );
+    expect(execa).toHaveBeenCalledWith(
+      "git",
+      ["ls-remote", "--heads", "git@github.com:org/typescript.git"],
+      expect.anything(),
+    );
+    expect(findCheck(checks, "typescript", "staging repository")?.status).toBe("pass");
+    expect(findCheck(checks, "typescript", "prod repository")?.status).toBe("pass");
+  });
+
+  it("checks the repositories of every named environment", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...mockConfig,
+      stainlessSdkRepos: {
+        typescript: { ...mockConfig.stainlessSdkRepos.typescript, dev: "git@github.com:org/typescript-dev.git" },
+      },
+    });
+
+    const checks = await runDoctorChecks({ env: "dev" });
+
+    expect(execa).toHaveBeenCalledWith(
+      "git",
+      ["ls-remote", "--heads", "git@github.com:org/typescript-dev.git"],
+      expect.anything(),
+    );
+    expect(findCheck(checks, "typescript", "dev repository")?.status).toBe("pass");
+    expect(findCheck(checks, "typescript", "staging repository")?.status).toBe("pass");
+  });
+
+  it("does not treat SDK overrides of the defaults as repositories", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...mockConfig,
+      stainlessSdkRepos: {
+        typescript: { ...mockConfig.stainlessSdkRepos.typescript, branch: "next", targetDir: "./typescript/{branch}" },
+      },
+    });
+
+    const checks = await runDoctorChecks();
+
+    expect(execa).toHaveBeenCalledTimes(3);
+    expect(findCheck(checks, "typescript", "branch repository")).toBeUndefined();
+    expect(findCheck(checks, "typescript", "Target directory")?.message).toContain("/project/typescript/next");
+  });
+
+  it("fails unreachable repositories with the git error", async () => {
+    vi.mocked(execa).mockImplementation((async (_file: string, args: string[]) => {
+      if (args[0] === "ls-remote" && args[2].endsWith("typescript.git")) {
+        throw Object.assign(new Error("failed"), { stderr: "ERROR: Repository not found.\nfatal: ..." });
+      }
+      return { stdout: "git version 2.45.0" };
+    }) as any);
+
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "typescript", "prod repository")).toEqual({
+      scope: "typescript",
+      name: "prod repository",
+      status: "fail",
+      message: "git@github.com:org/typescript.git is not reachable: ERROR: Repository not found.",
+    });
+  });
+
+  it("fails when git is not installed and skips repository checks", async () => {
+    vi.mocked(execa).mockRejectedValue(new Error("ENOENT"));
+
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "general", "git")?.status).toBe("fail");
+    expect(findCheck(checks, "typescript", "staging repository")).toBeUndefined();
+  });
+
+  it("fails when STAINLESS_API_KEY is not set", async () => {
+    delete process.env.STAINLESS_API_KEY;
+
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "general", "STAINLESS_API_KEY")?.status).toBe("fail");
+  });
+
+  it("reports configuration validation errors and skips SDK checks", async () => {
+    const schemaError = z.object({ stainlessSdkRepos: z.record(z.string()) }).safeParse({}).error;
+    vi.mocked(loadConfig).mockRejectedValue(schemaError);
+
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "general", "Configuration")).toEqual({
+      scope: "general",
+      name: "Configuration",
+      status: "fail",
+      message: "stainlessSdkRepos: Required, expected object",
+    });
+    expect(checks.some((check) => check.scope === "typescript")).toBe(false);
+  });
+
+  it("reports validation errors of configurations merged from several files", async () => {
+    const schemaError = z.object({ stainlessSdkRepos: z.record(z.string()) }).safeParse({}).error;
+    vi.mocked(loadConfig).mockRejectedValue(new StainlessError("Invalid configuration (merged from ...)", schemaError));
+
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "general", "Configuration")?.message).toBe("stainlessSdkRepos: Required, expected object");
+  });
+
+  it("fails missing or unparsable spec files", async () => {
+    mockFileSystem({
+      "/project": {
+        "stainless.yml": "key: [unclosed",
+      },
+    });
+
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "general", "OpenAPI file")).toEqual({
+      scope: "general",
+      name: "OpenAPI file",
+      status: "fail",
+      message: "/project/openapi.yml does not exist or cannot be read",
+    });
+    expect(findCheck(checks, "general", "Stainless config file")?.status).toBe("fail");
+    expect(findCheck(checks, "general", "Stainless config file")?.message).toContain("could not be parsed");
+  });
+
+  it("fails when the OpenAPI file is not a valid specification", async () => {
+    const checks = await runDoctorChecks({ openApiFile: "./stainless.yml" });
+
+    expect(findCheck(checks, "general", "OpenAPI file")).toEqual({
+      scope: "general",
+      name: "OpenAPI file",
+      status: "fail",
+      message: expect.stringContaining("/project/stainless.yml:1"),
+    });
+  });
+
+  it("checks the files of every SDK, each distinct file once", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...mockConfig,
+      stainlessSdkRepos: {
+        typescript: { staging: "git@github.com:org/typescript.git" },
+        python: { staging: "git@github.com:org/python.git", openApiFile: "./beta.yml" },
+        go: { staging: "git@github.com:org/go.git", openApiFile: "./beta.yml" },
+      },
+    });
+    mockFileSystem({
+      "/project": {
+        "openapi.yml": "openapi: 3.1.0\ninfo:\n  title: Test\n  version: 1.0.0\npaths: {}\n",
+        "stainless.yml": "client_settings: {}\n",
+      },
+    });
+
+    const checks = await runDoctorChecks();
+
+    expect(checks.filter((check) => check.name === "OpenAPI file")).toEqual([
+      { scope: "typescript", name: "OpenAPI file", status: "pass", message: "/project/openapi.yml" },
+      {
+        scope: "python, go",
+        name: "OpenAPI file",
+        status: "fail",
+        message: "/project/beta.yml does not exist or cannot be read",
+      },
+    ]);
+    expect(checks.filter((check) => check.name === "Stainless config file")).toEqual([
+      { scope: "general", name: "Stainless config file", status: "pass", message: "/project/stainless.yml" },
+    ]);
+  });
+
+  it("checks that the target directory can be created", async () => {
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "typescript", "Target directory")).toEqual({
+      scope: "typescript",
+      name: "Target directory",
+      status: "pass",
+      message: "/project/sdks/typescript will be created",
+    });
+  });
+
+  // Permission checks always pass for root
+  it.skipIf(process.getuid?.() === 0)("fails when the target directory is not writable", async () => {
+    mockFileSystem({
+      "/project": mock.directory({ mode: 0o555, items: {} }),
+    });
+
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "typescript", "Target directory")?.status).toBe("fail");
+  });
+
+  it("warns when the target directory depends on an unknown branch", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...mockConfig,
+      defaults: { ...mockConfig.defaults, targetDir: "./sdks/{sdk}/{branch}" },
+    });
+
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "typescript", "Target directory")?.status).toBe("warn");
+  });
+
+  it("resolves the branch of the target directory from the branch template", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...mockConfig,
+      defaults: { ...mockConfig.defaults, targetDir: "./sdks/{sdk}/{branch}", branchTemplate: "{sdk}/{env}" },
+    });
+
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "typescript", "Target directory")).toMatchObject({
+      status: "pass",
+      message: expect.stringContaining(path.join("sdks", "typescript", "typescript-staging")),
+    });
+  });
+
+  it("fails when the target directory uses unknown placeholders", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...mockConfig,
+      defaults: { ...mockConfig.defaults, targetDir: "./sdks/{sdk}/{envv}" },
+    });
+
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "typescript", "Target directory")).toEqual({
+      scope: "typescript",
+      name: "Target directory",
+      status: "fail",
+      message: 'Invalid target directory "./sdks/{sdk}/{envv}":\n  Unknown placeholder {envv}. Did you mean {env}?',
+    });
+  });
+
+  it("checks that lifecycle hook binaries resolve on the PATH", async () => {
+    const checks = await runDoctorChecks();
+
+    expect(findCheck(checks, "typescript", "postClone hook")?.status).toBe("pass");
+    expect(findCheck(checks, "typescript", "postUpdate hook")).toEqual({
+      scope: "typescript",
+      name: "postUpdate hook",
+      status: "fail",
+      message: "Not found on PATH: missing-tool",
+    });
+  });
+
+  it("only checks the requested SDKs", async () => {
+    const checks = await runDoctorChecks({ sdkNames: ["python"] });
+
+    expect(findCheck(checks, "python", "Configuration")?.status).toBe("fail");
+    expect(checks.some((check) => check.scope === "typescript")).toBe(false);
+  });
+
+  describe("extractCommandNames", () => {
+    it("extracts every program from a shell command", () => {
+      expect(extractCommandNames("cd $SDK_PATH && npm install && npm run build")).toEqual(["npm"]);
+      expect(extractCommandNames("FORCE=1 ./scripts/setup.sh; python -m venv venv | tee log")).toEqual([
+        "./scripts/setup.sh",
+        "python",
+        "tee",
+      ]);
+      expect(extractCommandNames('echo "hi" || source venv/bin/activate')).toEqual([]);
+    });
+  });
+
+  describe("resolveExecutable", () => {
+    it("finds binaries on the PATH", async () => {
+      expect(await resolveExecutable("npm")).toBe("/usr/local/bin/npm");
+      expect(await resolveExecutable("missing")).toBeUndefined();
+    });
+
+    it("resolves relative paths from the working directory", async () => {
+      mockFileSystem({
+        "/project/scripts/setup.sh": mock.file({ content: "", mode: 0o755 }),
+      });
+
+      expect(await resolveExecutable("./scripts/setup.sh")).toBe("/project/scripts/setup.sh");
+    });
+  });
+});
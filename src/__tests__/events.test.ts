@@ -0,0 +1,53 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+import { ConfigError, StainlessError } from "../StainlessError.js";
+import { createNdjsonEventHandler, toErrorEvent } from "../events.js";
+
+describe("events", () => {
+  describe("toErrorEvent", () => {
+    it("includes the message of the cause", () => {
+      const error = new StainlessError("Failed to pull changes", new Error("merge conflict"));
+
+      expect(toErrorEvent(error, "typescript")).toEqual({
+        type: "error",
+        sdkName: "typescript",
+        message: "Failed to pull changes",
+        code: "STAINLESS_ERROR",
+        cause: "merge conflict",
+      });
+    });
+
+    it("handles errors without a cause and non-Error values", () => {
+      expect(toErrorEvent(new Error("Boom"))).toEqual({ type: "error", message: "Boom" });
+      expect(toErrorEvent("Boom")).toEqual({ type: "error", message: "Boom" });
+    });
+
+    it("includes the code of typed errors", () => {
+      expect(toErrorEvent(new ConfigError("Invalid configuration"))).toEqual({
+        type: "error",
+        message: "Invalid configuration",
+        code: "CONFIG_ERROR",
+      });
+    });
+  });
+
+  describe("createNdjsonEventHandler", () => {
+    it("writes one JSON object per line with a timestamp", () => {
+      const stream = new PassThrough();
+      const onEvent = createNdjsonEventHandler(stream);
+
+      onEvent({ type: "config-loaded", sdkNames: ["typescript"] });
+      onEvent({ type: "publish-started", branch: "main" });
+
+      const lines = stream.read().toString().split("\n");
+      expect(lines).toHaveLength(3);
+      expect(lines[2]).toBe("");
+      expect(JSON.parse(lines[0])).toEqual({
+        timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        type: "config-loaded",
+        sdkNames: ["typescript"],
+      });
+      expect(JSON.parse(lines[1])).toMatchObject({ type: "publish-started", branch: "main" });
+    });
+  });
+});
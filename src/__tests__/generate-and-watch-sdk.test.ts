@@ -1,12 +1,22 @@
 import { watch } from "chokidar";
 import mock from "mock-fs";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { generateAndWatchSDK } from "../generate-and-watch-sdk";
+import { type PublishHistory, hashPublishContents } from "../PublishHistory";
+import { StainlessError } from "../StainlessError";
+import { StainlessTools } from "../StainlessTools";
+import {
+  generateAndWatchSDK,
+  generateAndWatchSDKs,
+  generateSDKOnce,
+  generateSDKsOnce,
+} from "../generate-and-watch-sdk";
 
 // Mock chokidar
 vi.mock("chokidar", () => ({
   watch: vi.fn().mockReturnValue({
     on: vi.fn().mockReturnThis(),
+    add: vi.fn(),
+    unwatch: vi.fn(),
     close: vi.fn(),
   }),
 }));
@@ -18,6 +28,9 @@ const mockStainlessToolsInstance = {
   pullChanges: vi.fn().mockResolvedValue(undefined),
   cleanup: vi.fn(),
   waitForRemoteBranch: vi.fn().mockResolvedValue(undefined),
+  waitForNewCommit: vi.fn().mockResolvedValue("def456"),
+  getRemoteBranchHead: vi.fn().mockResolvedValue("abc123"),
+  setWatchOptions: vi.fn(),
 };
 
 // Mock StainlessTools
@@ -41,6 +54,9 @@ vi.mock("../StainlessApi", () => ({
   }),
 }));
 
+// Spec validation is covered by its own tests
+vi.mock("../spec-validation");
+
 // Mock simple-git
 const mockGit = {
   clone: vi.fn(),
@@ -88,6 +104,8 @@ describe("generateAndWatchSDK", () => {
     mockStainlessToolsInstance.pullChanges.mockReset();
     mockStainlessToolsInstance.cleanup.mockReset();
     mockStainlessToolsInstance.waitForRemoteBranch.mockReset();
+    mockStainlessToolsInstance.waitForNewCommit.mockReset();
+    mockStainlessToolsInstance.getRemoteBranchHead.mockReset().mockResolvedValue("abc123");
 
     // Set default successful responses
     mockGit.status.mockResolvedValue({ isClean: () => true });
@@ -107,6 +125,7 @@ describe("generateAndWatchSDK", () => {
     mock({
       "/test": {},
       "/test/target-dir": {},
+      "/test/openapi.yml": "openapi: 3.0.0",
     });
   });
 
@@ -160,4 +179,470 @@ describe("generateAndWatchSDK", () => {
     // Clean up
     cleanup();
   });
+
+  describe("generateAndWatchSDKs", () => {
+    const sdkOptions = (sdkName: string, overrides = {}) => ({
+      sdkName,
+      sdkRepo: `git@github.com:org/${sdkName}.git`,
+      branch: "main",
+      targetDir: `/test/${sdkName}`,
+      openApiFile: "/test/openapi.yml",
+      projectName: "test-project",
+      ...overrides,
+    });
+
+    it("publishes a shared spec once and clones every SDK", async () => {
+      mockStainlessToolsInstance.hasNewChanges.mockResolvedValue(false);
+
+      const cleanup = await generateAndWatchSDKs({
+        sdks: [sdkOptions("typescript"), sdkOptions("python")],
+        pollIntervalMs: 100,
+      });
+
+      expect(mockPublish).toHaveBeenCalledTimes(1);
+      expect(mockPublish).toHaveBeenCalledWith(
+        expect.objectContaining({ branch: "main", projectName: "test-project" }),
+      );
+      expect(StainlessTools).toHaveBeenCalledTimes(2);
+      expect(StainlessTools).toHaveBeenCalledWith(expect.objectContaining({ sdkName: "python", watchFiles: false }));
+      expect(mockStainlessToolsInstance.clone).toHaveBeenCalledTimes(2);
+      expect(mockWatch).toHaveBeenCalledTimes(1);
+
+      await cleanup();
+      expect(mockStainlessToolsInstance.cleanup).toHaveBeenCalledTimes(2);
+    });
+
+    it("publishes separately for SDKs on different branches", async () => {
+      mockStainlessToolsInstance.hasNewChanges.mockResolvedValue(false);
+
+      const cleanup = await generateAndWatchSDKs({
+        sdks: [sdkOptions("typescript"), sdkOptions("python", { branch: "dev" })],
+        pollIntervalMs: 100,
+      });
+
+      expect(mockPublish).toHaveBeenCalledTimes(2);
+      expect(mockWatch).toHaveBeenCalledTimes(2);
+
+      await cleanup();
+    });
+
+    it("polls each SDK and prefixes its output", async () => {
+      const consoleSpy = vi.spyOn(console, "log");
+      mockStainlessToolsInstance.hasNewChanges.mockResolvedValue(true);
+
+      const cleanup = await generateAndWatchSDKs({
+        sdks: [sdkOptions("typescript"), sdkOptions("python")],
+        pollIntervalMs: 100,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(mockStainlessToolsInstance.pullChanges).toHaveBeenCalledTimes(2);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "\n[typescript] Detected new changes in SDK repository, pulling updates...",
+      );
+      expect(consoleSpy).toHaveBeenCalledWith("\n[python] Detected new changes in SDK repository, pulling updates...");
+
+      await cleanup();
+    });
+
+    it("shares a file watcher with the longest timings of its SDKs", async () => {
+      mockStainlessToolsInstance.hasNewChanges.mockResolvedValue(false);
+
+      const cleanup = await generateAndWatchSDKs({
+        sdks: [
+          sdkOptions("typescript", { debounceMs: 200, stabilityThresholdMs: 3000 }),
+          sdkOptions("python", { debounceMs: 500 }),
+        ],
+      });
+
+      expect(mockWatch).toHaveBeenCalledWith(
+        ["/test/openapi.yml"],
+        expect.objectContaining({ awaitWriteFinish: { stabilityThreshold: 5000, pollInterval: 100 } }),
+      );
+
+      await cleanup();
+    });
+
+    it("polls each SDK at its own interval", async () => {
+      mockStainlessToolsInstance.hasNewChanges.mockResolvedValue(false);
+
+      const cleanup = await generateAndWatchSDKs({
+        sdks: [sdkOptions("typescript", { pollIntervalMs: 30 }), sdkOptions("python")],
+        pollIntervalMs: 1000,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      // The first poll runs right away, then only typescript polls again within 100ms
+      expect(mockStainlessToolsInstance.hasNewChanges.mock.calls.length).toBeGreaterThanOrEqual(4);
+      expect(mockStainlessToolsInstance.hasNewChanges.mock.calls.length).toBeLessThan(10);
+
+      await cleanup();
+    });
+
+    it("throws when no SDKs are provided", async () => {
+      await expect(generateAndWatchSDKs({ sdks: [] })).rejects.toThrow("At least one SDK is required");
+    });
+  });
+
+  describe("watchConfig", () => {
+    const sdk = {
+      sdkName: "typescript",
+      sdkRepo: "git@github.com:org/typescript.git",
+      branch: "main",
+      targetDir: "/test/typescript",
+      openApiFile: "/test/openapi.yml",
+      projectName: "test-project",
+    };
+
+    /** Simulates a change of a configuration file and waits for the reload */
+    const changeConfigFile = async (file = "/test/stainless-tools.config.js") => {
+      // Every watcher is the same mock, and the configuration file is watched last
+      const watcher = mockWatch.mock.results[mockWatch.mock.results.length - 1].value;
+      const [, onChange] = watcher.on.mock.calls.filter(([event]: [string]) => event === "change").pop();
+      onChange(file);
+      await new Promise((resolve) => setTimeout(resolve, 350));
+    };
+
+    it("applies the options that can change and reports the others", async () => {
+      mockStainlessToolsInstance.hasNewChanges.mockResolvedValue(false);
+      const onEvent = vi.fn();
+      const logger = { log: vi.fn(), error: vi.fn() };
+      const reload = vi.fn().mockResolvedValue({
+        sdks: [{ ...sdk, openApiFile: "/test/openapi-v2.yml", branch: "dev", debounceMs: 200 }],
+        lifecycle: { typescript: { postUpdate: "npm run build" } },
+        pollIntervalMs: 1000,
+      });
+
+      const cleanup = await generateAndWatchSDK({
+        ...sdk,
+        logger,
+        onEvent,
+        watchConfig: { configFile: "/test/stainless-tools.config.js", reload },
+      });
+
+      expect(mockWatch).toHaveBeenCalledWith("/test/stainless-tools.config.js", { ignoreInitial: true });
+      await changeConfigFile();
+
+      expect(reload).toHaveBeenCalledTimes(1);
+      expect(mockStainlessToolsInstance.setWatchOptions).toHaveBeenCalledWith({
+        openApiFile: "/test/openapi-v2.yml",
+        stainlessConfigFile: undefined,
+        debounceMs: 200,
+        stabilityThresholdMs: 5000,
+      });
+      expect(onEvent).toHaveBeenCalledWith({
+        type: "config-reloaded",
+        applied: [
+          "lifecycle hooks",
+          "[typescript] poll interval: 5000ms -> 1000ms",
+          "[typescript] OpenAPI file: /test/openapi.yml -> /test/openapi-v2.yml",
+          "[typescript] spec debounce: 1000ms -> 200ms",
+        ],
+        requiresRestart: ["[typescript] branch: main -> dev"],
+      });
+      expect(logger.log).toHaveBeenCalledWith(
+        expect.stringContaining("Restart to apply [typescript] branch: main -> dev"),
+      );
+
+      await cleanup();
+    });
+
+    it("does not reapply unchanged options", async () => {
+      mockStainlessToolsInstance.hasNewChanges.mockResolvedValue(false);
+      const logger = { log: vi.fn(), error: vi.fn() };
+      const reload = vi.fn().mockResolvedValue({ sdks: [sdk] });
+
+      const cleanup = await generateAndWatchSDK({
+        ...sdk,
+        logger,
+        watchConfig: { configFile: "/test/stainless-tools.config.js", reload },
+      });
+      await changeConfigFile();
+
+      expect(mockStainlessToolsInstance.setWatchOptions).not.toHaveBeenCalled();
+      expect(logger.log).toHaveBeenCalledWith("No changes to apply.");
+
+      await cleanup();
+    });
+
+    it("keeps the previous configuration when it fails to reload", async () => {
+      mockStainlessToolsInstance.hasNewChanges.mockResolvedValue(false);
+      const onEvent = vi.fn();
+      const logger = { log: vi.fn(), error: vi.fn() };
+      const reload = vi.fn().mockRejectedValue(new StainlessError("Invalid configuration"));
+
+      const cleanup = await generateAndWatchSDK({
+        ...sdk,
+        logger,
+        onEvent,
+        watchConfig: { configFile: "/test/stainless-tools.config.js", reload },
+      });
+      await changeConfigFile();
+
+      expect(logger.error).toHaveBeenCalledWith(
+        "Failed to reload configuration, keeping the previous one: Invalid configuration",
+      );
+      expect(onEvent).toHaveBeenCalledWith(expect.objectContaining({ type: "error" }));
+      expect(onEvent).not.toHaveBeenCalledWith(expect.objectContaining({ type: "config-reloaded" }));
+
+      await cleanup();
+    });
+
+    it("reports SDKs added to the configuration as requiring a restart", async () => {
+      mockStainlessToolsInstance.hasNewChanges.mockResolvedValue(false);
+      const onEvent = vi.fn();
+      const logger = { log: vi.fn(), error: vi.fn() };
+      const python = { ...sdk, sdkName: "python", targetDir: "/test/python" };
+      const reload = vi.fn().mockResolvedValue({ sdks: [sdk, python] });
+
+      const cleanup = await generateAndWatchSDKs({
+        sdks: [sdk],
+        logger,
+        onEvent,
+        watchConfig: { configFile: "/test/stainless-tools.config.js", reload },
+      });
+      await changeConfigFile();
+
+      expect(onEvent).toHaveBeenCalledWith({
+        type: "config-reloaded",
+        applied: [],
+        requiresRestart: ["[python] added to the configuration"],
+      });
+      expect(logger.log).toHaveBeenCalledWith(
+        expect.stringContaining("Restart to apply [python] added to the configuration"),
+      );
+
+      await cleanup();
+    });
+
+    it("watches the files the configuration extends", async () => {
+      mockStainlessToolsInstance.hasNewChanges.mockResolvedValue(false);
+      const logger = { log: vi.fn(), error: vi.fn() };
+      const reload = vi.fn().mockResolvedValue({ sdks: [sdk] });
+      const getConfigFiles = vi
+        .fn()
+        .mockResolvedValueOnce(["/test/stainless-tools.config.js", "/test/base.js"])
+        .mockResolvedValueOnce(["/test/stainless-tools.config.js", "/test/other-base.js"]);
+
+      const cleanup = await generateAndWatchSDK({
+        ...sdk,
+        logger,
+        watchConfig: { configFile: "/test/stainless-tools.config.js", reload, getConfigFiles },
+      });
+      const watcher = mockWatch.mock.results[mockWatch.mock.results.length - 1].value;
+      await vi.waitFor(() => expect(watcher.add).toHaveBeenCalledWith(["/test/base.js"]));
+
+      // The extended file now extends another one
+      await changeConfigFile("/test/base.js");
+
+      expect(reload).toHaveBeenCalledTimes(1);
+      expect(logger.log).toHaveBeenCalledWith("\nDetected changes in /test/base.js, reloading configuration...");
+      expect(watcher.add).toHaveBeenLastCalledWith(["/test/other-base.js"]);
+      expect(watcher.unwatch).toHaveBeenCalledWith(["/test/base.js"]);
+
+      await cleanup();
+    });
+
+    it("requires a restart to change the files of SDKs that share a watcher differently", async () => {
+      mockStainlessToolsInstance.hasNewChanges.mockResolvedValue(false);
+      const onEvent = vi.fn();
+      const python = { ...sdk, sdkName: "python", targetDir: "/test/python" };
+      const reload = vi.fn().mockResolvedValue({
+        sdks: [{ ...sdk, openApiFile: "/test/openapi-v2.yml" }, python],
+      });
+
+      const cleanup = await generateAndWatchSDKs({
+        sdks: [sdk, python],
+        logger: { log: vi.fn(), error: vi.fn() },
+        onEvent,
+        watchConfig: { configFile: "/test/stainless-tools.config.js", reload },
+      });
+      await changeConfigFile();
+
+      expect(onEvent).toHaveBeenCalledWith({
+        type: "config-reloaded",
+        applied: [],
+        requiresRestart: ["[typescript] OpenAPI file: /test/openapi.yml -> /test/openapi-v2.yml"],
+      });
+
+      await cleanup();
+    });
+  });
+
+  describe("generateSDKOnce", () => {
+    const options = {
+      sdkName: "typescript",
+      sdkRepo: "git@github.com:org/typescript.git",
+      branch: "main",
+      targetDir: "/test/typescript",
+      openApiFile: "/test/openapi.yml",
+      projectName: "test-project",
+    };
+
+    it("publishes, waits for a new commit and pulls it once", async () => {
+      mockStainlessToolsInstance.waitForNewCommit.mockResolvedValue("def456");
+
+      const updated = await generateSDKOnce({ ...options, pollIntervalMs: 100, timeoutMs: 1000 });
+
+      expect(updated).toBe(true);
+      expect(mockPublish).toHaveBeenCalledTimes(1);
+      expect(mockStainlessToolsInstance.clone).toHaveBeenCalledTimes(1);
+      expect(mockStainlessToolsInstance.waitForNewCommit).toHaveBeenCalledWith({
+        timeoutMs: 1000,
+        pollIntervalMs: 100,
+        baseHash: "abc123",
+      });
+      expect(mockStainlessToolsInstance.pullChanges).toHaveBeenCalledTimes(1);
+      expect(mockWatch).not.toHaveBeenCalled();
+      expect(mockStainlessToolsInstance.hasNewChanges).not.toHaveBeenCalled();
+    });
+
+    it("waits for the branch to move past the commit it was at before publishing", async () => {
+      const calls: string[] = [];
+      mockStainlessToolsInstance.getRemoteBranchHead.mockImplementation(async () => {
+        calls.push("getRemoteBranchHead");
+        return null;
+      });
+      mockPublish.mockImplementationOnce(async () => {
+        calls.push("publish");
+      });
+      mockStainlessToolsInstance.clone.mockImplementation(async () => {
+        calls.push("clone");
+      });
+      mockStainlessToolsInstance.waitForNewCommit.mockResolvedValue("def456");
+
+      await generateSDKOnce(options);
+
+      expect(calls).toEqual(["getRemoteBranchHead", "publish", "clone"]);
+      expect(mockStainlessToolsInstance.waitForNewCommit).toHaveBeenCalledWith(
+        expect.objectContaining({ baseHash: null }),
+      );
+    });
+
+    it("waits ten minutes by default", async () => {
+      mockStainlessToolsInstance.waitForNewCommit.mockResolvedValue("def456");
+
+      await generateSDKOnce(options);
+
+      expect(mockStainlessToolsInstance.waitForNewCommit).toHaveBeenCalledWith(
+        expect.objectContaining({ timeoutMs: 600000 }),
+      );
+    });
+
+    it("does not wait for a new commit when nothing changed since the last publish", async () => {
+      const publishHistory = {
+        filepath: "/state/published.json",
+        getLastHash: vi
+          .fn()
+          .mockResolvedValue(
+            hashPublishContents({ spec: "openapi: 3.0.0", branch: "main", projectName: "test-project" }),
+          ),
+        record: vi.fn(),
+      } as unknown as PublishHistory;
+
+      const updated = await generateSDKOnce({ ...options, publishHistory });
+
+      expect(updated).toBe(false);
+      expect(mockPublish).not.toHaveBeenCalled();
+      expect(mockStainlessToolsInstance.clone).toHaveBeenCalledTimes(1);
+      expect(mockStainlessToolsInstance.waitForNewCommit).not.toHaveBeenCalled();
+      expect(mockStainlessToolsInstance.pullChanges).not.toHaveBeenCalled();
+    });
+
+    it("records the publish once the SDK updated, and not when it timed out", async () => {
+      const publishHistory = {
+        filepath: "/state/published.json",
+        getLastHash: vi.fn().mockResolvedValue(undefined),
+        record: vi.fn().mockResolvedValue(undefined),
+      };
+      mockStainlessToolsInstance.waitForNewCommit.mockRejectedValueOnce(
+        new StainlessError("Timed out after 1s waiting for a new commit"),
+      );
+
+      await expect(
+        generateSDKOnce({ ...options, publishHistory: publishHistory as unknown as PublishHistory }),
+      ).rejects.toThrow("Timed out");
+      expect(mockPublish).toHaveBeenCalledTimes(1);
+      expect(publishHistory.record).not.toHaveBeenCalled();
+
+      mockStainlessToolsInstance.waitForNewCommit.mockResolvedValue("def456");
+      await generateSDKOnce({ ...options, publishHistory: publishHistory as unknown as PublishHistory });
+
+      expect(mockPublish).toHaveBeenCalledTimes(2);
+      expect(publishHistory.record).toHaveBeenCalledTimes(1);
+      expect(publishHistory.record).toHaveBeenCalledWith(
+        { branch: "main", projectName: "test-project", baseUrl: "https://api.stainlessapi.com" },
+        hashPublishContents({ spec: "openapi: 3.0.0", branch: "main", projectName: "test-project" }),
+      );
+    });
+
+    it("rethrows the timeout error without pulling", async () => {
+      mockStainlessToolsInstance.waitForNewCommit.mockRejectedValue(
+        new StainlessError("Timed out after 1s waiting for a new commit"),
+      );
+
+      await expect(generateSDKOnce({ ...options, timeoutMs: 1000 })).rejects.toThrow(
+        "Timed out after 1s waiting for a new commit",
+      );
+      expect(mockStainlessToolsInstance.pullChanges).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("generateSDKsOnce", () => {
+    const sdkOptions = (sdkName: string) => ({
+      sdkName,
+      sdkRepo: `git@github.com:org/${sdkName}.git`,
+      branch: "main",
+      targetDir: `/test/${sdkName}`,
+      openApiFile: "/test/openapi.yml",
+      projectName: "test-project",
+    });
+
+    it("updates every SDK", async () => {
+      mockStainlessToolsInstance.waitForNewCommit.mockResolvedValue("def456");
+
+      const upToDateSdkNames = await generateSDKsOnce({ sdks: [sdkOptions("typescript"), sdkOptions("python")] });
+
+      expect(upToDateSdkNames).toEqual([]);
+      expect(mockPublish).toHaveBeenCalledTimes(1);
+      expect(mockStainlessToolsInstance.waitForNewCommit).toHaveBeenCalledTimes(2);
+      expect(mockStainlessToolsInstance.pullChanges).toHaveBeenCalledTimes(2);
+    });
+
+    it("returns the SDKs that were already up to date without waiting for them", async () => {
+      mockStainlessToolsInstance.waitForNewCommit.mockResolvedValue("def456");
+      const publishHistory = {
+        filepath: "/state/published.json",
+        // Only the spec published to the branch of python changed
+        getLastHash: vi.fn(async ({ branch }: { branch: string }) =>
+          branch === "main"
+            ? hashPublishContents({ spec: "openapi: 3.0.0", branch: "main", projectName: "test-project" })
+            : undefined,
+        ),
+        record: vi.fn().mockResolvedValue(undefined),
+      } as unknown as PublishHistory;
+
+      const upToDateSdkNames = await generateSDKsOnce({
+        sdks: [sdkOptions("typescript"), { ...sdkOptions("python"), branch: "dev" }],
+        publishHistory,
+      });
+
+      expect(upToDateSdkNames).toEqual(["typescript"]);
+      expect(mockPublish).toHaveBeenCalledTimes(1);
+      expect(mockStainlessToolsInstance.waitForNewCommit).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports every SDK that did not update", async () => {
+      mockStainlessToolsInstance.waitForNewCommit
+        .mockResolvedValueOnce("def456")
+        .mockRejectedValueOnce(new StainlessError("Timed out after 1s waiting for a new commit"));
+
+      await expect(
+        generateSDKsOnce({ sdks: [sdkOptions("typescript"), sdkOptions("python")], timeoutMs: 1000 }),
+      ).rejects.toThrow("1 of 2 SDKs did not update:\n[python] Timed out after 1s waiting for a new commit");
+      expect(mockStainlessToolsInstance.pullChanges).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from "vitest";
+import { createPrefixedLogger } from "../logger.js";
+
+describe("createPrefixedLogger", () => {
+  const createTarget = () => ({ log: vi.fn(), error: vi.fn() });
+
+  it("prefixes string messages", () => {
+    const target = createTarget();
+    createPrefixedLogger("[typescript]", target).log("Branch: main");
+
+    expect(target.log).toHaveBeenCalledWith("[typescript] Branch: main");
+  });
+
+  it("prefixes every line while keeping leading newlines", () => {
+    const target = createTarget();
+    createPrefixedLogger("[python]", target).log("\nFirst line\nSecond line");
+
+    expect(target.log).toHaveBeenCalledWith("\n[python] First line\n[python] Second line");
+  });
+
+  it("passes additional arguments through to errors", () => {
+    const target = createTarget();
+    const cause = new Error("cause");
+    createPrefixedLogger("[go]", target).error("Caused by:", cause);
+
+    expect(target.error).toHaveBeenCalledWith("[go] Caused by:", cause);
+  });
+
+  it("adds the prefix as a separate argument for non-string messages", () => {
+    const target = createTarget();
+    const value = { key: "value" };
+    createPrefixedLogger("[java]", target).log(value);
+
+    expect(target.log).toHaveBeenCalledWith("[java]", value);
+  });
+
+  it("logs empty lines without a prefix", () => {
+    const target = createTarget();
+    createPrefixedLogger("[java]", target).log();
+
+    expect(target.log).toHaveBeenCalledWith();
+  });
+});
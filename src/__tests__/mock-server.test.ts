@@ -0,0 +1,168 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import simpleGit from "simple-git";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { LifecycleManager } from "../LifecycleManager.js";
+import { RepoManager } from "../RepoManager.js";
+import { StainlessApi } from "../StainlessApi.js";
+import { StainlessApiError, StainlessAuthError } from "../StainlessError.js";
+import { silentLogger } from "../logger.js";
+import { MOCK_GENERATED_FILE, type MockServer, parseMockResponses, startMockServer } from "../mock-server.js";
+
+describe("startMockServer", () => {
+  let tempDir: string;
+  let server: MockServer | undefined;
+
+  beforeEach(async () => {
+    // Talk to the mock server for real
+    fetchMock.disableMocks();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "stainless-mock-server-"));
+  });
+
+  afterEach(async () => {
+    fetchMock.enableMocks();
+    await server?.close();
+    server = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  function createApi(options: Partial<ConstructorParameters<typeof StainlessApi>[0]> = {}): StainlessApi {
+    return new StainlessApi({ apiKey: "mock", baseUrl: server?.url, logger: silentLogger, maxAttempts: 1, ...options });
+  }
+
+  it("receives publishes and records them to disk", async () => {
+    const recordDir = path.join(tempDir, "records");
+    server = await startMockServer({ recordDir, logger: silentLogger });
+
+    await createApi().publish({
+      spec: "openapi: 3.1.0",
+      config: "client_settings: {}",
+      branch: "main",
+      projectName: "my-project",
+    });
+
+    const expected = {
+      number: 1,
+      status: 200,
+      branch: "main",
+      projectName: "my-project",
+      guessConfig: false,
+      spec: "openapi: 3.1.0",
+      config: "client_settings: {}",
+    };
+    expect(server.requests).toEqual([{ ...expected, receivedAt: expect.any(String) }]);
+    expect(await fs.readdir(recordDir)).toEqual(["0001.json"]);
+    expect(JSON.parse(await fs.readFile(path.join(recordDir, "0001.json"), "utf-8"))).toMatchObject(expected);
+  });
+
+  it("returns the scripted responses in order, then succeeds", async () => {
+    server = await startMockServer({
+      responses: [{ status: 500, body: { message: "Boom" } }, { status: 422 }],
+      logger: silentLogger,
+    });
+    const api = createApi();
+
+    await expect(api.publish({ spec: "openapi: 3.1.0" })).rejects.toMatchObject({
+      status: 500,
+      body: { message: "Boom" },
+    });
+    await expect(api.publish({ spec: "openapi: 3.1.0" })).rejects.toBeInstanceOf(StainlessApiError);
+    await expect(api.publish({ spec: "openapi: 3.1.0" })).resolves.toBeUndefined();
+    expect(server.requests.map((request) => request.status)).toEqual([500, 422, 200]);
+  });
+
+  it("delays responses as scripted", async () => {
+    server = await startMockServer({ responses: [{ delayMs: 500 }], logger: silentLogger });
+
+    await expect(createApi({ requestTimeoutMs: 50 }).publish({ spec: "openapi: 3.1.0" })).rejects.toThrow(
+      "No response within 0.05s",
+    );
+  });
+
+  it("rejects publishes with another API key", async () => {
+    server = await startMockServer({ apiKey: "secret", logger: silentLogger });
+
+    await expect(createApi({ apiKey: "wrong" }).publish({ spec: "openapi: 3.1.0" })).rejects.toBeInstanceOf(
+      StainlessAuthError,
+    );
+    await expect(createApi({ apiKey: "secret" }).publish({ spec: "openapi: 3.1.0" })).resolves.toBeUndefined();
+  });
+
+  it("responds 404 to anything but publishes", async () => {
+    server = await startMockServer({ logger: silentLogger });
+
+    const response = await fetch(`${server.url}/api/other`);
+
+    expect(response.status).toBe(404);
+    expect(server.requests).toEqual([]);
+  });
+
+  it("commits a generated change to the SDK repository after each publish, for RepoManager to pick up", async () => {
+    server = await startMockServer({ sdkRepo: path.join(tempDir, "sdk.git"), commitDelayMs: 0, logger: silentLogger });
+    const api = createApi();
+
+    await api.publish({ spec: "openapi: 3.1.0", branch: "feature" });
+    await server.waitForCommits();
+
+    const repoManager = new RepoManager({
+      sdkRepo: server.sdkRepoUrl as string,
+      branch: "feature",
+      targetDir: path.join(tempDir, "checkout"),
+      lifecycleManager: new LifecycleManager({}, silentLogger),
+      logger: silentLogger,
+    });
+    await repoManager.initializeRepo();
+    const generated = JSON.parse(await fs.readFile(path.join(tempDir, "checkout", MOCK_GENERATED_FILE), "utf-8"));
+    expect(generated).toMatchObject({ publish: 1 });
+
+    await api.publish({ spec: "openapi: 3.0.0", branch: "feature" });
+    const newHash = await repoManager.waitForNewCommit({ timeoutMs: 10_000, pollIntervalMs: 50 });
+
+    const log = await simpleGit(path.join(tempDir, "sdk.git")).log(["feature"]);
+    expect(log.latest?.hash).toBe(newHash);
+    expect(log.all.map((commit) => commit.message)).toEqual([
+      "Generate SDK for publish #2",
+      "Generate SDK for publish #1",
+      "Initial commit",
+    ]);
+  });
+
+  it("creates a branch with its first generated commit, so that waiting from before the publish finds it", async () => {
+    server = await startMockServer({ sdkRepo: path.join(tempDir, "sdk.git"), commitDelayMs: 0, logger: silentLogger });
+    const repoManager = new RepoManager({
+      sdkRepo: server.sdkRepoUrl as string,
+      branch: "new-feature",
+      targetDir: path.join(tempDir, "checkout"),
+      lifecycleManager: new LifecycleManager({}, silentLogger),
+      logger: silentLogger,
+    });
+
+    const baseHash = await repoManager.getRemoteBranchHead();
+    await createApi().publish({ spec: "openapi: 3.1.0", branch: "new-feature" });
+    expect(baseHash).toBeNull();
+
+    await server.waitForCommits();
+    await repoManager.initializeRepo();
+    const newHash = await repoManager.waitForNewCommit({ timeoutMs: 10_000, pollIntervalMs: 50, baseHash });
+
+    const log = await simpleGit(path.join(tempDir, "sdk.git")).log(["new-feature"]);
+    expect(log.latest).toMatchObject({ hash: newHash, message: "Generate SDK for publish #1" });
+  });
+});
+
+describe("parseMockResponses", () => {
+  it("accepts valid responses", () => {
+    const responses = [
+      { status: 503, headers: { "Retry-After": "1" } },
+      { delayMs: 100, body: { ok: true } },
+    ];
+    expect(parseMockResponses(responses)).toEqual(responses);
+  });
+
+  it("rejects invalid responses", () => {
+    expect(() => parseMockResponses({ status: 500 })).toThrow("Invalid mock responses");
+    expect(() => parseMockResponses([{ status: 99 }])).toThrow("Invalid mock responses: 0.status");
+    expect(() => parseMockResponses([{ delay: 100 }])).toThrow("Invalid mock responses");
+  });
+});
@@ -0,0 +1,127 @@
+import mock from "mock-fs";
+import simpleGit from "simple-git";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { StainlessError } from "../StainlessError.js";
+import { getRepoStatus } from "../repo-status.js";
+
+vi.mock("simple-git");
+
+describe("getRepoStatus", () => {
+  let mockGit: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockGit = {
+      revparse: vi
+        .fn()
+        .mockImplementation(async (args: string[]) => (args[0] === "--show-toplevel" ? "/sdks/typescript\n" : "main")),
+      fetch: vi.fn(),
+      getRemotes: vi.fn().mockResolvedValue([{ name: "origin", refs: { fetch: "git@github.com:org/sdk.git" } }]),
+      log: vi.fn().mockResolvedValue({ latest: { hash: "abc1234def", message: "Update SDK" } }),
+      raw: vi.fn().mockResolvedValue("1\t2\n"),
+      status: vi.fn().mockResolvedValue({ files: [] }),
+      stashList: vi.fn().mockResolvedValue({ all: [] }),
+    };
+    (simpleGit as unknown as any).mockReturnValue(mockGit);
+
+    mock({
+      "/sdks/typescript": { ".git": {} },
+      "/sdks/plain": {},
+    });
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("reports a missing directory as not cloned", async () => {
+    const status = await getRepoStatus("/sdks/missing");
+
+    expect(status).toEqual({ targetDir: "/sdks/missing", isRepo: false, dirtyFiles: [], stashes: [] });
+    expect(simpleGit).not.toHaveBeenCalled();
+  });
+
+  it("reports a directory that is not a git repository as not cloned", async () => {
+    mockGit.revparse.mockRejectedValue(new Error("not a git repository"));
+
+    const status = await getRepoStatus("/sdks/plain");
+
+    expect(status.isRepo).toBe(false);
+  });
+
+  it("reports a directory nested inside another repository as not cloned", async () => {
+    mockGit.revparse.mockResolvedValue("/sdks\n");
+
+    const status = await getRepoStatus("/sdks/plain");
+
+    expect(status).toEqual({ targetDir: "/sdks/plain", isRepo: false, dirtyFiles: [], stashes: [] });
+    expect(mockGit.status).not.toHaveBeenCalled();
+  });
+
+  it("reports branch, commit, ahead/behind and origin", async () => {
+    const status = await getRepoStatus("/sdks/typescript");
+
+    expect(status).toEqual({
+      targetDir: "/sdks/typescript",
+      isRepo: true,
+      branch: "main",
+      head: { hash: "abc1234def", message: "Update SDK" },
+      ahead: 1,
+      behind: 2,
+      dirtyFiles: [],
+      stashes: [],
+      originUrl: "git@github.com:org/sdk.git",
+    });
+    expect(mockGit.raw).toHaveBeenCalledWith(["rev-list", "--left-right", "--count", "HEAD...origin/main"]);
+    expect(mockGit.fetch).not.toHaveBeenCalled();
+  });
+
+  it("fetches before comparing when requested", async () => {
+    await getRepoStatus("/sdks/typescript", { fetch: true });
+
+    expect(mockGit.fetch).toHaveBeenCalled();
+  });
+
+  it("leaves ahead/behind undefined when the remote branch is missing", async () => {
+    mockGit.raw.mockRejectedValue(new Error("unknown revision"));
+
+    const status = await getRepoStatus("/sdks/typescript");
+
+    expect(status.ahead).toBeUndefined();
+    expect(status.behind).toBeUndefined();
+  });
+
+  it("lists dirty files and only the stashes created by stainless-tools", async () => {
+    mockGit.status.mockResolvedValue({
+      files: [
+        { index: " ", working_dir: "M", path: "src/index.ts" },
+        { index: "?", working_dir: "?", path: "notes.txt" },
+      ],
+    });
+    mockGit.stashList.mockResolvedValue({
+      all: [
+        { message: "On main: my own work in progress" },
+        { message: "On main: Stashing changes before SDK update" },
+        { message: "On dev: Stashing changes before switching branches" },
+      ],
+    });
+
+    const status = await getRepoStatus("/sdks/typescript");
+
+    expect(status.dirtyFiles).toEqual([" M src/index.ts", "?? notes.txt"]);
+    expect(status.stashes).toEqual([
+      "stash@{1}: On main: Stashing changes before SDK update",
+      "stash@{2}: On dev: Stashing changes before switching branches",
+    ]);
+  });
+
+  it("wraps git errors in a StainlessError", async () => {
+    mockGit.status.mockRejectedValue(new Error("git failed"));
+
+    const error = await getRepoStatus("/sdks/typescript").catch((e) => e);
+
+    expect(error).toBeInstanceOf(StainlessError);
+    expect(error.message).toBe("Failed to read repository status for /sdks/typescript");
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { StainlessError } from "../StainlessError";
+import { assertValidOpenApiSpec, formatSpecValidationIssue, validateOpenApiSpec } from "../spec-validation";
+
+const validSpec = `openapi: 3.1.0
+info:
+  title: Test API
+  version: 1.0.0
+paths:
+  /users:
+    get:
+      responses:
+        "200":
+          description: OK
+`;
+
+describe("validateOpenApiSpec", () => {
+  it("returns no issues for a valid 3.1 specification", async () => {
+    await expect(validateOpenApiSpec("openapi.yaml", validSpec)).resolves.toEqual([]);
+  });
+
+  it("accepts JSON specifications", async () => {
+    const spec = JSON.stringify({ openapi: "3.0.3", info: { title: "Test API", version: "1.0.0" }, paths: {} });
+
+    await expect(validateOpenApiSpec("openapi.json", spec)).resolves.toEqual([]);
+  });
+
+  it("accepts a Buffer", async () => {
+    await expect(validateOpenApiSpec("openapi.yaml", Buffer.from(validSpec))).resolves.toEqual([]);
+  });
+
+  it("reports YAML syntax errors with their line", async () => {
+    const issues = await validateOpenApiSpec("openapi.yaml", "openapi: 3.1.0\ninfo:\n  title: [Test\n");
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ file: "openapi.yaml", pointer: "" });
+    expect(issues[0].line).toBeGreaterThanOrEqual(3);
+  });
+
+  it("reports a missing openapi field", async () => {
+    const issues = await validateOpenApiSpec("openapi.yaml", "swagger: '2.0'\ninfo: {}\n");
+
+    expect(issues).toEqual([
+      { file: "openapi.yaml", line: 1, pointer: "", message: 'Missing the "openapi" version field' },
+    ]);
+  });
+
+  it("rejects versions other than 3.0 and 3.1", async () => {
+    const issues = await validateOpenApiSpec("openapi.yaml", "info: {}\nopenapi: 3.2.0\n");
+
+    expect(issues).toEqual([
+      {
+        file: "openapi.yaml",
+        line: 2,
+        pointer: "/openapi",
+        message: 'Unsupported OpenAPI version "3.2.0", expected 3.0.x or 3.1.x',
+      },
+    ]);
+  });
+
+  it("reports schema violations with their line and JSON pointer", async () => {
+    const spec = `openapi: 3.0.3
+info:
+  title: Test API
+paths:
+  /users:
+    get:
+      responses:
+        "200":
+          content: {}
+      summmary: Typo
+`;
+
+    const issues = await validateOpenApiSpec("openapi.yaml", spec);
+
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        { file: "openapi.yaml", line: 2, pointer: "/info", message: "must have required property 'version'" },
+        { file: "openapi.yaml", line: 10, pointer: "/paths/~1users/get/summmary", message: "is not allowed here" },
+        {
+          file: "openapi.yaml",
+          line: 8,
+          pointer: "/paths/~1users/get/responses/200",
+          message: "must have required property 'description'",
+        },
+      ]),
+    );
+    expect(issues).toHaveLength(3);
+  });
+
+  it("does not report the reference branch of a failing oneOf", async () => {
+    const spec = `openapi: 3.0.3
+info:
+  title: Test API
+  version: 1.0.0
+paths: {}
+components:
+  schemas:
+    User:
+      type: strin
+`;
+
+    const issues = await validateOpenApiSpec("openapi.yaml", spec);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ line: 9, pointer: "/components/schemas/User/type" });
+    expect(issues[0].message).toContain('"string"');
+  });
+
+  it("throws if the file cannot be read", async () => {
+    await expect(validateOpenApiSpec("/does/not/exist.yaml")).rejects.toThrow(
+      "Failed to read OpenAPI file (/does/not/exist.yaml)",
+    );
+  });
+});
+
+describe("formatSpecValidationIssue", () => {
+  it("formats the file, line, pointer and message", () => {
+    expect(
+      formatSpecValidationIssue({ file: "openapi.yaml", line: 2, pointer: "/info", message: "must be object" }),
+    ).toBe("openapi.yaml:2 #/info: must be object");
+  });
+
+  it("omits the line if it is unknown", () => {
+    expect(formatSpecValidationIssue({ file: "openapi.yaml", pointer: "", message: "Broken" })).toBe(
+      "openapi.yaml #: Broken",
+    );
+  });
+});
+
+describe("assertValidOpenApiSpec", () => {
+  it("resolves for a valid specification", async () => {
+    await expect(assertValidOpenApiSpec("openapi.yaml", validSpec)).resolves.toBeUndefined();
+  });
+
+  it("throws a StainlessError listing every issue", async () => {
+    const error = await assertValidOpenApiSpec("openapi.yaml", "openapi: 3.1.0\ninfo: {}\n").catch((e) => e);
+
+    expect(error).toBeInstanceOf(StainlessError);
+    expect(error.message).toContain("Invalid OpenAPI specification (openapi.yaml):");
+    expect(error.message).toContain("openapi.yaml:2 #/info: must have required property 'title'");
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "vitest";
+import { ConfigError } from "../StainlessError.js";
+import { getBranchName, getTargetDir, getTemplateVariableNames, renderTemplate } from "../template.js";
+
+describe("renderTemplate", () => {
+  test("replaces every occurrence of a placeholder", () => {
+    expect(renderTemplate("{sdk}/{sdk}-{env}", { sdk: "typescript", env: "prod" })).toBe("typescript/typescript-prod");
+  });
+
+  test("applies filters in order", () => {
+    const variables = { branch: "Feature/Add Login" };
+    expect(renderTemplate("{branch|slug}", variables)).toBe("feature-add-login");
+    expect(renderTemplate("{branch|last}", variables)).toBe("Add Login");
+    expect(renderTemplate("{branch|last|slug}", variables)).toBe("add-login");
+    expect(renderTemplate("{ branch | upper }", variables)).toBe("FEATURE/ADD LOGIN");
+  });
+
+  test("reports unknown placeholders and filters", () => {
+    expect(() =>
+      renderTemplate("./{sdl}/{foo}/{sdk|slg}", { sdk: "typescript" }, { label: "target directory" }),
+    ).toThrow(
+      [
+        'Invalid target directory "./{sdl}/{foo}/{sdk|slg}":',
+        "  Unknown placeholder {sdl}. Did you mean {sdk}?",
+        "  Unknown placeholder {foo}. Available placeholders: {sdk}",
+        '  Unknown filter "slg" in {sdk|slg}. Did you mean "slug"?',
+      ].join("\n"),
+    );
+  });
+
+  test("throws a ConfigError, so that invalid templates exit with the configuration exit code", () => {
+    expect(() => renderTemplate("{foo}", { sdk: "typescript" })).toThrow(ConfigError);
+  });
+
+  test("reports placeholders without a value", () => {
+    expect(() => renderTemplate("{project}/{project}", { project: undefined })).toThrow(
+      new ConfigError('Invalid template "{project}/{project}":\n  {project} has no value'),
+    );
+  });
+});
+
+describe("getTemplateVariableNames", () => {
+  test("returns the variables a template uses", () => {
+    expect(getTemplateVariableNames("./{sdk}/{branch|slug}/{sdk}")).toEqual(["sdk", "branch"]);
+    expect(getTemplateVariableNames("./sdks")).toEqual([]);
+  });
+});
+
+describe("getTargetDir", () => {
+  const options = {
+    sdkName: "typescript",
+    env: "staging",
+    branch: "feature/login",
+    projectName: "acme",
+    user: "alice",
+    hostBranch: "main",
+    date: new Date(2024, 0, 5),
+  };
+
+  test("substitutes every variable", () => {
+    expect(getTargetDir({ ...options, targetDir: "./{project}/{env}/{sdk}/{user}-{hostBranch}-{date}/{sdk}" })).toBe(
+      "./acme/staging/typescript/alice-main-2024-01-05/typescript",
+    );
+  });
+
+  test("converts forward slashes in values to hyphens after filters", () => {
+    expect(getTargetDir({ ...options, targetDir: "./{branch}" })).toBe("./feature-login");
+    expect(getTargetDir({ ...options, targetDir: "./{branch|last}" })).toBe("./login");
+  });
+
+  test("defaults the user to the current user", () => {
+    expect(getTargetDir({ ...options, user: undefined, targetDir: "./{user}" })).not.toBe("./{user}");
+  });
+
+  test("reports unknown placeholders", () => {
+    expect(() => getTargetDir({ ...options, targetDir: "./{sdk}/{branh}" })).toThrow(
+      'Invalid target directory "./{sdk}/{branh}":\n  Unknown placeholder {branh}. Did you mean {branch}?',
+    );
+  });
+});
+
+describe("getBranchName", () => {
+  const options = { sdkName: "typescript", env: "staging", projectName: "acme", date: new Date(2024, 0, 5) };
+
+  test("renders the template as a valid branch name", () => {
+    expect(
+      getBranchName({
+        ...options,
+        branchTemplate: "{user}/{hostBranch}",
+        user: "Jane Doe",
+        hostBranch: "feature/login",
+      }),
+    ).toBe("Jane-Doe/feature/login");
+    expect(getBranchName({ ...options, branchTemplate: "{user|slug}/{sdk}-{date}", user: "Jane Doe" })).toBe(
+      "jane-doe/typescript-2024-01-05",
+    );
+  });
+
+  test("does not support the {branch} placeholder", () => {
+    expect(() => getBranchName({ ...options, branchTemplate: "{branch}" })).toThrow(
+      'Invalid branch template "{branch}":\n  Unknown placeholder {branch}.',
+    );
+  });
+
+  test("reports templates that do not produce a valid branch name", () => {
+    expect(() => getBranchName({ ...options, branchTemplate: "{user}", user: "..." })).toThrow(
+      new ConfigError('Branch template "{user}" produced "...", which is not a valid branch name'),
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test } from "vitest";
-import { isValidGitUrl } from "../utils.js";
+import { isSameRepository, isValidGitUrl, sanitizeBranchName, suggestKey } from "../utils.js";
 
 describe("isValidGitUrl", () => {
   describe("SSH URLs with protocol", () => {
@@ -42,6 +42,19 @@ describe("isValidGitUrl", () => {
     });
   });
 
+  describe("Local file URLs", () => {
+    test("accepts file URLs of local repositories", () => {
+      expect(isValidGitUrl("file:///tmp/mock/sdk.git")).toBe(true);
+      expect(isValidGitUrl("file:///home/user/repos/sdk")).toBe(true);
+    });
+
+    test("rejects file URLs without a path or with a host", () => {
+      expect(isValidGitUrl("file://")).toBe(false);
+      expect(isValidGitUrl("file:///")).toBe(false);
+      expect(isValidGitUrl("file://server/sdk.git")).toBe(false);
+    });
+  });
+
   describe("Invalid URLs", () => {
     test("rejects malformed URLs", () => {
       expect(isValidGitUrl("")).toBe(false);
@@ -52,3 +65,55 @@ describe("isValidGitUrl", () => {
     });
   });
 });
+
+describe("isSameRepository", () => {
+  test("matches the same repository over different protocols", () => {
+    expect(isSameRepository("git@github.com:org/sdk.git", "https://github.com/org/sdk.git")).toBe(true);
+    expect(isSameRepository("git@github.com:org/sdk.git", "git@github.com:org/other.git")).toBe(false);
+  });
+
+  test("matches identical URLs whose path has no owner/repo form", () => {
+    expect(isSameRepository("file:///tmp/tmp.x1/sdk.git", "file:///tmp/tmp.x1/sdk.git")).toBe(true);
+  });
+});
+
+describe("suggestKey", () => {
+  test("suggests keys that only differ in case", () => {
+    expect(suggestKey("lifeCycle", ["stainlessSdkRepos", "lifecycle", "defaults"])).toBe("lifecycle");
+  });
+
+  test("suggests the closest key", () => {
+    expect(suggestKey("branh", ["branch", "brand"])).toBe("branch");
+    expect(suggestKey("opnApiFile", ["openApiFile", "targetDir"])).toBe("openApiFile");
+  });
+
+  test("does not suggest keys that are too different", () => {
+    expect(suggestKey("foo", ["branch", "targetDir"])).toBeUndefined();
+  });
+});
+
+describe("sanitizeBranchName", () => {
+  test("keeps valid branch names", () => {
+    expect(sanitizeBranchName("alice/feature/login")).toBe("alice/feature/login");
+    expect(sanitizeBranchName("release-1.2")).toBe("release-1.2");
+  });
+
+  test("replaces characters git forbids with hyphens", () => {
+    expect(sanitizeBranchName("Jane Doe/fix: ~bug^ [wip?")).toBe("Jane-Doe/fix-bug-wip-");
+    expect(sanitizeBranchName("a\\b*c@{d")).toBe("a-b-c-d");
+  });
+
+  test("collapses consecutive dots and slashes", () => {
+    expect(sanitizeBranchName("a..b//c")).toBe("a.b/c");
+  });
+
+  test("removes leading and trailing dots, slashes, hyphens and .lock suffixes", () => {
+    expect(sanitizeBranchName("/-alice/.hidden/main.lock/")).toBe("alice/hidden/main");
+    expect(sanitizeBranchName("feature.")).toBe("feature");
+  });
+
+  test("returns an empty string when nothing valid is left", () => {
+    expect(sanitizeBranchName("@")).toBe("");
+    expect(sanitizeBranchName("/./")).toBe("");
+  });
+});
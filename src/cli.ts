@@ -8,8 +8,15 @@
 
 import { config } from "@dotenvx/dotenvx";
 import { Command } from "commander";
+import { createConfigCommand } from "./cli/commands/config.js";
+import { createDoctorCommand } from "./cli/commands/doctor.js";
 import { createGenerateCommand } from "./cli/commands/generate.js";
+import { createInitCommand } from "./cli/commands/init.js";
+import { createMigrateConfigCommand } from "./cli/commands/migrate-config.js";
+import { createMockServerCommand } from "./cli/commands/mock-server.js";
 import { createPublishSpecsCommand } from "./cli/commands/publish-specs.js";
+import { createStatusCommand } from "./cli/commands/status.js";
+import { createValidateSpecCommand } from "./cli/commands/validate-spec.js";
 
 config({
   quiet: true,
@@ -32,6 +39,27 @@ program.addCommand(createGenerateCommand());
 // Add the publish-specs command
 program.addCommand(createPublishSpecsCommand());
 
+// Add the status command
+program.addCommand(createStatusCommand());
+
+// Add the init command
+program.addCommand(createInitCommand());
+
+// Add the doctor command
+program.addCommand(createDoctorCommand());
+
+// Add the validate-spec command
+program.addCommand(createValidateSpecCommand());
+
+// Add the config command
+program.addCommand(createConfigCommand());
+
+// Add the migrate-config command
+program.addCommand(createMigrateConfigCommand());
+
+// Add the mock-server command
+program.addCommand(createMockServerCommand());
+
 // Only parse arguments when running as the main module
 if (require.main === module) {
   program.parse();
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import {
+  ConfigError,
+  GitOperationError,
+  LifecycleHookError,
+  StainlessApiError,
+  StainlessAuthError,
+  StainlessError,
+} from "../../StainlessError.js";
+import { EXIT_CODES, getExitCode } from "../exit-codes.js";
+
+describe("getExitCode", () => {
+  it.each([
+    [new ConfigError("No configuration file found"), EXIT_CODES.config],
+    [new StainlessAuthError("Stainless API key is required"), EXIT_CODES.auth],
+    [new StainlessApiError("API Error (HTTP 500)", { status: 500 }), EXIT_CODES.api],
+    [new GitOperationError("Failed to pull changes"), EXIT_CODES.git],
+    [
+      new LifecycleHookError("Failed to execute postClone command: npm install", {
+        hook: "postClone",
+        command: "npm install",
+        exitCode: 1,
+      }),
+      EXIT_CODES.lifecycleHook,
+    ],
+    [new StainlessError("--timeout can only be used with --once"), EXIT_CODES.failure],
+    [new Error("Boom"), EXIT_CODES.failure],
+    ["Boom", EXIT_CODES.failure],
+  ])("maps %s to %i", (error, exitCode) => {
+    expect(getExitCode(error)).toBe(exitCode);
+  });
+
+  it("gives every kind of error a distinct exit code", () => {
+    const codes = Object.values(EXIT_CODES);
+    expect(new Set(codes).size).toBe(codes.length);
+  });
+});
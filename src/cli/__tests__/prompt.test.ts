@@ -0,0 +1,96 @@
+import { PassThrough } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Prompter } from "../prompt.js";
+
+describe("Prompter", () => {
+  let input: PassThrough;
+  let output: PassThrough;
+  let prompter: Prompter;
+  let answers: string[];
+  let isWaiting: boolean;
+
+  /**
+   * Sends the next answer once a question is waiting for one
+   */
+  const sendAnswer = () => {
+    if (isWaiting && answers.length > 0) {
+      isWaiting = false;
+      const line = answers.shift();
+      setImmediate(() => input.write(`${line}\n`));
+    }
+  };
+
+  /**
+   * Answers the next questions with the given lines, one line per question asked
+   */
+  const answer = (...lines: string[]) => {
+    answers.push(...lines);
+    sendAnswer();
+  };
+
+  beforeEach(() => {
+    input = new PassThrough();
+    output = new PassThrough();
+    answers = [];
+    isWaiting = false;
+    output.on("data", (chunk) => {
+      if (chunk.toString().endsWith(": ")) {
+        isWaiting = true;
+        sendAnswer();
+      }
+    });
+    prompter = new Prompter(input, output);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    prompter.close();
+    vi.restoreAllMocks();
+  });
+
+  it("returns the trimmed answer", async () => {
+    const result = prompter.ask("Name");
+    answer("  my-project  ");
+    expect(await result).toBe("my-project");
+  });
+
+  it("falls back to the default value", async () => {
+    const result = prompter.ask("Name", { defaultValue: "default" });
+    answer("");
+    expect(await result).toBe("default");
+  });
+
+  it("repeats required questions until answered", async () => {
+    const result = prompter.ask("Name", { required: true });
+    answer("", "value");
+    expect(await result).toBe("value");
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining("A value is required."));
+  });
+
+  it("repeats the question until the answer is valid", async () => {
+    const result = prompter.ask("Number", { validate: (value) => (/^\d+$/.test(value) ? undefined : "Not a number") });
+    answer("abc", "42");
+    expect(await result).toBe("42");
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining("Not a number"));
+  });
+
+  it("confirms yes / no questions", async () => {
+    const yes = prompter.confirm("Continue?");
+    answer("y");
+    expect(await yes).toBe(true);
+
+    const fallback = prompter.confirm("Continue?", true);
+    answer("");
+    expect(await fallback).toBe(true);
+
+    const no = prompter.confirm("Continue?", true);
+    answer("no");
+    expect(await no).toBe(false);
+  });
+
+  it("only accepts one of the choices", async () => {
+    const result = prompter.select("Format", ["js", "json"] as const, "js");
+    answer("xml", "json");
+    expect(await result).toBe("json");
+  });
+});
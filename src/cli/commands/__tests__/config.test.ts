@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getConfigJsonSchema } from "../../../config-json-schema.js";
+import { loadConfig } from "../../../config.js";
+import { configResolveAction, configSchemaAction, createConfigCommand } from "../config.js";
+
+vi.mock("../../../config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../config.js")>()),
+  loadConfig: vi.fn(),
+}));
+
+const mockConfig = {
+  stainlessSdkRepos: {
+    typescript: {
+      staging: "git@github.com:org/typescript-sdk-staging.git",
+      prod: "git@github.com:org/typescript-sdk.git",
+    },
+  },
+  defaults: {
+    branch: "main",
+    targetDir: "./sdks/{sdk}-{env}",
+    openApiFile: "./openapi.yaml",
+    projectName: "my-project",
+  },
+};
+
+describe("config command", () => {
+  let output: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    output = "";
+    vi.spyOn(console, "log").mockImplementation((...args) => {
+      output += `${args.join(" ")}\n`;
+    });
+    vi.spyOn(console, "error").mockImplementation((...args) => {
+      output += `${args.join(" ")}\n`;
+    });
+    vi.spyOn(process, "cwd").mockReturnValue("/project");
+    vi.mocked(loadConfig).mockResolvedValue(mockConfig);
+    vi.stubEnv("STAINLESS_SDK_BRANCH", "");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it("has a resolve subcommand", () => {
+    const command = createConfigCommand();
+    const resolve = command.commands.find((cmd) => cmd.name() === "resolve");
+
+    expect(command.name()).toBe("config");
+    expect(resolve?.description()).toBe("Show the options an SDK resolves to and where each of them came from");
+    expect(resolve?.registeredArguments[0].name()).toBe("sdk-name");
+  });
+
+  describe("schema", () => {
+    it("prints the JSON Schema of the configuration", () => {
+      const exitCode = configSchemaAction();
+
+      expect(exitCode).toBe(0);
+      expect(JSON.parse(output)).toEqual(getConfigJsonSchema());
+    });
+  });
+
+  describe("resolve", () => {
+    it("prints every resolved option with its source", async () => {
+      const exitCode = await configResolveAction("typescript", { prod: true, "guess-config": true });
+
+      expect(exitCode).toBe(0);
+      expect(output).toContain("Resolved options for typescript (prod):");
+      expect(output).toMatch(/Branch\s+main\s+.*from defaults\.branch in config/);
+      expect(output).toMatch(
+        /Target directory\s+\/project\/sdks\/typescript-prod\s+.*from defaults\.targetDir in config \(\.\/sdks\/\{sdk\}-\{env\}\)/,
+      );
+      expect(output).toMatch(/OpenAPI file\s+\/project\/openapi\.yaml\s+.*from defaults\.openApiFile in config/);
+      expect(output).toMatch(
+        /Stainless config file\s+\(not set\)\s+.*not set by --stainless-config-file, stainlessSdkRepos\.typescript\.stainlessConfigFile or defaults\.stainlessConfigFile/,
+      );
+      expect(output).toMatch(/Project name\s+my-project\s+.*from defaults\.projectName in config/);
+      expect(output).toMatch(/Guess config\s+true\s+.*from --guess-config flag/);
+      expect(output).toMatch(
+        /SDK repository\s+git@github\.com:org\/typescript-sdk\.git\s+.*from stainlessSdkRepos\.typescript\.prod in config \(--prod flag\)/,
+      );
+    });
+
+    it("prefers the environment variable over the config default for the branch", async () => {
+      vi.stubEnv("STAINLESS_SDK_BRANCH", "feature/env");
+
+      await configResolveAction("typescript", {});
+
+      expect(output).toMatch(/Branch\s+feature\/env\s+.*from STAINLESS_SDK_BRANCH environment variable/);
+    });
+
+    it("prefers the SDK's overrides over the config defaults", async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        ...mockConfig,
+        stainlessSdkRepos: {
+          typescript: {
+            ...mockConfig.stainlessSdkRepos.typescript,
+            branch: "next",
+            projectName: "typescript-project",
+            openApiFile: "./typescript/openapi.yaml",
+          },
+        },
+      });
+
+      await configResolveAction("typescript", { projectName: "cli-project" });
+
+      expect(output).toMatch(/Branch\s+next\s+.*from stainlessSdkRepos\.typescript\.branch in config/);
+      expect(output).toMatch(
+        /OpenAPI file\s+\/project\/typescript\/openapi\.yaml\s+.*from stainlessSdkRepos\.typescript\.openApiFile in config/,
+      );
+      expect(output).toMatch(/Project name\s+cli-project\s+.*from --project-name flag/);
+      expect(output).toMatch(/Target directory\s+\/project\/sdks\/typescript-staging\s+.*from defaults\.targetDir/);
+    });
+
+    it("resolves the poll interval and file watch timings", async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        ...mockConfig,
+        stainlessSdkRepos: {
+          typescript: { ...mockConfig.stainlessSdkRepos.typescript, debounceMs: 200 },
+        },
+        defaults: { ...mockConfig.defaults, pollIntervalMs: 2000, debounceMs: 500 },
+      });
+
+      await configResolveAction("typescript", { stabilityThreshold: "0" });
+
+      expect(output).toMatch(/Poll interval \(ms\)\s+2000\s+.*from defaults\.pollIntervalMs in config/);
+      expect(output).toMatch(/Spec debounce \(ms\)\s+200\s+.*from stainlessSdkRepos\.typescript\.debounceMs in config/);
+      expect(output).toMatch(/Write stability \(ms\)\s+0\s+.*from --stability-threshold flag/);
+    });
+
+    it("rejects invalid timings", async () => {
+      const exitCode = await configResolveAction("typescript", { pollInterval: "0" });
+
+      expect(exitCode).toBe(1);
+      expect(output).toContain('Invalid --poll-interval "0": expected a positive whole number of milliseconds');
+    });
+
+    it("reports the environment selected with --env", async () => {
+      await configResolveAction("typescript", { env: "prod" });
+
+      expect(output).toContain("Resolved options for typescript (prod):");
+      expect(output).toMatch(/from stainlessSdkRepos\.typescript\.prod in config \(--env flag\)/);
+    });
+
+    it("reports a generated branch when none is configured", async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        ...mockConfig,
+        defaults: { ...mockConfig.defaults, branch: undefined, targetDir: "/does/not/exist/{sdk}" },
+      });
+
+      await configResolveAction("typescript", {});
+
+      expect(output).toMatch(/Branch\s+cli\/[0-9a-f]{8}\s+.*from generated \(no branch configured\)/);
+    });
+
+    it("derives the branch from the branch template when none is configured", async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        ...mockConfig,
+        defaults: {
+          ...mockConfig.defaults,
+          branch: undefined,
+          branchTemplate: "{project}/{sdk} dev..",
+          targetDir: "/does/not/exist/{sdk}",
+        },
+      });
+
+      await configResolveAction("typescript", {});
+
+      expect(output).toMatch(
+        /Branch\s+my-project\/typescript-dev\s+.*from defaults\.branchTemplate in config \(\{project\}\/\{sdk\} dev\.\.\)/,
+      );
+    });
+
+    it("reports branch templates that use variables without a value", async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        ...mockConfig,
+        defaults: {
+          ...mockConfig.defaults,
+          branch: undefined,
+          branchTemplate: "{user}/{hostBranch}",
+          targetDir: "/does/not/exist/{sdk}",
+        },
+      });
+
+      const exitCode = await configResolveAction("typescript", {});
+
+      expect(exitCode).toBe(2);
+      expect(output).toContain('Invalid branch template "{user}/{hostBranch}":\n  {hostBranch} has no value');
+    });
+
+    it("reports the options that come from the selected profile", async () => {
+      const config = {
+        ...mockConfig,
+        profiles: { ci: { env: "prod", defaults: { branch: "release" } } },
+      };
+      // loadConfig merges the defaults of the profile
+      vi.mocked(loadConfig).mockResolvedValue({ ...config, defaults: { ...config.defaults, branch: "release" } });
+      vi.stubEnv("STAINLESS_TOOLS_PROFILE", "ci");
+
+      await configResolveAction("typescript", {});
+
+      expect(loadConfig).toHaveBeenCalledWith(undefined, "ci");
+      expect(output).toContain("Resolved options for typescript (prod):");
+      expect(output).toMatch(/Branch\s+release\s+.*from profiles\.ci\.defaults\.branch in config/);
+      expect(output).toMatch(/Project name\s+my-project\s+.*from defaults\.projectName in config/);
+      expect(output).toMatch(/from stainlessSdkRepos\.typescript\.prod in config \(profiles\.ci\.env in config\)/);
+      expect(output).toMatch(/Profile\s+ci\s+.*from STAINLESS_TOOLS_PROFILE environment variable/);
+    });
+
+    it("prefers --env over the environment of the profile", async () => {
+      vi.mocked(loadConfig).mockResolvedValue({ ...mockConfig, profiles: { ci: { env: "prod" } } });
+
+      await configResolveAction("typescript", { profile: "ci", env: "staging" });
+
+      expect(output).toContain("Resolved options for typescript (staging):");
+      expect(output).toMatch(/Profile\s+ci\s+.*from --profile flag/);
+    });
+
+    it("outputs JSON with --json", async () => {
+      const exitCode = await configResolveAction("typescript", { json: true, branch: "feature" });
+      const result = JSON.parse(output);
+
+      expect(exitCode).toBe(0);
+      expect(result.sdkName).toBe("typescript");
+      expect(result.env).toBe("staging");
+      expect(result.options.branch).toEqual({ value: "feature", source: "--branch flag" });
+      expect(result.options.stainlessConfigFile.value).toBeUndefined();
+    });
+
+    it("fails for an unknown SDK", async () => {
+      const exitCode = await configResolveAction("python", {});
+
+      expect(exitCode).toBe(2);
+      expect(output).toContain('SDK "python" not found in configuration');
+    });
+  });
+});
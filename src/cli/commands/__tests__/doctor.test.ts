@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runDoctorChecks } from "../../../doctor.js";
+import { createDoctorCommand, doctorAction, formatDoctorTable } from "../doctor.js";
+
+vi.mock("../../../doctor.js");
+
+const mockSpinner = {
+  start: vi.fn(() => mockSpinner),
+  stop: vi.fn(() => mockSpinner),
+  fail: vi.fn(() => mockSpinner),
+  text: "",
+};
+
+vi.mock("ora", () => ({
+  default: vi.fn(() => mockSpinner),
+}));
+
+describe("doctor command", () => {
+  let output: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    output = "";
+    vi.spyOn(console, "log").mockImplementation((...args) => {
+      output += `${args.join(" ")}\n`;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it("has the correct name, description and options", () => {
+    const command = createDoctorCommand();
+
+    expect(command.name()).toBe("doctor");
+    expect(command.description()).toBe("Diagnose environment, configuration and git access problems");
+    expect(command.options.map((option) => option.long)).toEqual([
+      "--branch",
+      "--target-dir",
+      "--open-api-file",
+      "--config",
+      "--stainless-config-file",
+      "--env",
+      "--prod",
+      "--profile",
+    ]);
+  });
+
+  it("passes the options to the checks", async () => {
+    vi.mocked(runDoctorChecks).mockResolvedValue([]);
+
+    await doctorAction(["typescript"], {
+      config: "./custom.config.js",
+      branch: "main",
+      "open-api-file": "./api.yml",
+      prod: true,
+    });
+
+    expect(runDoctorChecks).toHaveBeenCalledWith({
+      configPath: "./custom.config.js",
+      sdkNames: ["typescript"],
+      branch: "main",
+      targetDir: undefined,
+      openApiFile: "./api.yml",
+      stainlessConfigFile: undefined,
+      env: "prod",
+    });
+  });
+
+  it("leaves the environment to the profile when neither --env nor --prod is given", async () => {
+    vi.mocked(runDoctorChecks).mockResolvedValue([]);
+    vi.stubEnv("STAINLESS_TOOLS_PROFILE", "ci");
+
+    await doctorAction([], {});
+
+    expect(runDoctorChecks).toHaveBeenCalledWith(expect.objectContaining({ env: undefined, profile: "ci" }));
+  });
+
+  it("prints a table and returns 0 when nothing failed", async () => {
+    vi.mocked(runDoctorChecks).mockResolvedValue([
+      { scope: "general", name: "git", status: "pass", message: "git version 2.45.0" },
+      { scope: "typescript", name: "postUpdate hook", status: "warn", message: "Something to look at" },
+    ]);
+
+    const exitCode = await doctorAction([], {});
+
+    expect(exitCode).toBe(0);
+    expect(output).toContain("git version 2.45.0");
+    expect(output).toContain("postUpdate hook");
+    expect(output).toContain("1 passed, 1 warning(s), 0 failed");
+  });
+
+  it("returns 1 when a check failed", async () => {
+    vi.mocked(runDoctorChecks).mockResolvedValue([
+      { scope: "general", name: "STAINLESS_API_KEY", status: "fail", message: "Not set" },
+    ]);
+
+    const exitCode = await doctorAction([], {});
+
+    expect(exitCode).toBe(1);
+    expect(output).toContain("0 passed, 0 warning(s), 1 failed");
+  });
+
+  it("fails the spinner on unexpected errors", async () => {
+    vi.mocked(runDoctorChecks).mockRejectedValue(new Error("Boom"));
+
+    const exitCode = await doctorAction([], {});
+
+    expect(exitCode).toBe(1);
+    expect(mockSpinner.fail).toHaveBeenCalledWith("Boom");
+  });
+
+  describe("formatDoctorTable", () => {
+    it("aligns the columns", () => {
+      const table = formatDoctorTable([
+        { scope: "general", name: "git", status: "pass", message: "ok" },
+        { scope: "typescript", name: "Target directory", status: "fail", message: "not writable" },
+      ]);
+
+      const lines = table.split("\n");
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toContain("SCOPE       CHECK             DETAILS");
+      expect(lines[1]).toContain("general     git               ok");
+      expect(lines[2]).toContain("typescript  Target directory  not writable");
+    });
+  });
+});
@@ -2,12 +2,22 @@ import { EventEmitter } from "node:events";
 import type * as path from "node:path";
 import mock from "mock-fs";
 import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PublishHistory } from "../../../PublishHistory";
+import { StainlessError } from "../../../StainlessError";
 import { loadConfig } from "../../../config";
-import { generateAndWatchSDK } from "../../../generate-and-watch-sdk";
+import {
+  generateAndWatchSDK,
+  generateAndWatchSDKs,
+  generateSDKOnce,
+  generateSDKsOnce,
+} from "../../../generate-and-watch-sdk";
 import { createGenerateCommand, generateAction } from "../generate";
 
 // Mock dependencies
-vi.mock("../../../config");
+vi.mock("../../../config", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../config")>()),
+  loadConfig: vi.fn(),
+}));
 vi.mock("../../../generate-and-watch-sdk");
 
 // Create a mock process using EventEmitter
@@ -98,7 +108,11 @@ describe("generate command", () => {
         { flags: "-s, --stainless-config-file <file>", description: "Path to Stainless-specific configuration" },
         { flags: "-p, --project-name <name>", description: "Name of the project in Stainless" },
         { flags: "-g, --guess-config", description: "Use AI to guess configuration" },
-        { flags: "--prod", description: "Use production URLs instead of staging" },
+        {
+          flags: "-e, --env <name>",
+          description: "Environment whose SDK repository URLs to use (default: staging)",
+        },
+        { flags: "--prod", description: "Use production URLs instead of staging (alias for --env prod)" },
       ];
 
       expectedOptions.forEach((expected) => {
@@ -113,9 +127,43 @@ describe("generate command", () => {
       const sdkNameArg = command.registeredArguments[0];
 
       expect(command.registeredArguments).toHaveLength(1);
-      expect(sdkNameArg.name()).toBe("sdk-name");
-      expect(sdkNameArg.description).toBe("Name of the SDK to generate");
-      expect(sdkNameArg.required).toBe(true);
+      expect(sdkNameArg.name()).toBe("sdk-names");
+      expect(sdkNameArg.description).toBe("Names of the SDKs to generate");
+      expect(sdkNameArg.required).toBe(false);
+      expect(sdkNameArg.variadic).toBe(true);
+    });
+
+    it("has the --all option", () => {
+      const command = createGenerateCommand();
+      const option = command.options.find((opt) => opt.long === "--all");
+
+      expect(option).toBeDefined();
+      expect(option?.description).toBe("Generate every SDK defined in the configuration");
+    });
+
+    it("has the --json option", () => {
+      const command = createGenerateCommand();
+      const option = command.options.find((opt) => opt.long === "--json");
+
+      expect(option?.description).toBe("Output newline-delimited JSON events instead of human-readable output");
+    });
+
+    it("has the --explain option", () => {
+      const command = createGenerateCommand();
+      const option = command.options.find((opt) => opt.long === "--explain");
+
+      expect(option?.description).toBe("Show where each resolved option came from");
+    });
+
+    it("has the --once and --timeout options", () => {
+      const command = createGenerateCommand();
+
+      expect(command.options.find((opt) => opt.long === "--once")?.description).toBe(
+        "Exit after the SDK has been updated once instead of watching (for CI)",
+      );
+      expect(command.options.find((opt) => opt.long === "--timeout")?.description).toBe(
+        "Seconds to wait for the SDK to update with --once (default: 600)",
+      );
     });
   });
 
@@ -246,6 +294,9 @@ describe("generate command", () => {
     const exitCode = await generateAction("test-sdk", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).toHaveBeenCalledWith({
@@ -257,6 +308,8 @@ describe("generate command", () => {
           postUpdate: "npm run build",
         },
       },
+      logger: console,
+      publishHistory: expect.any(PublishHistory),
       openApiFile: "/mock/test/dir/specs/openapi.json",
       sdkName: "test-sdk",
       sdkRepo: defaultMockConfig.stainlessSdkRepos["test-sdk"].staging,
@@ -274,6 +327,9 @@ describe("generate command", () => {
       stainlessConfigFile: "/mock/test/dir/stainless-tools.config.json",
       targetDir: "/mock/test/dir/sdks/test-sdk",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
     expect(exitCode).toBe(0);
   });
@@ -286,12 +342,17 @@ describe("generate command", () => {
       targetDir: "./custom-dir",
       "open-api-file": "./custom-openapi.json",
       projectName: "custom-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).toHaveBeenCalledWith({
       branch: "custom-branch",
       env: "staging",
       lifecycle: undefined,
+      logger: console,
+      publishHistory: expect.any(PublishHistory),
       openApiFile: "/mock/test/dir/custom-openapi.json",
       sdkName: "other-sdk",
       sdkRepo: mockConfigWithoutDefaults.stainlessSdkRepos["other-sdk"].staging,
@@ -309,6 +370,9 @@ describe("generate command", () => {
       stainlessConfigFile: undefined,
       targetDir: "/mock/test/dir/custom-dir",
       projectName: "custom-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
     expect(exitCode).toBe(0);
   });
@@ -319,12 +383,17 @@ describe("generate command", () => {
     const exitCode = await generateAction("test-sdk", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).toHaveBeenCalledWith({
       branch: "main",
       env: "staging",
       lifecycle: undefined,
+      logger: console,
+      publishHistory: expect.any(PublishHistory),
       openApiFile: "/mock/test/dir/specs/openapi.json",
       sdkName: "test-sdk",
       sdkRepo: mockConfigWithPartialDefaults.stainlessSdkRepos["test-sdk"].staging,
@@ -342,6 +411,9 @@ describe("generate command", () => {
       stainlessConfigFile: undefined,
       targetDir: "/mock/test/dir/sdks/test-sdk",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
     expect(exitCode).toBe(0);
   });
@@ -352,6 +424,9 @@ describe("generate command", () => {
     const exitCode = await generateAction("test-sdk", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(mockSpinner.fail).toHaveBeenCalledWith("Test error");
@@ -370,6 +445,9 @@ describe("generate command", () => {
     await generateAction("test-sdk", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     // Get the SIGINT handler that was registered
@@ -377,9 +455,11 @@ describe("generate command", () => {
     if (!sigintHandler) {
       throw new Error("SIGINT handler not found");
     }
+    // Still registered while watching
+    expect(mockProcess.off).not.toHaveBeenCalledWith("SIGINT", sigintHandler);
 
     // Call the handler directly
-    await sigintHandler();
+    await sigintHandler("SIGINT");
 
     expect(mockSpinner.stop).toHaveBeenCalled();
     expect(mockCleanup).toHaveBeenCalled();
@@ -394,6 +474,9 @@ describe("generate command", () => {
     const exitCode = await generateAction("test-sdk", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).toHaveBeenCalledWith(
@@ -410,11 +493,43 @@ describe("generate command", () => {
     expect(exitCode).toBe(0);
   });
 
+  it("reloads the options of the SDK when watching the configuration file", async () => {
+    const exitCode = await generateAction("test-sdk", {
+      config: "./stainless-tools.config.json",
+      projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
+    });
+
+    expect(exitCode).toBe(0);
+    const { watchConfig } = vi.mocked(generateAndWatchSDK).mock.calls[0][0];
+    expect(watchConfig?.configFile).toBe("/mock/test/dir/stainless-tools.config.json");
+
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...defaultMockConfig,
+      defaults: { ...defaultMockConfig.defaults, openApiFile: "./specs/openapi-v2.json" },
+    });
+    const reloaded = await watchConfig?.reload();
+
+    expect(reloaded?.sdks).toEqual([
+      expect.objectContaining({
+        sdkName: "test-sdk",
+        branch: "main",
+        openApiFile: "/mock/test/dir/specs/openapi-v2.json",
+      }),
+    ]);
+    expect(reloaded?.lifecycle).toBeUndefined();
+  });
+
   it("uses branch from command line option", async () => {
     const exitCode = await generateAction("test-sdk", {
       branch: "feature/test",
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).toHaveBeenCalledWith(
@@ -431,6 +546,9 @@ describe("generate command", () => {
     const exitCode = await generateAction("test-sdk", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).toHaveBeenCalledWith(
@@ -457,6 +575,9 @@ describe("generate command", () => {
     const exitCode = await generateAction("test-sdk", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).toHaveBeenCalledWith(
@@ -482,6 +603,9 @@ describe("generate command", () => {
       branch: "cli/test",
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).toHaveBeenCalledWith(
@@ -506,6 +630,9 @@ describe("generate command", () => {
     const exitCode = await generateAction("test-sdk", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).toHaveBeenCalledWith(
@@ -522,6 +649,9 @@ describe("generate command", () => {
     const exitCode = await generateAction("test-sdk", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).toHaveBeenCalledWith(
@@ -566,10 +696,13 @@ describe("generate command", () => {
     const exitCode = await generateAction("prod_only", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).not.toHaveBeenCalled();
-    expect(exitCode).toBe(1);
+    expect(exitCode).toBe(2);
     expect(mockSpinner.fail).toHaveBeenCalledWith(
       expect.stringContaining('Staging URL not defined for SDK "prod_only"'),
     );
@@ -594,7 +727,7 @@ describe("generate command", () => {
     });
 
     expect(generateAndWatchSDK).not.toHaveBeenCalled();
-    expect(exitCode).toBe(1);
+    expect(exitCode).toBe(2);
     expect(mockSpinner.fail).toHaveBeenCalledWith(
       expect.stringContaining('Production URL not defined for SDK "staging_only"'),
     );
@@ -604,10 +737,13 @@ describe("generate command", () => {
     const exitCode = await generateAction("nonexistent", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(generateAndWatchSDK).not.toHaveBeenCalled();
-    expect(exitCode).toBe(1);
+    expect(exitCode).toBe(2);
     expect(mockSpinner.fail).toHaveBeenCalledWith(
       expect.stringContaining('SDK "nonexistent" not found in configuration'),
     );
@@ -627,6 +763,9 @@ describe("generate command", () => {
       branch: "user/feature/test",
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(exitCode).toBe(0);
@@ -654,6 +793,60 @@ describe("generate command", () => {
     expect(consoleOutput).toContain("Target directory: /mock/test/dir/sdks/prod/test-sdk/main");
   });
 
+  it("uses the repository and target directory of a named environment", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...defaultMockConfig,
+      stainlessSdkRepos: {
+        "test-sdk": {
+          ...defaultMockConfig.stainlessSdkRepos["test-sdk"],
+          preview: "git@github.com:org/test-sdk-preview.git",
+        },
+      },
+      defaults: {
+        ...defaultMockConfig.defaults,
+        targetDir: "./sdks/{env}/{sdk}",
+      },
+    });
+
+    const exitCode = await generateAction("test-sdk", { env: "preview" });
+
+    expect(exitCode).toBe(0);
+    expect(generateAndWatchSDK).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sdkRepo: "git@github.com:org/test-sdk-preview.git",
+        env: "preview",
+        targetDir: "/mock/test/dir/sdks/preview/test-sdk",
+      }),
+    );
+  });
+
+  it("treats --prod as an alias for --env prod", async () => {
+    const exitCode = await generateAction("test-sdk", { env: "prod", prod: true });
+
+    expect(exitCode).toBe(0);
+    expect(generateAndWatchSDK).toHaveBeenCalledWith(
+      expect.objectContaining({ sdkRepo: "git@github.com:org/test-sdk.git", env: "prod" }),
+    );
+  });
+
+  it("rejects --prod combined with another environment", async () => {
+    const exitCode = await generateAction("test-sdk", { env: "preview", prod: true });
+
+    expect(exitCode).toBe(1);
+    expect(mockSpinner.fail).toHaveBeenCalledWith(
+      "--prod is an alias for --env prod and cannot be combined with --env preview",
+    );
+  });
+
+  it("lists the environments of an SDK when the selected one is not defined", async () => {
+    const exitCode = await generateAction("test-sdk", { env: "dev" });
+
+    expect(exitCode).toBe(2);
+    expect(mockSpinner.fail).toHaveBeenCalledWith(
+      'Dev URL not defined for SDK "test-sdk". Please add a "dev" URL to the configuration or select one of its environments with --env: staging, prod.',
+    );
+  });
+
   it("resolves target directory with only some template variables", async () => {
     const configWithTemplates = {
       ...defaultMockConfig,
@@ -668,6 +861,9 @@ describe("generate command", () => {
       branch: "user/dev",
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(exitCode).toBe(0);
@@ -688,6 +884,9 @@ describe("generate command", () => {
       branch: "main",
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(exitCode).toBe(0);
@@ -711,6 +910,9 @@ describe("generate command", () => {
     const exitCode = await generateAction("test-sdk", {
       "open-api-file": "./specs/openapi.json",
       projectName: "test-project",
+      pollIntervalMs: 5000,
+      debounceMs: 1000,
+      stabilityThresholdMs: 5000,
     });
 
     expect(exitCode).toBe(0);
@@ -720,4 +922,284 @@ describe("generate command", () => {
       }),
     );
   });
+
+  describe("multiple SDKs", () => {
+    const multiSdkConfig = {
+      stainlessSdkRepos: {
+        "test-sdk": {
+          staging: "git@github.com:org/test-sdk-staging.git",
+          prod: "git@github.com:org/test-sdk.git",
+        },
+        "other-sdk": {
+          staging: "git@github.com:org/other-sdk-staging.git",
+          prod: "git@github.com:org/other-sdk.git",
+        },
+      },
+      defaults: defaultMockConfig.defaults,
+    };
+
+    beforeEach(() => {
+      vi.mocked(loadConfig).mockResolvedValue(multiSdkConfig);
+    });
+
+    it("generates every configured SDK with --all", async () => {
+      const exitCode = await generateAction([], { all: true });
+
+      expect(exitCode).toBe(0);
+      expect(generateAndWatchSDK).not.toHaveBeenCalled();
+      expect(generateAndWatchSDKs).toHaveBeenCalledTimes(1);
+      expect(generateAndWatchSDKs).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sdks: [
+            expect.objectContaining({
+              sdkName: "test-sdk",
+              sdkRepo: multiSdkConfig.stainlessSdkRepos["test-sdk"].staging,
+              targetDir: "/mock/test/dir/sdks/test-sdk",
+              branch: "main",
+            }),
+            expect.objectContaining({
+              sdkName: "other-sdk",
+              sdkRepo: multiSdkConfig.stainlessSdkRepos["other-sdk"].staging,
+              targetDir: "/mock/test/dir/sdks/other-sdk",
+              branch: "main",
+            }),
+          ],
+          spinner: expect.anything(),
+        }),
+      );
+    });
+
+    it("generates the SDKs named on the command line", async () => {
+      const exitCode = await generateAction(["other-sdk", "test-sdk"], { prod: true });
+
+      expect(exitCode).toBe(0);
+      const { sdks } = vi.mocked(generateAndWatchSDKs).mock.calls[0][0];
+      expect(sdks.map((sdk) => sdk.sdkName)).toEqual(["other-sdk", "test-sdk"]);
+      expect(sdks.map((sdk) => sdk.sdkRepo)).toEqual([
+        multiSdkConfig.stainlessSdkRepos["other-sdk"].prod,
+        multiSdkConfig.stainlessSdkRepos["test-sdk"].prod,
+      ]);
+    });
+
+    it("prefixes configuration output with the SDK name", async () => {
+      await generateAction(["test-sdk", "other-sdk"], {});
+
+      expect(consoleOutput).toContain("[test-sdk] Target directory: /mock/test/dir/sdks/test-sdk");
+      expect(consoleOutput).toContain("[other-sdk] Target directory: /mock/test/dir/sdks/other-sdk");
+    });
+
+    it("shares a single generated branch when no branch is configured", async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        ...multiSdkConfig,
+        defaults: { ...multiSdkConfig.defaults, branch: undefined },
+      });
+      mockProcess.env = { STAINLESS_API_KEY: "test-api-key" };
+
+      const exitCode = await generateAction([], { all: true });
+
+      expect(exitCode).toBe(0);
+      const { sdks } = vi.mocked(generateAndWatchSDKs).mock.calls[0][0];
+      expect(sdks[0].branch).toMatch(/^cli\/[a-f0-9]{8}$/);
+      expect(sdks[1].branch).toBe(sdks[0].branch);
+    });
+
+    it("cleans up every SDK through the single shutdown handler", async () => {
+      const mockCleanup = vi.fn();
+      vi.mocked(generateAndWatchSDKs).mockResolvedValue(mockCleanup);
+      const exitSpy = vi.spyOn(process, "exit").mockImplementation(() => undefined as never);
+
+      await generateAction([], { all: true });
+
+      const sigintHandler = mockProcess.on.mock.calls.find((call) => call[0] === "SIGINT")?.[1];
+      await sigintHandler("SIGINT");
+
+      expect(mockCleanup).toHaveBeenCalledTimes(1);
+      expect(exitSpy).toHaveBeenCalledWith(0);
+      exitSpy.mockRestore();
+    });
+
+    it("reloads the SDKs added to and removed from the configuration with --all", async () => {
+      await generateAction([], { all: true, config: "./stainless-tools.config.json" });
+      const { watchConfig } = vi.mocked(generateAndWatchSDKs).mock.calls[0][0];
+
+      vi.mocked(loadConfig).mockResolvedValue({
+        ...multiSdkConfig,
+        stainlessSdkRepos: {
+          "other-sdk": multiSdkConfig.stainlessSdkRepos["other-sdk"],
+          "new-sdk": { staging: "git@github.com:org/new-sdk-staging.git" },
+        },
+      });
+      const reloaded = await watchConfig?.reload();
+
+      expect(reloaded?.sdks.map((sdk) => sdk.sdkName)).toEqual(["other-sdk", "new-sdk"]);
+    });
+
+    it("fails when no SDK names are given without --all", async () => {
+      const exitCode = await generateAction([], {});
+
+      expect(exitCode).toBe(1);
+      expect(mockSpinner.fail).toHaveBeenCalledWith(expect.stringContaining("Specify at least one SDK name"));
+    });
+
+    it("fails when SDK names are combined with --all", async () => {
+      const exitCode = await generateAction(["test-sdk"], { all: true });
+
+      expect(exitCode).toBe(1);
+      expect(mockSpinner.fail).toHaveBeenCalledWith("SDK names cannot be combined with --all");
+    });
+  });
+
+  describe("--once", () => {
+    beforeEach(() => {
+      vi.mocked(generateSDKOnce).mockResolvedValue(true);
+      vi.mocked(generateSDKsOnce).mockResolvedValue([]);
+    });
+
+    it("generates the SDK once instead of watching", async () => {
+      const exitCode = await generateAction("test-sdk", { once: true, timeout: "120" });
+
+      expect(exitCode).toBe(0);
+      expect(generateAndWatchSDK).not.toHaveBeenCalled();
+      expect(generateSDKOnce).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sdkName: "test-sdk",
+          branch: "main",
+          timeoutMs: 120000,
+          lifecycle: expect.objectContaining({ "test-sdk": expect.anything() }),
+        }),
+      );
+      expect(mockSpinner.succeed).toHaveBeenCalledWith("SDK updated");
+      expect(consoleOutput).toContain("\nWaiting for the SDK repository to update...");
+      // Nothing is left running, so the signal handlers are removed
+      expect(mockProcess.off).toHaveBeenCalledWith("SIGINT", expect.any(Function));
+      expect(mockProcess.off).toHaveBeenCalledWith("SIGTERM", expect.any(Function));
+    });
+
+    it.each([
+      ["SIGINT", 130],
+      ["SIGTERM", 143],
+    ])("exits with a failure when %s interrupts the run", async (signal, expectedExitCode) => {
+      let finish: () => void = () => {};
+      vi.mocked(generateSDKOnce).mockReturnValueOnce(
+        new Promise<boolean>((resolve) => {
+          finish = () => resolve(true);
+        }),
+      );
+      const exitSpy = vi.spyOn(process, "exit").mockImplementation(() => undefined as never);
+
+      const run = generateAction("test-sdk", { once: true });
+      await vi.waitFor(() => expect(generateSDKOnce).toHaveBeenCalled());
+      const handler = mockProcess.on.mock.calls.find((call) => call[0] === signal)?.[1];
+      await handler(signal);
+
+      expect(exitSpy).toHaveBeenCalledWith(expectedExitCode);
+      finish();
+      await run;
+      exitSpy.mockRestore();
+    });
+
+    it("generates several SDKs once", async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        ...defaultMockConfig,
+        stainlessSdkRepos: {
+          ...defaultMockConfig.stainlessSdkRepos,
+          "other-sdk": { staging: "git@github.com:org/other-sdk-staging.git" },
+        },
+      });
+
+      const exitCode = await generateAction([], { all: true, once: true });
+
+      expect(exitCode).toBe(0);
+      expect(generateAndWatchSDKs).not.toHaveBeenCalled();
+      expect(generateSDKsOnce).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sdks: [expect.objectContaining({ sdkName: "test-sdk" }), expect.objectContaining({ sdkName: "other-sdk" })],
+          timeoutMs: undefined,
+        }),
+      );
+    });
+
+    it("reports an SDK that was already up to date", async () => {
+      vi.mocked(generateSDKOnce).mockResolvedValue(false);
+
+      const exitCode = await generateAction("test-sdk", { once: true });
+
+      expect(exitCode).toBe(0);
+      expect(mockSpinner.succeed).toHaveBeenCalledWith("SDK already up to date");
+      expect(mockSpinner.succeed).not.toHaveBeenCalledWith("SDK updated");
+    });
+
+    it("reports the SDKs that were already up to date among several", async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        ...defaultMockConfig,
+        stainlessSdkRepos: {
+          ...defaultMockConfig.stainlessSdkRepos,
+          "other-sdk": { staging: "git@github.com:org/other-sdk-staging.git" },
+        },
+      });
+      vi.mocked(generateSDKsOnce).mockResolvedValue(["other-sdk"]);
+
+      const exitCode = await generateAction([], { all: true, once: true });
+
+      expect(exitCode).toBe(0);
+      expect(mockSpinner.succeed).toHaveBeenCalledWith("1 of 2 SDKs updated, other-sdk already up to date");
+    });
+
+    it("publishes unchanged files with --force", async () => {
+      const exitCode = await generateAction("test-sdk", { once: true, force: true });
+
+      expect(exitCode).toBe(0);
+      expect(generateSDKOnce).toHaveBeenCalledWith(
+        expect.objectContaining({ publishHistory: expect.any(PublishHistory), force: true }),
+      );
+    });
+
+    it("exits non-zero with the reason when the SDK does not update in time", async () => {
+      vi.mocked(generateSDKOnce).mockRejectedValue(
+        new StainlessError("Timed out after 120s waiting for a new commit on branch 'main'"),
+      );
+
+      const exitCode = await generateAction("test-sdk", { once: true, timeout: "120" });
+
+      expect(exitCode).toBe(1);
+      expect(mockSpinner.fail).toHaveBeenCalledWith("Timed out after 120s waiting for a new commit on branch 'main'");
+    });
+
+    it("rejects an invalid timeout", async () => {
+      const exitCode = await generateAction("test-sdk", { once: true, timeout: "soon" });
+
+      expect(exitCode).toBe(1);
+      expect(mockSpinner.fail).toHaveBeenCalledWith('Invalid --timeout "soon": expected a positive number of seconds');
+      expect(generateSDKOnce).not.toHaveBeenCalled();
+    });
+
+    it("rejects --timeout without --once", async () => {
+      const exitCode = await generateAction("test-sdk", { timeout: "120" });
+
+      expect(exitCode).toBe(1);
+      expect(mockSpinner.fail).toHaveBeenCalledWith("--timeout can only be used with --once");
+    });
+  });
+
+  describe("--explain", () => {
+    it("prints every resolved option with its source", async () => {
+      process.env.STAINLESS_SDK_BRANCH = "env/test";
+
+      const exitCode = await generateAction("test-sdk", { explain: true, projectName: "cli-project" });
+      const output = consoleOutput.join("\n");
+
+      expect(exitCode).toBe(0);
+      expect(output).toContain("Resolved options (staging):");
+      expect(output).toMatch(/Branch\s+env\/test\s+.*from STAINLESS_SDK_BRANCH environment variable/);
+      expect(output).toMatch(
+        /Target directory\s+\/mock\/test\/dir\/sdks\/test-sdk\s+.*from defaults\.targetDir in config/,
+      );
+      expect(output).toMatch(/Project name\s+cli-project\s+.*from --project-name flag/);
+      expect(output).toMatch(/Guess config\s+false\s+.*from defaults\.guessConfig in config/);
+      expect(output).toMatch(
+        /SDK repository\s+git@github\.com:org\/test-sdk-staging\.git\s+.*from stainlessSdkRepos\.test-sdk\.staging in config/,
+      );
+      expect(output).not.toContain("SDK Repository (staging):");
+    });
+  });
 });
@@ -0,0 +1,254 @@
+import * as fs from "node:fs";
+import mock from "mock-fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import YAML from "yaml";
+import { configSchema, createConfigExplorer } from "../../../config.js";
+import type { Prompter } from "../../prompt.js";
+import { createInitCommand, initAction, serializeConfig } from "../init.js";
+
+vi.mock("../../../config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../config.js")>()),
+  createConfigExplorer: vi.fn(),
+}));
+
+/**
+ * Creates a prompter that answers questions in order. Empty answers fall back to the default value.
+ */
+function createPrompter(answers: (string | boolean)[]) {
+  const queue = [...answers];
+  const questions: string[] = [];
+
+  const prompter = {
+    ask: vi.fn(async (question: string, options: { defaultValue?: string; validate?: (v: string) => any } = {}) => {
+      questions.push(question);
+      const answer = (queue.shift() as string) || options.defaultValue || "";
+      const error = answer ? options.validate?.(answer) : undefined;
+      if (error) {
+        throw new Error(`Invalid answer for "${question}": ${error}`);
+      }
+      return answer;
+    }),
+    confirm: vi.fn(async (question: string, defaultValue = false) => {
+      questions.push(question);
+      const answer = queue.shift();
+      return answer === undefined ? defaultValue : Boolean(answer);
+    }),
+    select: vi.fn(async (question: string, _choices: readonly string[], defaultValue: string) => {
+      questions.push(question);
+      return (queue.shift() as string) || defaultValue;
+    }),
+    close: vi.fn(),
+  };
+
+  return { prompter: prompter as unknown as Prompter, questions, close: prompter.close };
+}
+
+const baseAnswers = [
+  "my-project", // project name
+  "./specs/openapi.yml", // OpenAPI file
+  "", // Stainless config file
+  "typescript, python", // SDK names
+  "", // typescript staging (default)
+  "git@github.com:my-org/my-project-typescript.git", // typescript prod
+  "git@github.com:my-org/my-project-python-staging.git", // python staging
+  "", // python prod
+  "theo/dev", // branch
+  "", // target dir (default)
+];
+
+describe("init command", () => {
+  const mockSearch = vi.fn();
+  const mockLegacySearch = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createConfigExplorer).mockImplementation(
+      (moduleName) => ({ search: moduleName === "stainless" ? mockLegacySearch : mockSearch }) as any,
+    );
+    mockSearch.mockResolvedValue(null);
+    mockLegacySearch.mockResolvedValue(null);
+    vi.spyOn(process, "cwd").mockReturnValue("/project");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mock({ "/project": {} });
+  });
+
+  afterEach(() => {
+    mock.restore();
+    vi.restoreAllMocks();
+  });
+
+  it("has the correct name, description and options", () => {
+    const command = createInitCommand();
+    expect(command.name()).toBe("init");
+    expect(command.description()).toBe("Create a stainless-tools configuration file");
+    expect(command.options.find((o) => o.long === "--format")?.argChoices).toEqual(["js", "json", "yaml", "ts"]);
+    expect(command.options.find((o) => o.long === "--force")).toBeDefined();
+  });
+
+  it("writes a JSON config and an .env stub", async () => {
+    const { prompter, close } = createPrompter([...baseAnswers, false, "json"]);
+
+    const exitCode = await initAction({}, prompter);
+
+    expect(exitCode).toBe(0);
+    expect(close).toHaveBeenCalled();
+    const config = JSON.parse(fs.readFileSync("/project/.stainless-toolsrc.json", "utf-8"));
+    expect(config).toEqual({
+      $schema: "./node_modules/stainless-tools/config.schema.json",
+      stainlessSdkRepos: {
+        typescript: {
+          staging: "git@github.com:stainless-sdks/my-project-typescript.git",
+          prod: "git@github.com:my-org/my-project-typescript.git",
+        },
+        python: {
+          staging: "git@github.com:my-org/my-project-python-staging.git",
+        },
+      },
+      defaults: {
+        projectName: "my-project",
+        openApiFile: "./specs/openapi.yml",
+        branch: "theo/dev",
+        targetDir: "./sdks/{sdk}",
+      },
+    });
+    expect(configSchema.safeParse(config).success).toBe(true);
+    expect(fs.readFileSync("/project/.env", "utf-8")).toBe("STAINLESS_API_KEY=\n");
+  });
+
+  it("writes lifecycle hooks when requested", async () => {
+    const { prompter } = createPrompter([
+      ...baseAnswers,
+      true, // configure lifecycle hooks
+      "npm run lint-spec", // typescript prePublishSpec
+      "npm install", // typescript postClone
+      "", // typescript postUpdate
+      "", // python prePublishSpec
+      "", // python postClone
+      "", // python postUpdate
+      "yaml",
+    ]);
+
+    const exitCode = await initAction({}, prompter);
+
+    expect(exitCode).toBe(0);
+    const config = YAML.parse(fs.readFileSync("/project/.stainless-toolsrc.yml", "utf-8"));
+    expect(config.lifecycle).toEqual({
+      typescript: {
+        prePublishSpec: "npm run lint-spec",
+        postClone: "npm install",
+      },
+    });
+  });
+
+  it("uses the format option without asking", async () => {
+    const { prompter, questions } = createPrompter([...baseAnswers, false]);
+
+    const exitCode = await initAction({ format: "js" }, prompter);
+
+    expect(exitCode).toBe(0);
+    expect(questions).not.toContain("Configuration file format");
+    expect(fs.readFileSync("/project/stainless-tools.config.js", "utf-8")).toContain("module.exports = {");
+  });
+
+  it("keeps an existing STAINLESS_API_KEY in .env", async () => {
+    fs.writeFileSync("/project/.env", "OTHER=1\nSTAINLESS_API_KEY=secret\n");
+    const { prompter } = createPrompter([...baseAnswers, false]);
+
+    await initAction({ format: "json" }, prompter);
+
+    expect(fs.readFileSync("/project/.env", "utf-8")).toBe("OTHER=1\nSTAINLESS_API_KEY=secret\n");
+  });
+
+  it("appends STAINLESS_API_KEY to an existing .env", async () => {
+    fs.writeFileSync("/project/.env", "OTHER=1");
+    const { prompter } = createPrompter([...baseAnswers, false]);
+
+    await initAction({ format: "json" }, prompter);
+
+    expect(fs.readFileSync("/project/.env", "utf-8")).toBe("OTHER=1\nSTAINLESS_API_KEY=\n");
+  });
+
+  it("aborts when an existing configuration is found and the user declines", async () => {
+    mockSearch.mockResolvedValue({ filepath: "/project/stainless-tools.config.js", config: {} });
+    const { prompter } = createPrompter([false]);
+
+    const exitCode = await initAction({}, prompter);
+
+    expect(exitCode).toBe(1);
+    expect(fs.readdirSync("/project")).toEqual([]);
+  });
+
+  it("aborts when a configuration named after stainless-tools v1 is found and the user declines", async () => {
+    mockLegacySearch.mockResolvedValue({ filepath: "/project/stainless.config.js", config: {} });
+    const { prompter } = createPrompter([false]);
+
+    const exitCode = await initAction({}, prompter);
+
+    expect(exitCode).toBe(1);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining("/project/stainless.config.js"));
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining("migrate-config"));
+    expect(fs.readdirSync("/project")).toEqual([]);
+  });
+
+  it("does not overwrite the config file unless confirmed", async () => {
+    fs.writeFileSync("/project/.stainless-toolsrc.json", "{}");
+    const { prompter } = createPrompter([...baseAnswers, false, false]);
+
+    const exitCode = await initAction({ format: "json" }, prompter);
+
+    expect(exitCode).toBe(1);
+    expect(fs.readFileSync("/project/.stainless-toolsrc.json", "utf-8")).toBe("{}");
+  });
+
+  it("overwrites existing files with --force", async () => {
+    mockSearch.mockResolvedValue({ filepath: "/project/.stainless-toolsrc.json", config: {} });
+    fs.writeFileSync("/project/.stainless-toolsrc.json", "{}");
+    const { prompter } = createPrompter([...baseAnswers, false]);
+
+    const exitCode = await initAction({ format: "json", force: true }, prompter);
+
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(fs.readFileSync("/project/.stainless-toolsrc.json", "utf-8")).defaults.projectName).toBe(
+      "my-project",
+    );
+  });
+});
+
+describe("serializeConfig", () => {
+  const config = {
+    stainlessSdkRepos: {
+      typescript: { staging: "git@github.com:org/typescript.git" },
+    },
+    defaults: { projectName: "my-project" },
+  };
+
+  it("serializes to YAML", () => {
+    const contents = serializeConfig(config, "yaml");
+    expect(contents).toMatch(
+      /^# yaml-language-server: \$schema=\.\/node_modules\/stainless-tools\/config\.schema\.json\n/,
+    );
+    expect(YAML.parse(contents)).toEqual(config);
+  });
+
+  it("serializes to JSON referencing the JSON Schema", () => {
+    expect(JSON.parse(serializeConfig(config, "json"))).toEqual({
+      $schema: "./node_modules/stainless-tools/config.schema.json",
+      ...config,
+    });
+  });
+
+  it("serializes to a CommonJS module", () => {
+    const contents = serializeConfig(config, "js");
+    const module = { exports: {} };
+    new Function("module", contents)(module);
+    expect(module.exports).toEqual(config);
+  });
+
+  it("serializes to a TypeScript module that only imports the types of stainless-tools", () => {
+    const contents = serializeConfig(config, "ts");
+    expect(contents).toContain('import type { StainlessConfig } from "stainless-tools";');
+    expect(contents).toMatch(/^export default \{$/m);
+    expect(contents).toContain("} satisfies StainlessConfig;");
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { StainlessError } from "../../../StainlessError.js";
+import { migrateConfig } from "../../../config-migration.js";
+import { createMigrateConfigCommand, migrateConfigAction } from "../migrate-config.js";
+
+vi.mock("../../../config-migration.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../config-migration.js")>()),
+  migrateConfig: vi.fn(),
+}));
+
+describe("migrate-config command", () => {
+  let output: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    output = "";
+    vi.spyOn(console, "log").mockImplementation((...args) => {
+      output += `${args.join(" ")}\n`;
+    });
+    vi.spyOn(console, "error").mockImplementation((...args) => {
+      output += `${args.join(" ")}\n`;
+    });
+    vi.spyOn(process, "cwd").mockReturnValue("/project");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("has the correct name, description and options", () => {
+    const command = createMigrateConfigCommand();
+
+    expect(command.name()).toBe("migrate-config");
+    expect(command.options.map((option) => option.long)).toEqual(["--config", "--dry-run"]);
+  });
+
+  it("prints the rename and the diff of the migrated file", async () => {
+    vi.mocked(migrateConfig).mockResolvedValue({
+      filepath: "/project/.stainlessrc.yml",
+      renamedTo: "/project/.stainless-toolsrc.yml",
+      migratedSdkNames: ["typescript"],
+      before: "stainlessSdkRepos:\n  typescript: git@github.com:org/typescript.git\n",
+      after: "stainlessSdkRepos:\n  typescript:\n    staging: git@github.com:org/typescript.git\n",
+    });
+
+    const exitCode = await migrateConfigAction({ config: ".stainlessrc.yml" });
+
+    expect(exitCode).toBe(0);
+    expect(migrateConfig).toHaveBeenCalledWith({ configPath: ".stainlessrc.yml", dryRun: undefined });
+    expect(output).toContain("Renamed .stainlessrc.yml to .stainless-toolsrc.yml");
+    expect(output).toContain("-   typescript: git@github.com:org/typescript.git");
+    expect(output).toContain("+   typescript:\n+     staging: git@github.com:org/typescript.git");
+    expect(output).toContain("The repository URL of typescript is now used for the staging environment.");
+    expect(output).toContain("Configuration migrated");
+  });
+
+  it("reports a dry run", async () => {
+    vi.mocked(migrateConfig).mockResolvedValue({
+      filepath: "/project/stainless.config.js",
+      renamedTo: "/project/stainless-tools.config.js",
+      migratedSdkNames: [],
+      before: "module.exports = {};\n",
+      after: "module.exports = {};\n",
+    });
+
+    const exitCode = await migrateConfigAction({ dryRun: true });
+
+    expect(exitCode).toBe(0);
+    expect(output).toContain("Would rename stainless.config.js to stainless-tools.config.js");
+    expect(output).toContain("Dry run, no files were changed");
+  });
+
+  it("reports configurations that are up to date", async () => {
+    vi.mocked(migrateConfig).mockResolvedValue({
+      filepath: "/project/.stainless-toolsrc.json",
+      migratedSdkNames: [],
+      before: "{}",
+      after: "{}",
+    });
+
+    const exitCode = await migrateConfigAction({});
+
+    expect(exitCode).toBe(0);
+    expect(output).toContain(".stainless-toolsrc.json is already up to date");
+  });
+
+  it("fails when the configuration cannot be migrated", async () => {
+    vi.mocked(migrateConfig).mockRejectedValue(new StainlessError("No configuration file found"));
+
+    const exitCode = await migrateConfigAction({});
+
+    expect(exitCode).toBe(1);
+    expect(output).toContain("No configuration file found");
+  });
+});
@@ -0,0 +1,109 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type MockServer, startMockServer } from "../../../mock-server.js";
+import { createMockServerCommand, mockServerAction } from "../mock-server.js";
+
+vi.mock("../../../mock-server.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../mock-server.js")>()),
+  startMockServer: vi.fn(),
+}));
+
+describe("mock-server command", () => {
+  let tempDir: string;
+  let output: string;
+  let errorOutput: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "stainless-mock-server-command-"));
+    output = "";
+    errorOutput = "";
+    vi.spyOn(console, "log").mockImplementation((...args) => {
+      output += `${args.join(" ")}\n`;
+    });
+    vi.spyOn(console, "error").mockImplementation((...args) => {
+      errorOutput += `${args.join(" ")}\n`;
+    });
+    // Keep the signal handlers of the command out of the test process
+    vi.spyOn(process, "once").mockReturnValue(process);
+    vi.mocked(startMockServer).mockResolvedValue({
+      url: "http://127.0.0.1:4010",
+      port: 4010,
+      sdkRepoUrl: "file:///tmp/mock/sdk.git",
+      requests: [],
+      waitForCommits: vi.fn(),
+      close: vi.fn(),
+    } satisfies MockServer);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("has the correct name and options", () => {
+    const command = createMockServerCommand();
+
+    expect(command.name()).toBe("mock-server");
+    expect(command.options.map((option) => option.long)).toEqual([
+      "--port",
+      "--host",
+      "--api-key",
+      "--record-dir",
+      "--script",
+      "--delay",
+      "--sdk-repo",
+      "--commit-delay",
+    ]);
+  });
+
+  it("starts the server with the parsed options and prints how to use it", async () => {
+    const script = path.join(tempDir, "script.json");
+    await fs.writeFile(script, JSON.stringify([{ status: 503, headers: { "Retry-After": "1" } }]));
+
+    const exitCode = await mockServerAction({
+      port: "4010",
+      host: "127.0.0.1",
+      script,
+      delay: "100",
+      sdkRepo: "/tmp/mock/sdk.git",
+      commitDelay: "0",
+    });
+
+    expect(exitCode).toBe(0);
+    expect(startMockServer).toHaveBeenCalledWith({
+      port: 4010,
+      host: "127.0.0.1",
+      apiKey: undefined,
+      recordDir: undefined,
+      responses: [{ status: 503, headers: { "Retry-After": "1" } }],
+      delayMs: 100,
+      sdkRepo: "/tmp/mock/sdk.git",
+      commitDelayMs: 0,
+    });
+    expect(output).toContain("STAINLESS_API_BASE_URL=http://127.0.0.1:4010 STAINLESS_API_KEY=mock");
+    expect(output).toContain("file:///tmp/mock/sdk.git");
+    expect(process.once).toHaveBeenCalledWith("SIGINT", expect.any(Function));
+  });
+
+  it("returns 1 for an invalid port", async () => {
+    const exitCode = await mockServerAction({ port: "abc", host: "127.0.0.1" });
+
+    expect(exitCode).toBe(1);
+    expect(errorOutput).toContain('Invalid --port "abc"');
+    expect(startMockServer).not.toHaveBeenCalled();
+  });
+
+  it("returns 1 for an invalid script", async () => {
+    const script = path.join(tempDir, "script.json");
+    await fs.writeFile(script, JSON.stringify([{ status: "500" }]));
+
+    const exitCode = await mockServerAction({ port: "4010", host: "127.0.0.1", script });
+
+    expect(exitCode).toBe(1);
+    expect(errorOutput).toContain("Invalid mock responses: 0.status");
+    expect(startMockServer).not.toHaveBeenCalled();
+  });
+});
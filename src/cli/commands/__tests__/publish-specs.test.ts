@@ -1,15 +1,19 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { Mock } from "vitest";
 import { StainlessApi } from "../../../StainlessApi.js";
-import { StainlessError } from "../../../StainlessError.js";
+import { StainlessAuthError, StainlessError } from "../../../StainlessError.js";
+import * as specValidation from "../../../spec-validation.js";
 import * as utils from "../../utils.js";
 import { createPublishSpecsCommand, publishSpecsAction } from "../publish-specs.js";
 
+vi.mock("../../../PublishHistory.js");
 vi.mock("../../../StainlessApi.js");
+vi.mock("../../../spec-validation.js");
 vi.mock("../../utils.js");
 
 const mockValidateAndProcessOptions = utils.validateAndProcessOptions as Mock;
 const mockReadFileContents = utils.readFileContents as Mock;
+const mockAssertValidOpenApiSpec = specValidation.assertValidOpenApiSpec as Mock;
 
 describe("publish-specs command", () => {
   it("should create command with correct name and description", () => {
@@ -29,6 +33,7 @@ describe("publish-specs command", () => {
     expect(options.find((o) => o.short === "-p")).toBeDefined();
     expect(options.find((o) => o.short === "-g")).toBeDefined();
     expect(options.find((o) => o.long === "--prod")).toBeDefined();
+    expect(options.find((o) => o.long === "--json")).toBeDefined();
   });
 
   it("should have required arguments", () => {
@@ -43,6 +48,7 @@ describe("publishSpecsAction", () => {
     vi.clearAllMocks();
     mockValidateAndProcessOptions.mockReset();
     mockReadFileContents.mockReset();
+    mockAssertValidOpenApiSpec.mockReset();
     vi.spyOn(StainlessApi.prototype, "publish").mockResolvedValue(undefined);
   });
 
@@ -157,6 +163,33 @@ describe("publishSpecsAction", () => {
     expect(StainlessApi.prototype.publish).not.toHaveBeenCalled();
   });
 
+  it("does not publish an invalid OpenAPI specification", async () => {
+    mockValidateAndProcessOptions.mockResolvedValue({
+      branch: "main",
+      openApiFile: "openapi.json",
+      projectName: "test-project",
+      guessConfig: false,
+      sdkRepo: "git@github.com:test/repo.git",
+      config: {},
+    });
+    mockReadFileContents.mockResolvedValue("spec content");
+    mockAssertValidOpenApiSpec.mockRejectedValue(
+      new StainlessError(
+        'Invalid OpenAPI specification (openapi.json):\n  openapi.json:1 #: Missing the "openapi" version field',
+      ),
+    );
+
+    const exitCode = await publishSpecsAction("test-sdk", {
+      branch: "main",
+      targetDir: ".",
+      "open-api-file": "openapi.json",
+    });
+
+    expect(exitCode).toBe(1);
+    expect(mockAssertValidOpenApiSpec).toHaveBeenCalledWith("openapi.json", "spec content");
+    expect(StainlessApi.prototype.publish).not.toHaveBeenCalled();
+  });
+
   it("should handle API errors", async () => {
     mockValidateAndProcessOptions.mockResolvedValue({
       branch: "main",
@@ -177,4 +210,64 @@ describe("publishSpecsAction", () => {
 
     expect(exitCode).toBe(1);
   });
+
+  it("exits with the code of the kind of error", async () => {
+    mockValidateAndProcessOptions.mockResolvedValue({
+      branch: "main",
+      openApiFile: "openapi.json",
+      projectName: "test-project",
+      guessConfig: false,
+      sdkRepo: "git@github.com:test/repo.git",
+      config: {},
+    });
+    mockReadFileContents.mockResolvedValue("spec content");
+    vi.spyOn(StainlessApi.prototype, "publish").mockRejectedValue(
+      new StainlessAuthError("API Error (HTTP 401): Invalid API key", { status: 401 }),
+    );
+
+    const exitCode = await publishSpecsAction("test-sdk", {});
+
+    expect(exitCode).toBe(3);
+  });
+
+  describe("--json", () => {
+    const readEvents = (write: { mock: { calls: unknown[][] }; mockRestore: () => void }) => {
+      const events = write.mock.calls.map(([line]) => JSON.parse(String(line)));
+      write.mockRestore();
+      return events;
+    };
+
+    it("writes NDJSON events instead of human-readable output", async () => {
+      mockValidateAndProcessOptions.mockResolvedValue({
+        branch: "main",
+        openApiFile: "openapi.json",
+        projectName: "test-project",
+        guessConfig: false,
+        sdkRepo: "git@github.com:test/repo.git",
+        config: {},
+      });
+      mockReadFileContents.mockResolvedValue("spec content");
+      const write = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+
+      const exitCode = await publishSpecsAction("test-sdk", { json: true });
+
+      expect(exitCode).toBe(0);
+      expect(readEvents(write)).toEqual([expect.objectContaining({ type: "config-loaded", sdkNames: ["test-sdk"] })]);
+      expect(StainlessApi).toHaveBeenCalledWith(expect.objectContaining({ onEvent: expect.any(Function) }));
+    });
+
+    it("writes an error event when publishing fails", async () => {
+      mockValidateAndProcessOptions.mockRejectedValue(
+        new StainlessError("Validation error", new Error("Missing project name")),
+      );
+      const write = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+
+      const exitCode = await publishSpecsAction("test-sdk", { json: true });
+
+      expect(exitCode).toBe(1);
+      expect(readEvents(write)).toEqual([
+        expect.objectContaining({ type: "error", message: "Validation error", cause: "Missing project name" }),
+      ]);
+    });
+  });
 });
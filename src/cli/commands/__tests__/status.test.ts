@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadConfig } from "../../../config.js";
+import { getRepoStatus } from "../../../repo-status.js";
+import { createStatusCommand, statusAction } from "../status.js";
+
+vi.mock("../../../config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../config.js")>()),
+  loadConfig: vi.fn(),
+}));
+vi.mock("../../../repo-status.js");
+
+const mockSpinner = {
+  start: vi.fn(() => mockSpinner),
+  stop: vi.fn(() => mockSpinner),
+  fail: vi.fn(() => mockSpinner),
+  text: "",
+};
+
+vi.mock("ora", () => ({
+  default: vi.fn(() => mockSpinner),
+}));
+
+const mockConfig = {
+  stainlessSdkRepos: {
+    typescript: {
+      staging: "git@github.com:org/typescript-staging.git",
+      prod: "git@github.com:org/typescript.git",
+    },
+    python: {
+      staging: "git@github.com:org/python-staging.git",
+    },
+  },
+  defaults: {
+    targetDir: "/sdks/{env}/{sdk}",
+  },
+};
+
+const cleanStatus = (targetDir: string) => ({
+  targetDir,
+  isRepo: true,
+  branch: "main",
+  head: { hash: "abc1234def", message: "Update SDK" },
+  ahead: 0,
+  behind: 0,
+  dirtyFiles: [],
+  stashes: [],
+  originUrl: "git@github.com:org/typescript-staging.git",
+});
+
+describe("status command", () => {
+  let output: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    output = "";
+    vi.spyOn(console, "log").mockImplementation((...args) => {
+      output += `${args.join(" ")}\n`;
+    });
+    vi.mocked(loadConfig).mockResolvedValue(mockConfig);
+    vi.mocked(getRepoStatus).mockImplementation(async (targetDir) => cleanStatus(targetDir));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.STAINLESS_SDK_BRANCH;
+  });
+
+  it("has the correct name, description and options", () => {
+    const command = createStatusCommand();
+    expect(command.name()).toBe("status");
+    expect(command.description()).toBe("Show the state of local SDK checkouts");
+    expect(command.options.find((o) => o.long === "--prod")).toBeDefined();
+    expect(command.options.find((o) => o.long === "--fetch")).toBeDefined();
+    expect(command.options.find((o) => o.long === "--config")).toBeDefined();
+  });
+
+  it("reports on every configured SDK by default", async () => {
+    const exitCode = await statusAction([], {});
+
+    expect(exitCode).toBe(0);
+    expect(getRepoStatus).toHaveBeenCalledWith("/sdks/staging/typescript", { fetch: undefined });
+    expect(getRepoStatus).toHaveBeenCalledWith("/sdks/staging/python", { fetch: undefined });
+    expect(output).toContain("typescript (staging)");
+    expect(output).toContain("python (staging)");
+    expect(output).toContain("abc1234 Update SDK");
+    expect(output).toContain("up to date with origin/main");
+  });
+
+  it("reports only the requested SDKs and resolves prod directories", async () => {
+    const exitCode = await statusAction(["typescript"], { prod: true, fetch: true });
+
+    expect(exitCode).toBe(0);
+    expect(getRepoStatus).toHaveBeenCalledTimes(1);
+    expect(getRepoStatus).toHaveBeenCalledWith("/sdks/prod/typescript", { fetch: true });
+    expect(output).toContain("(matches staging, expected prod)");
+  });
+
+  it("resolves directories of named environments", async () => {
+    const exitCode = await statusAction(["typescript"], { env: "preview" });
+
+    expect(exitCode).toBe(0);
+    expect(getRepoStatus).toHaveBeenCalledWith("/sdks/preview/typescript", { fetch: undefined });
+    expect(output).toContain("typescript (preview)");
+    expect(output).toContain("(matches staging, expected preview)");
+  });
+
+  it("shows dirty files, leftover stashes and ahead/behind counts", async () => {
+    vi.mocked(getRepoStatus).mockResolvedValue({
+      ...cleanStatus("/sdks/staging/typescript"),
+      ahead: 1,
+      behind: 3,
+      dirtyFiles: [" M src/index.ts"],
+      stashes: ["stash@{0}: On main: Stashing changes before SDK update"],
+    });
+
+    await statusAction(["typescript"], {});
+
+    expect(output).toContain("1 ahead, 3 behind origin/main");
+    expect(output).toContain("1 uncommitted file(s)");
+    expect(output).toContain(" M src/index.ts");
+    expect(output).toContain("1 left by stainless-tools");
+    expect(output).toContain("stash@{0}: On main: Stashing changes before SDK update");
+    expect(output).toContain("(matches staging)");
+  });
+
+  it("reports checkouts that have not been cloned", async () => {
+    vi.mocked(getRepoStatus).mockResolvedValue({
+      targetDir: "/sdks/staging/python",
+      isRepo: false,
+      dirtyFiles: [],
+      stashes: [],
+    });
+
+    const exitCode = await statusAction(["python"], {});
+
+    expect(exitCode).toBe(0);
+    expect(output).toContain("Not cloned yet");
+  });
+
+  it("flags an origin that does not match the configuration", async () => {
+    vi.mocked(getRepoStatus).mockResolvedValue({
+      ...cleanStatus("/sdks/staging/python"),
+      originUrl: "git@github.com:someone/else.git",
+    });
+
+    await statusAction(["python"], {});
+
+    expect(output).toContain("does not match the configured repository URLs");
+  });
+
+  it("requires a branch when the target directory uses {branch}", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...mockConfig,
+      defaults: { targetDir: "/sdks/{sdk}/{branch}" },
+    });
+
+    const exitCode = await statusAction(["typescript"], {});
+
+    expect(exitCode).toBe(1);
+    expect(getRepoStatus).not.toHaveBeenCalled();
+    expect(output).toContain("Target directory depends on {branch}");
+  });
+
+  it("resolves {branch} from the branch option", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...mockConfig,
+      defaults: { targetDir: "/sdks/{sdk}/{branch}" },
+    });
+
+    const exitCode = await statusAction(["typescript"], { branch: "user/dev" });
+
+    expect(exitCode).toBe(0);
+    expect(getRepoStatus).toHaveBeenCalledWith("/sdks/typescript/user-dev", { fetch: undefined });
+  });
+
+  it("resolves {branch} from the branch template, as generate does", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...mockConfig,
+      stainlessSdkRepos: {
+        typescript: { ...mockConfig.stainlessSdkRepos.typescript, branchTemplate: "{sdk}/{env}" },
+      },
+      defaults: { targetDir: "/sdks/{sdk}/{branch}" },
+    });
+
+    const exitCode = await statusAction(["typescript"], {});
+
+    expect(exitCode).toBe(0);
+    expect(getRepoStatus).toHaveBeenCalledWith("/sdks/typescript/typescript-staging", { fetch: undefined });
+  });
+
+  it("uses the target directory and branch an SDK overrides", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      ...mockConfig,
+      stainlessSdkRepos: {
+        ...mockConfig.stainlessSdkRepos,
+        python: {
+          staging: "git@github.com:org/python-staging.git",
+          targetDir: "/python/{branch}",
+          branch: "next",
+        },
+      },
+    });
+
+    const exitCode = await statusAction([], {});
+
+    expect(exitCode).toBe(0);
+    expect(getRepoStatus).toHaveBeenCalledWith("/sdks/staging/typescript", { fetch: undefined });
+    expect(getRepoStatus).toHaveBeenCalledWith("/python/next", { fetch: undefined });
+  });
+
+  it("fails for an unknown SDK", async () => {
+    const exitCode = await statusAction(["go"], {});
+
+    expect(exitCode).toBe(2);
+    expect(mockSpinner.fail).toHaveBeenCalledWith('SDK "go" not found in configuration');
+  });
+
+  it("returns a non-zero exit code when reading a checkout fails", async () => {
+    vi.mocked(getRepoStatus).mockRejectedValue(new Error("Failed to read repository status"));
+
+    const exitCode = await statusAction(["typescript"], {});
+
+    expect(exitCode).toBe(1);
+    expect(output).toContain("Failed to read repository status");
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadConfig } from "../../../config.js";
+import { validateOpenApiSpec } from "../../../spec-validation.js";
+import { createValidateSpecCommand, validateSpecAction } from "../validate-spec.js";
+
+vi.mock("../../../config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../config.js")>()),
+  loadConfig: vi.fn(),
+}));
+vi.mock("../../../spec-validation.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../spec-validation.js")>()),
+  validateOpenApiSpec: vi.fn(),
+}));
+
+const mockSpinner = {
+  start: vi.fn(() => mockSpinner),
+  succeed: vi.fn(() => mockSpinner),
+  fail: vi.fn(() => mockSpinner),
+  text: "",
+};
+
+vi.mock("ora", () => ({
+  default: vi.fn(() => mockSpinner),
+}));
+
+describe("validate-spec command", () => {
+  let output: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    output = "";
+    vi.spyOn(console, "log").mockImplementation((...args) => {
+      output += `${args.join(" ")}\n`;
+    });
+    vi.spyOn(process, "cwd").mockReturnValue("/project");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("has the correct name, description and options", () => {
+    const command = createValidateSpecCommand();
+
+    expect(command.name()).toBe("validate-spec");
+    expect(command.options.map((option) => option.long)).toEqual(["--config", "--profile"]);
+  });
+
+  it("validates the given files and returns 0 if they are valid", async () => {
+    vi.mocked(validateOpenApiSpec).mockResolvedValue([]);
+
+    const exitCode = await validateSpecAction(["api.yaml", "/abs/other.json"], {});
+
+    expect(exitCode).toBe(0);
+    expect(validateOpenApiSpec).toHaveBeenCalledWith("/project/api.yaml");
+    expect(validateOpenApiSpec).toHaveBeenCalledWith("/abs/other.json");
+    expect(mockSpinner.succeed).toHaveBeenCalledWith("api.yaml is a valid OpenAPI specification");
+    expect(loadConfig).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the OpenAPI file from the configuration", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      stainlessSdkRepos: { typescript: { staging: "git@github.com:org/typescript.git" } },
+      defaults: { openApiFile: "./openapi.yaml" },
+    });
+    vi.mocked(validateOpenApiSpec).mockResolvedValue([]);
+
+    const exitCode = await validateSpecAction([], { config: "./custom.config.js", profile: "ci" });
+
+    expect(exitCode).toBe(0);
+    expect(loadConfig).toHaveBeenCalledWith("./custom.config.js", "ci");
+    expect(validateOpenApiSpec).toHaveBeenCalledWith("/project/openapi.yaml");
+  });
+
+  it("validates the OpenAPI file of each SDK once", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({
+      stainlessSdkRepos: {
+        typescript: { staging: "git@github.com:org/typescript.git" },
+        python: { staging: "git@github.com:org/python.git", openApiFile: "./beta.yaml" },
+        go: { staging: "git@github.com:org/go.git", openApiFile: "beta.yaml" },
+      },
+      defaults: { openApiFile: "./openapi.yaml" },
+    });
+    vi.mocked(validateOpenApiSpec).mockResolvedValue([]);
+
+    const exitCode = await validateSpecAction([], {});
+
+    expect(exitCode).toBe(0);
+    expect(vi.mocked(validateOpenApiSpec).mock.calls).toEqual([["/project/openapi.yaml"], ["/project/beta.yaml"]]);
+  });
+
+  it("fails if no file is given or configured", async () => {
+    vi.mocked(loadConfig).mockResolvedValue({ stainlessSdkRepos: {} });
+
+    const exitCode = await validateSpecAction([], {});
+
+    expect(exitCode).toBe(1);
+    expect(mockSpinner.fail).toHaveBeenCalledWith(expect.stringContaining("No OpenAPI file to validate"));
+  });
+
+  it("prints every issue relative to the given path and returns 1", async () => {
+    vi.mocked(validateOpenApiSpec).mockResolvedValue([
+      { file: "/project/api.yaml", line: 2, pointer: "/info", message: "must have required property 'version'" },
+      { file: "/project/api.yaml", line: 9, pointer: "/paths/~1users/get/foo", message: "is not allowed here" },
+    ]);
+
+    const exitCode = await validateSpecAction(["api.yaml"], {});
+
+    expect(exitCode).toBe(1);
+    expect(mockSpinner.fail).toHaveBeenCalledWith("api.yaml has 2 problem(s)");
+    expect(output).toContain("api.yaml:2 #/info: must have required property 'version'");
+    expect(output).toContain("api.yaml:9 #/paths/~1users/get/foo: is not allowed here");
+  });
+});
@@ -0,0 +1,98 @@
+import chalk from "chalk";
+import { Command } from "commander";
+import { StainlessError } from "../../StainlessError.js";
+import { getConfigJsonSchema } from "../../config-json-schema.js";
+import { getExitCode } from "../exit-codes.js";
+import { formatResolvedOptions } from "../resolved-options.js";
+import type { SdkCommandOptions } from "../types.js";
+import { validateAndProcessOptions } from "../utils.js";
+
+/**
+ * Creates and configures the config command and its subcommands
+ * @returns The configured config command
+ */
+export function createConfigCommand(): Command {
+  return new Command("config")
+    .description("Inspect the configuration")
+    .addCommand(createConfigResolveCommand())
+    .addCommand(createConfigSchemaCommand());
+}
+
+/**
+ * Creates and configures the config resolve command
+ * @returns The configured config resolve command
+ */
+function createConfigResolveCommand(): Command {
+  return new Command("resolve")
+    .description("Show the options an SDK resolves to and where each of them came from")
+    .argument("<sdk-name>", "Name of the SDK to resolve the options for")
+    .option("-b, --branch <branch>", "Git branch to use")
+    .option("-t, --target-dir <dir>", "Directory where the SDK will be generated")
+    .option("-o, --open-api-file <file>", "Path to OpenAPI specification file")
+    .option("-c, --config <file>", "Path to configuration file")
+    .option("-s, --stainless-config-file <file>", "Path to Stainless-specific configuration")
+    .option("-p, --project-name <name>", "Name of the project in Stainless")
+    .option("-g, --guess-config", "Use AI to guess configuration")
+    .option("-e, --env <name>", "Environment whose SDK repository URLs to use (default: staging)")
+    .option("--prod", "Use production URLs instead of staging (alias for --env prod)")
+    .option("--profile <name>", "Configuration profile to use (default: STAINLESS_TOOLS_PROFILE)")
+    .option("--poll-interval <ms>", "Milliseconds between checks of the SDK repository for new commits")
+    .option("--debounce <ms>", "Milliseconds to wait after a change of the spec before publishing")
+    .option("--stability-threshold <ms>", "Milliseconds a changed file must stay the same before it is published")
+    .option("--json", "Output the resolved options as JSON")
+    .action(async (sdkName: string, options: SdkCommandOptions) => {
+      const exitCode = await configResolveAction(sdkName, options);
+      if (exitCode !== 0) {
+        process.exit(exitCode);
+      }
+    });
+}
+
+/**
+ * Creates and configures the config schema command
+ * @returns The configured config schema command
+ */
+function createConfigSchemaCommand(): Command {
+  return new Command("schema").description("Print the JSON Schema of the configuration file").action(() => {
+    configSchemaAction();
+  });
+}
+
+/**
+ * Main function to print the JSON Schema of the configuration file
+ * @returns number - Exit code (always 0)
+ */
+export function configSchemaAction(): number {
+  console.log(JSON.stringify(getConfigJsonSchema(), null, 2));
+  return 0;
+}
+
+/**
+ * Main function to show the resolved options of an SDK
+ * @param sdkName - Name of the SDK to resolve the options for
+ * @param options - The same options the generate and publish-specs commands accept
+ * @returns Promise<number> - Exit code (0 for success, otherwise see getExitCode)
+ */
+export async function configResolveAction(sdkName: string, options: SdkCommandOptions): Promise<number> {
+  try {
+    const { env, explanation } = await validateAndProcessOptions(sdkName, options);
+
+    if (options.json) {
+      console.log(JSON.stringify({ sdkName, env, options: explanation }, null, 2));
+    } else {
+      console.log(chalk.bold(`Resolved options for ${sdkName} (${env}):`));
+      console.log(formatResolvedOptions(explanation));
+    }
+
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : `Unexpected error: ${error}`;
+    if (options.json) {
+      const code = error instanceof StainlessError ? error.code : undefined;
+      console.log(JSON.stringify({ sdkName, error: message, code }, null, 2));
+    } else {
+      console.error(chalk.red(message));
+    }
+    return getExitCode(error);
+  }
+}
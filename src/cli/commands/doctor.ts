@@ -0,0 +1,92 @@
+import chalk from "chalk";
+import { Command } from "commander";
+import ora from "ora";
+import { type DoctorCheck, type DoctorCheckStatus, runDoctorChecks } from "../../doctor.js";
+import { getExitCode } from "../exit-codes.js";
+import type { DoctorCommandOptions } from "../types.js";
+import { resolveEnv, resolveProfile } from "../utils.js";
+
+/**
+ * Symbols and colors used for each check status
+ */
+const STATUS_LABELS: Record<DoctorCheckStatus, string> = {
+  pass: chalk.green("✓ pass"),
+  warn: chalk.yellow("! warn"),
+  fail: chalk.red("✗ fail"),
+};
+
+/**
+ * Creates and configures the doctor command
+ * @returns The configured doctor command
+ */
+export function createDoctorCommand(): Command {
+  return new Command("doctor")
+    .description("Diagnose environment, configuration and git access problems")
+    .argument("[sdk-names...]", "Names of the SDKs to check (defaults to all configured SDKs)")
+    .option("-b, --branch <branch>", "Git branch used to resolve the target directory")
+    .option("-t, --target-dir <dir>", "Directory where the SDK will be generated")
+    .option("-o, --open-api-file <file>", "Path to OpenAPI specification file")
+    .option("-c, --config <file>", "Path to configuration file")
+    .option("-s, --stainless-config-file <file>", "Path to Stainless-specific configuration")
+    .option("-e, --env <name>", "Environment whose SDK repository URLs to use (default: staging)")
+    .option("--prod", "Use production URLs instead of staging (alias for --env prod)")
+    .option("--profile <name>", "Configuration profile to use (default: STAINLESS_TOOLS_PROFILE)")
+    .action(async (sdkNames: string[], options: DoctorCommandOptions) => {
+      const exitCode = await doctorAction(sdkNames, options);
+      if (exitCode !== 0) {
+        process.exit(exitCode);
+      }
+    });
+}
+
+/**
+ * Formats the check results as a table
+ */
+export function formatDoctorTable(checks: DoctorCheck[]): string {
+  const scopeWidth = Math.max("SCOPE".length, ...checks.map((check) => check.scope.length));
+  const nameWidth = Math.max("CHECK".length, ...checks.map((check) => check.name.length));
+
+  const header = chalk.bold(`STATUS  ${"SCOPE".padEnd(scopeWidth)}  ${"CHECK".padEnd(nameWidth)}  DETAILS`);
+  const rows = checks.map(
+    (check) =>
+      `${STATUS_LABELS[check.status]}  ${check.scope.padEnd(scopeWidth)}  ${check.name.padEnd(nameWidth)}  ${check.message}`,
+  );
+
+  return [header, ...rows].join("\n");
+}
+
+/**
+ * Main function to diagnose problems with the environment, configuration and git access
+ * @param sdkNames - Names of the SDKs to check. Checks every configured SDK if empty.
+ * @param options - Configuration options for the checks
+ * @returns Promise<number> - Exit code (0 if no check failed, 1 if a check failed, otherwise see getExitCode)
+ */
+export async function doctorAction(sdkNames: string[], options: DoctorCommandOptions): Promise<number> {
+  const spinner = ora("Running checks...").start();
+
+  try {
+    const checks = await runDoctorChecks({
+      configPath: options.config,
+      sdkNames,
+      branch: options.branch,
+      targetDir: options.targetDir,
+      openApiFile: options["open-api-file"],
+      stainlessConfigFile: options["stainless-config-file"],
+      // Left to the profile when neither --env nor --prod is given
+      env: options.env || options.prod ? resolveEnv(options) : undefined,
+      profile: resolveProfile(options)?.value,
+    });
+    spinner.stop();
+
+    const count = (status: DoctorCheckStatus) => checks.filter((check) => check.status === status).length;
+    const failures = count("fail");
+
+    console.log(`\n${formatDoctorTable(checks)}\n`);
+    console.log(`${count("pass")} passed, ${count("warn")} warning(s), ${failures} failed`);
+
+    return failures > 0 ? 1 : 0;
+  } catch (error) {
+    spinner.fail(error instanceof Error ? error.message : `Unexpected error: ${error}`);
+    return getExitCode(error);
+  }
+}
@@ -1,11 +1,27 @@
-import * as path from "node:path";
+import chalk from "chalk";
 import { Command } from "commander";
-import ora from "ora";
+import { DEFAULT_DEBOUNCE_MS, DEFAULT_STABILITY_THRESHOLD_MS } from "../../FileWatcher.js";
+import { PublishHistory } from "../../PublishHistory.js";
 import { StainlessError } from "../../StainlessError.js";
-import { generateAndWatchSDK } from "../../generate-and-watch-sdk";
-import { getTargetDir } from "../../utils.js";
-import type { SdkCommandOptions } from "../types.js";
-import { validateAndProcessOptions } from "../utils.js";
+import { type StainlessConfig, findConfigFile, findConfigFiles, loadConfig } from "../../config.js";
+import { toErrorEvent } from "../../events.js";
+import {
+  DEFAULT_ONCE_TIMEOUT_MS,
+  DEFAULT_POLL_INTERVAL_MS,
+  type ReloadedOptions,
+  type WatchConfigOptions,
+  type WatchedSDKOptions,
+  generateAndWatchSDK,
+  generateAndWatchSDKs,
+  generateSDKOnce,
+  generateSDKsOnce,
+} from "../../generate-and-watch-sdk";
+import { type Logger, createPrefixedLogger } from "../../logger.js";
+import { SIGNAL_EXIT_CODES, getExitCode } from "../exit-codes.js";
+import { createCommandOutput } from "../output.js";
+import { formatResolvedOptions } from "../resolved-options.js";
+import type { GenerateCommandOptions } from "../types.js";
+import { generateRandomBranchName, validateAndProcessOptions } from "../utils.js";
 
 /**
  * Creates and configures the generate command
@@ -14,7 +30,8 @@ import { validateAndProcessOptions } from "../utils.js";
 export function createGenerateCommand(): Command {
   return new Command("generate")
     .description("Generate an SDK")
-    .argument("<sdk-name>", "Name of the SDK to generate")
+    .argument("[sdk-names...]", "Names of the SDKs to generate")
+    .option("-a, --all", "Generate every SDK defined in the configuration")
     .option("-b, --branch <branch>", "Git branch to use")
     .option("-t, --target-dir <dir>", "Directory where the SDK will be generated")
     .option("-o, --open-api-file <file>", "Path to OpenAPI specification file")
@@ -22,37 +39,226 @@ export function createGenerateCommand(): Command {
     .option("-s, --stainless-config-file <file>", "Path to Stainless-specific configuration")
     .option("-p, --project-name <name>", "Name of the project in Stainless")
     .option("-g, --guess-config", "Use AI to guess configuration")
-    .option("--prod", "Use production URLs instead of staging")
-    .action(async (sdkName: string, options: SdkCommandOptions) => {
-      const exitCode = await generateAction(sdkName, options);
-      if (exitCode !== 0) {
+    .option("-e, --env <name>", "Environment whose SDK repository URLs to use (default: staging)")
+    .option("--prod", "Use production URLs instead of staging (alias for --env prod)")
+    .option("--profile <name>", "Configuration profile to use (default: STAINLESS_TOOLS_PROFILE)")
+    .option(
+      "--poll-interval <ms>",
+      `Milliseconds between checks of the SDK repository for new commits (default: ${DEFAULT_POLL_INTERVAL_MS})`,
+    )
+    .option(
+      "--debounce <ms>",
+      `Milliseconds to wait after a change of the spec before publishing (default: ${DEFAULT_DEBOUNCE_MS})`,
+    )
+    .option(
+      "--stability-threshold <ms>",
+      `Milliseconds a changed file must stay the same before it is published (default: ${DEFAULT_STABILITY_THRESHOLD_MS})`,
+    )
+    .option("--json", "Output newline-delimited JSON events instead of human-readable output")
+    .option("--explain", "Show where each resolved option came from")
+    .option("--once", "Exit after the SDK has been updated once instead of watching (for CI)")
+    .option("--force", "Publish the spec and config even if they have not changed since they were last published")
+    .option(
+      "--timeout <seconds>",
+      `Seconds to wait for the SDK to update with --once (default: ${DEFAULT_ONCE_TIMEOUT_MS / 1000})`,
+    )
+    .action(async (sdkNames: string[], options: GenerateCommandOptions) => {
+      const exitCode = await generateAction(sdkNames, options);
+      if (exitCode !== 0 || options.once) {
         process.exit(exitCode);
       }
     });
 }
 
+/**
+ * Determines which SDKs to generate from the command arguments and the --all flag
+ */
+async function resolveSdkNames(sdkNames: string | string[], options: GenerateCommandOptions): Promise<string[]> {
+  const names = typeof sdkNames === "string" ? [sdkNames] : sdkNames;
+
+  if (options.all) {
+    if (names.length > 0) {
+      throw new StainlessError("SDK names cannot be combined with --all");
+    }
+
+    const config = await loadConfig(options.config);
+    return Object.keys(config.stainlessSdkRepos);
+  }
+
+  if (names.length === 0) {
+    throw new StainlessError("Specify at least one SDK name or use --all to generate every configured SDK");
+  }
+
+  return [...new Set(names)];
+}
+
+/**
+ * Parses the --timeout option into milliseconds
+ */
+function parseTimeout(timeout: string | undefined): number | undefined {
+  if (timeout === undefined) {
+    return undefined;
+  }
+
+  const seconds = Number(timeout);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new StainlessError(`Invalid --timeout "${timeout}": expected a positive number of seconds`);
+  }
+
+  return seconds * 1000;
+}
+
+/**
+ * Resolves the options for a single SDK and logs its configuration details
+ */
+async function resolveWatchedSDK(
+  sdkName: string,
+  options: GenerateCommandOptions,
+  logger: Logger,
+  fallbackBranch?: string,
+): Promise<{ sdk: WatchedSDKOptions; config: StainlessConfig }> {
+  // Validate and process options
+  const {
+    branch,
+    targetDir,
+    openApiFile,
+    stainlessConfigFile,
+    projectName,
+    guessConfig,
+    pollIntervalMs,
+    debounceMs,
+    stabilityThresholdMs,
+    sdkRepo,
+    env,
+    config,
+    explanation,
+  } = await validateAndProcessOptions(sdkName, options, fallbackBranch);
+
+  const waitingMessage = options.once
+    ? "\nWaiting for the SDK repository to update..."
+    : "\nWatching for changes in the SDK repository...";
+
+  if (options.explain) {
+    logger.log(`\nResolved options (${env}):`);
+    logger.log(formatResolvedOptions(explanation));
+    logger.log(waitingMessage);
+  } else {
+    // Log configuration details
+    logger.log(`\nSDK Repository (${env}): ${sdkRepo}`);
+    if (openApiFile || stainlessConfigFile) {
+      logger.log(`Project name: ${projectName}`);
+    }
+
+    logger.log(waitingMessage);
+    logger.log(`Branch: ${branch}`);
+    logger.log(`Target directory: ${targetDir}`);
+    if (openApiFile) {
+      logger.log(`OpenAPI file: ${openApiFile}`);
+    }
+    if (stainlessConfigFile) {
+      logger.log(`Stainless config file: ${stainlessConfigFile}`);
+    }
+  }
+  logger.log();
+
+  return {
+    sdk: {
+      sdkName,
+      sdkRepo,
+      branch,
+      targetDir,
+      openApiFile,
+      stainlessConfigFile,
+      stainlessApiOptions: {
+        projectName,
+        guessConfig,
+      },
+      env,
+      projectName,
+      pollIntervalMs,
+      debounceMs,
+      stabilityThresholdMs,
+    },
+    config,
+  };
+}
+
+/**
+ * Watches the configuration file, re-resolving the options of the watched SDKs when it changes
+ * @returns The options to watch the configuration file with, or undefined if there is no file to watch
+ */
+async function createWatchConfigOptions(
+  sdks: WatchedSDKOptions[],
+  options: GenerateCommandOptions,
+): Promise<WatchConfigOptions | undefined> {
+  const configFile = await findConfigFile(options.config);
+  if (!configFile) {
+    return undefined;
+  }
+
+  return {
+    configFile,
+    getConfigFiles: () => findConfigFiles(options.config),
+    reload: async (): Promise<ReloadedOptions> => {
+      const reloaded: WatchedSDKOptions[] = [];
+      let lifecycle: StainlessConfig["lifecycle"];
+
+      // With --all, SDKs added to or removed from the configuration are reported as requiring a restart
+      const sdkNames = options.all ? await resolveSdkNames([], options) : sdks.map(({ sdkName }) => sdkName);
+      for (const sdkName of sdkNames) {
+        // The running branch stands in for a generated one, which would differ on every reload
+        const branch = sdks.find((sdk) => sdk.sdkName === sdkName)?.branch;
+        const resolved = await validateAndProcessOptions(sdkName, options, branch);
+        reloaded.push({
+          sdkName,
+          sdkRepo: resolved.sdkRepo,
+          branch: resolved.branch,
+          targetDir: resolved.targetDir,
+          openApiFile: resolved.openApiFile,
+          stainlessConfigFile: resolved.stainlessConfigFile,
+          stainlessApiOptions: {
+            projectName: resolved.projectName,
+            guessConfig: resolved.guessConfig,
+          },
+          env: resolved.env,
+          projectName: resolved.projectName,
+          pollIntervalMs: resolved.pollIntervalMs,
+          debounceMs: resolved.debounceMs,
+          stabilityThresholdMs: resolved.stabilityThresholdMs,
+        });
+        lifecycle = resolved.config.lifecycle;
+      }
+
+      return { sdks: reloaded, lifecycle };
+    },
+  };
+}
+
 /**
  * Main function to handle SDK generation
- * @param sdkName - Name of the SDK to generate
+ * @param sdkNames - Name or names of the SDKs to generate. Ignored when options.all is set.
  * @param options - Configuration options for generation
- * @returns Promise<number> - Exit code (0 for success, 1 for failure)
+ * @returns Promise<number> - Exit code (0 for success, otherwise see getExitCode). With --once, success means every SDK was updated.
  */
-export async function generateAction(sdkName: string, options: SdkCommandOptions): Promise<number> {
-  const spinner = ora("Loading configuration...").start();
+export async function generateAction(sdkNames: string | string[], options: GenerateCommandOptions): Promise<number> {
+  const output = createCommandOutput(options.json, "Loading configuration...");
+  const { spinner, logger, onEvent } = output;
+  const publishOptions = { publishHistory: new PublishHistory(), force: options.force };
   let cleanup: (() => Promise<void>) | undefined;
 
   /**
    * Handler for graceful shutdown
-   * Ensures proper cleanup when the process is terminated
+   * Ensures proper cleanup of every SDK when the process is terminated. Stopping a watch succeeds, while
+   * interrupting --once fails, so that a cancelled CI job does not report the SDK as updated.
    */
-  async function handleExit() {
+  async function handleExit(signal: keyof typeof SIGNAL_EXIT_CODES) {
     spinner.stop();
     if (cleanup) {
       await cleanup();
       // Give time for any remaining operations to complete
       await new Promise((resolve) => setTimeout(resolve, 100));
     }
-    process.exit(0);
+    process.exit(options.once ? SIGNAL_EXIT_CODES[signal] : 0);
   }
 
   // Setup signal handlers for graceful shutdown
@@ -60,56 +266,82 @@ export async function generateAction(sdkName: string, options: SdkCommandOptions
   process.on("SIGTERM", handleExit);
 
   try {
-    // Validate and process options
-    const { branch, openApiFile, stainlessConfigFile, projectName, guessConfig, sdkRepo, config } =
-      await validateAndProcessOptions(sdkName, options);
-
-    // Resolve target directory path
-    const baseDir = process.cwd();
-    const targetDir = path.resolve(
-      baseDir,
-      getTargetDir({
-        targetDir: options.targetDir || config.defaults?.targetDir || "./sdks/{sdk}",
-        sdkName,
-        env: options.prod ? "prod" : "staging",
-        branch,
-      }),
-    );
+    const names = await resolveSdkNames(sdkNames, options);
+    const timeoutMs = parseTimeout(options.timeout);
 
-    // Log configuration details
-    console.log(`\nSDK Repository (${options.prod ? "prod" : "staging"}): ${sdkRepo}`);
-    if (openApiFile || stainlessConfigFile) {
-      console.log(`Project name: ${projectName}`);
+    if (timeoutMs !== undefined && !options.once) {
+      throw new StainlessError("--timeout can only be used with --once");
     }
 
-    console.log("\nWatching for changes in the SDK repository...");
-    console.log(`Branch: ${branch}`);
-    console.log(`Target directory: ${targetDir}`);
-    if (openApiFile) {
-      console.log(`OpenAPI file: ${openApiFile}`);
+    if (names.length === 1) {
+      const { sdk, config } = await resolveWatchedSDK(names[0], options, logger);
+      onEvent?.({ type: "config-loaded", sdkNames: names });
+
+      if (options.once) {
+        spinner.text = "Waiting for the SDK to update...";
+        const updated = await generateSDKOnce({
+          ...sdk,
+          ...output,
+          ...publishOptions,
+          lifecycle: config.lifecycle,
+          timeoutMs,
+        });
+        spinner.succeed(updated ? "SDK updated" : "SDK already up to date");
+        return 0;
+      }
+
+      // Start watching for changes
+      spinner.text = "Listening for changes...";
+      cleanup = await generateAndWatchSDK({
+        ...sdk,
+        ...output,
+        ...publishOptions,
+        lifecycle: config.lifecycle,
+        watchConfig: await createWatchConfigOptions([sdk], options),
+      });
+
+      return 0;
     }
-    if (stainlessConfigFile) {
-      console.log(`Stainless config file: ${stainlessConfigFile}`);
+
+    // Share a single generated branch so the spec is only published once when no branch is configured
+    const fallbackBranch = generateRandomBranchName();
+    const resolved: { sdk: WatchedSDKOptions; config: StainlessConfig }[] = [];
+    for (const sdkName of names) {
+      resolved.push(
+        await resolveWatchedSDK(sdkName, options, createPrefixedLogger(`[${sdkName}]`, logger), fallbackBranch),
+      );
+    }
+    onEvent?.({ type: "config-loaded", sdkNames: names });
+
+    if (options.once) {
+      spinner.text = `Waiting for ${names.length} SDKs to update...`;
+      const upToDateSdkNames = await generateSDKsOnce({
+        sdks: resolved.map(({ sdk }) => sdk),
+        ...output,
+        ...publishOptions,
+        lifecycle: resolved[0].config.lifecycle,
+        timeoutMs,
+      });
+      const updatedCount = names.length - upToDateSdkNames.length;
+      spinner.succeed(
+        upToDateSdkNames.length === 0
+          ? `${names.length} SDKs updated`
+          : updatedCount === 0
+            ? `${names.length} SDKs already up to date`
+            : `${updatedCount} of ${names.length} SDKs updated, ${upToDateSdkNames.join(", ")} already up to date`,
+      );
+      return 0;
     }
-    console.log();
 
     // Start watching for changes
-    spinner.text = "Listening for changes...";
-    cleanup = await generateAndWatchSDK({
-      sdkName,
-      sdkRepo,
-      branch,
-      targetDir,
-      openApiFile,
-      stainlessConfigFile,
-      spinner,
-      stainlessApiOptions: {
-        projectName,
-        guessConfig,
-      },
-      env: options.prod ? "prod" : "staging",
-      lifecycle: config.lifecycle,
-      projectName,
+    spinner.text = `Listening for changes in ${names.length} SDKs...`;
+    const sdks = resolved.map(({ sdk }) => sdk);
+    cleanup = await generateAndWatchSDKs({
+      sdks,
+      ...output,
+      ...publishOptions,
+      lifecycle: resolved[0].config.lifecycle,
+      watchConfig: await createWatchConfigOptions(sdks, options),
     });
 
     return 0;
@@ -121,10 +353,14 @@ export async function generateAction(sdkName: string, options: SdkCommandOptions
     } else {
       spinner.fail(`Unexpected error: ${error}`);
     }
-    return 1;
+    onEvent?.(toErrorEvent(error));
+    logger.log(chalk.dim('\nRun "stainless-tools doctor" to check your environment, configuration and git access.'));
+    return getExitCode(error);
   } finally {
-    // Cleanup: remove signal handlers
-    process.off("SIGINT", handleExit);
-    process.off("SIGTERM", handleExit);
+    // Keep the signal handlers while watching, so that Ctrl+C stops the watchers and any publish in flight
+    if (!cleanup) {
+      process.off("SIGINT", handleExit);
+      process.off("SIGTERM", handleExit);
+    }
   }
 }
@@ -0,0 +1,265 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import chalk from "chalk";
+import { Command, Option } from "commander";
+import YAML from "yaml";
+import { CONFIG_JSON_SCHEMA_PATH } from "../../config-json-schema.js";
+import { LEGACY_MODULE_NAME, type StainlessConfig, configSchema, createConfigExplorer } from "../../config.js";
+import { isValidGitUrl } from "../../utils.js";
+import { Prompter } from "../prompt.js";
+import type { InitCommandOptions } from "../types.js";
+
+/**
+ * Config file formats supported by the init command
+ */
+export const CONFIG_FORMATS = ["js", "json", "yaml", "ts"] as const;
+
+export type ConfigFormat = (typeof CONFIG_FORMATS)[number];
+
+/**
+ * File names written for each config format. All of them are found by cosmiconfig.
+ */
+export const CONFIG_FILE_NAMES: Record<ConfigFormat, string> = {
+  js: "stainless-tools.config.js",
+  json: ".stainless-toolsrc.json",
+  yaml: ".stainless-toolsrc.yml",
+  ts: "stainless-tools.config.ts",
+};
+
+/**
+ * Creates and configures the init command
+ * @returns The configured init command
+ */
+export function createInitCommand(): Command {
+  return new Command("init")
+    .description("Create a stainless-tools configuration file")
+    .addOption(new Option("-f, --format <format>", "Format of the configuration file").choices(CONFIG_FORMATS))
+    .option("--force", "Overwrite existing files without asking")
+    .action(async (options: InitCommandOptions) => {
+      const exitCode = await initAction(options);
+      if (exitCode !== 0) {
+        process.exit(exitCode);
+      }
+    });
+}
+
+/**
+ * Serializes a configuration in the given format
+ */
+export function serializeConfig(config: StainlessConfig, format: ConfigFormat): string {
+  const json = JSON.stringify(config, null, 2);
+
+  switch (format) {
+    case "json":
+      return `${JSON.stringify({ $schema: CONFIG_JSON_SCHEMA_PATH, ...config }, null, 2)}\n`;
+    case "yaml":
+      return `# yaml-language-server: $schema=${CONFIG_JSON_SCHEMA_PATH}\n${YAML.stringify(config)}`;
+    case "ts":
+      // A type-only import, removed when compiling, so the configuration loads where stainless-tools is not installed
+      return `import type { StainlessConfig } from "stainless-tools";\n\nexport default ${json} satisfies StainlessConfig;\n`;
+    default:
+      return `/** @type {import('stainless-tools').StainlessConfig} */\nmodule.exports = ${json};\n`;
+  }
+}
+
+/**
+ * Validates a git URL answer
+ */
+function validateGitUrl(value: string): string | undefined {
+  return isValidGitUrl(value) ? undefined : `"${value}" is not a valid git URL (e.g. git@github.com:org/repo.git)`;
+}
+
+/**
+ * Splits a comma or space separated list of names
+ */
+function parseList(value: string): string[] {
+  return [...new Set(value.split(/[\s,]+/).filter(Boolean))];
+}
+
+/**
+ * Checks whether a file exists
+ */
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Asks for the repository URLs of a single SDK
+ */
+async function promptSdkRepos(
+  prompter: Prompter,
+  sdkName: string,
+  projectName: string,
+): Promise<StainlessConfig["stainlessSdkRepos"][string]> {
+  const staging = await prompter.ask(`${sdkName}: staging repository URL`, {
+    defaultValue: `git@github.com:stainless-sdks/${projectName}-${sdkName}.git`,
+    validate: validateGitUrl,
+  });
+  const prod = await prompter.ask(`${sdkName}: production repository URL (optional)`, {
+    validate: validateGitUrl,
+  });
+
+  return prod ? { staging, prod } : { staging };
+}
+
+/**
+ * Asks for the optional lifecycle hooks of every SDK
+ */
+async function promptLifecycle(prompter: Prompter, sdkNames: string[]): Promise<StainlessConfig["lifecycle"]> {
+  const lifecycle: NonNullable<StainlessConfig["lifecycle"]> = {};
+
+  for (const sdkName of sdkNames) {
+    const hooks = {
+      prePublishSpec: await prompter.ask(`${sdkName}: prePublishSpec command (optional)`),
+      postClone: await prompter.ask(`${sdkName}: postClone command (optional)`),
+      postUpdate: await prompter.ask(`${sdkName}: postUpdate command (optional)`),
+    };
+
+    const definedHooks = Object.fromEntries(Object.entries(hooks).filter(([, command]) => command));
+    if (Object.keys(definedHooks).length > 0) {
+      lifecycle[sdkName] = definedHooks;
+    }
+  }
+
+  return Object.keys(lifecycle).length > 0 ? lifecycle : undefined;
+}
+
+/**
+ * Adds a STAINLESS_API_KEY entry to the .env file unless one is already present
+ * @returns Whether the .env file was changed
+ */
+async function writeEnvStub(envPath: string): Promise<boolean> {
+  let contents = "";
+  try {
+    contents = await fs.readFile(envPath, "utf-8");
+  } catch {
+    // No .env file yet
+  }
+
+  if (/^\s*STAINLESS_API_KEY\s*=/m.test(contents)) {
+    return false;
+  }
+
+  const separator = contents && !contents.endsWith("\n") ? "\n" : "";
+  await fs.writeFile(envPath, `${contents}${separator}STAINLESS_API_KEY=\n`);
+  return true;
+}
+
+/**
+ * Finds a configuration the same way loading one does, including files named after stainless-tools v1,
+ * so that init does not create a second configuration next to it
+ */
+async function findExistingConfig(): Promise<{ filepath: string; legacy: boolean } | undefined> {
+  const existing = await createConfigExplorer().search();
+  if (existing) {
+    return { filepath: existing.filepath, legacy: false };
+  }
+  const legacy = await createConfigExplorer(LEGACY_MODULE_NAME).search();
+  return legacy ? { filepath: legacy.filepath, legacy: true } : undefined;
+}
+
+/**
+ * Main function to interactively create a configuration file
+ * @param options - Options for the init command
+ * @param prompter - Prompter used to ask questions
+ * @returns Promise<number> - Exit code (0 for success, 1 for failure)
+ */
+export async function initAction(options: InitCommandOptions, prompter: Prompter = new Prompter()): Promise<number> {
+  try {
+    const existing = await findExistingConfig();
+    if (existing && !options.force) {
+      console.log(chalk.yellow(`\nAn existing configuration was found at ${existing.filepath}`));
+      if (existing.legacy) {
+        console.log(
+          chalk.yellow('It uses the name of stainless-tools v1. Run "stainless-tools migrate-config" to update it.'),
+        );
+      }
+      if (!(await prompter.confirm("Create a new configuration anyway?"))) {
+        console.log("Aborted, no files were written.");
+        return 1;
+      }
+    }
+
+    console.log(chalk.bold("\nThis will create a stainless-tools configuration file.\n"));
+
+    const projectName = await prompter.ask("Stainless project name", { required: true });
+    const openApiFile = await prompter.ask("Path to the OpenAPI specification file", {
+      defaultValue: "./openapi.yml",
+    });
+    const stainlessConfigFile = await prompter.ask("Path to the Stainless config file (optional)");
+    const sdkNames = parseList(
+      await prompter.ask("SDK names, separated by commas", {
+        defaultValue: "typescript",
+        validate: (value) => (parseList(value).length > 0 ? undefined : "At least one SDK name is required."),
+      }),
+    );
+
+    const stainlessSdkRepos: StainlessConfig["stainlessSdkRepos"] = {};
+    for (const sdkName of sdkNames) {
+      stainlessSdkRepos[sdkName] = await promptSdkRepos(prompter, sdkName, projectName);
+    }
+
+    const branch = await prompter.ask("Default SDK branch (optional, e.g. <username>/dev)");
+    const targetDir = await prompter.ask("Target directory for generated SDKs", {
+      defaultValue: "./sdks/{sdk}",
+    });
+
+    const lifecycle = (await prompter.confirm("Configure lifecycle hooks?"))
+      ? await promptLifecycle(prompter, sdkNames)
+      : undefined;
+
+    const format = options.format ?? (await prompter.select("Configuration file format", CONFIG_FORMATS, "js"));
+
+    const config = configSchema.parse({
+      stainlessSdkRepos,
+      ...(lifecycle && { lifecycle }),
+      defaults: {
+        projectName,
+        openApiFile,
+        ...(stainlessConfigFile && { stainlessConfigFile }),
+        ...(branch && { branch }),
+        targetDir,
+      },
+    });
+
+    const configPath = path.resolve(process.cwd(), CONFIG_FILE_NAMES[format]);
+    if ((await fileExists(configPath)) && !options.force) {
+      if (!(await prompter.confirm(`${CONFIG_FILE_NAMES[format]} already exists. Overwrite it?`))) {
+        console.log("Aborted, no files were written.");
+        return 1;
+      }
+    }
+
+    await fs.writeFile(configPath, serializeConfig(config, format));
+    console.log(chalk.green(`\n✓ Created ${configPath}`));
+
+    const envPath = path.resolve(process.cwd(), ".env");
+    if (await writeEnvStub(envPath)) {
+      console.log(chalk.green(`✓ Added STAINLESS_API_KEY to ${envPath}`));
+    }
+
+    if (format === "ts") {
+      console.log(chalk.yellow("\nLoading a TypeScript configuration requires typescript to be installed."));
+    }
+
+    console.log("\nNext steps:");
+    console.log(`1. Set STAINLESS_API_KEY in ${envPath}`);
+    console.log(`2. Run: stainless-tools generate ${sdkNames[0] ?? "<sdk-name>"}`);
+
+    return 0;
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+    } else {
+      console.error(chalk.red(`Unexpected error: ${error}`));
+    }
+    return 1;
+  } finally {
+    prompter.close();
+  }
+}
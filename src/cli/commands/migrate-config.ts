@@ -0,0 +1,77 @@
+import * as path from "node:path";
+import chalk from "chalk";
+import { Command } from "commander";
+import { diffLines, migrateConfig } from "../../config-migration.js";
+import { getExitCode } from "../exit-codes.js";
+import type { MigrateConfigCommandOptions } from "../types.js";
+
+/**
+ * Creates and configures the migrate-config command
+ * @returns The configured migrate-config command
+ */
+export function createMigrateConfigCommand(): Command {
+  return new Command("migrate-config")
+    .description("Update a configuration file from the formats of older versions of stainless-tools")
+    .option("-c, --config <file>", "Path to configuration file")
+    .option("--dry-run", "Print the changes without writing them")
+    .action(async (options: MigrateConfigCommandOptions) => {
+      const exitCode = await migrateConfigAction(options);
+      if (exitCode !== 0) {
+        process.exit(exitCode);
+      }
+    });
+}
+
+/**
+ * Colors a line of a diff by whether it was added or removed
+ */
+function colorDiffLine(line: string): string {
+  if (line.startsWith("+")) {
+    return chalk.green(line);
+  }
+  if (line.startsWith("-")) {
+    return chalk.red(line);
+  }
+  return chalk.dim(line);
+}
+
+/**
+ * Main function to migrate a configuration file
+ * @param options - Configuration options for the migration
+ * @returns Promise<number> - Exit code (0 for success, otherwise see getExitCode)
+ */
+export async function migrateConfigAction(options: MigrateConfigCommandOptions): Promise<number> {
+  try {
+    const migration = await migrateConfig({ configPath: options.config, dryRun: options.dryRun });
+    const relative = (file: string) => path.relative(process.cwd(), file) || file;
+
+    if (!migration.renamedTo && migration.before === migration.after) {
+      console.log(chalk.green(`${relative(migration.filepath)} is already up to date`));
+      return 0;
+    }
+
+    const verb = options.dryRun ? "Would rename" : "Renamed";
+    if (migration.renamedTo) {
+      console.log(`${verb} ${relative(migration.filepath)} to ${relative(migration.renamedTo)}`);
+    }
+
+    if (migration.before !== migration.after) {
+      console.log(chalk.bold(`\n${relative(migration.renamedTo ?? migration.filepath)}`));
+      console.log(diffLines(migration.before, migration.after).map(colorDiffLine).join("\n"));
+      console.log(
+        `\nThe repository URL of ${migration.migratedSdkNames.join(", ")} is now used for the staging environment. Add a "prod" URL to use --prod.`,
+      );
+    }
+
+    if (options.dryRun) {
+      console.log(chalk.yellow("\nDry run, no files were changed"));
+    } else {
+      console.log(chalk.green("\n✓ Configuration migrated"));
+    }
+
+    return 0;
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : `Unexpected error: ${error}`));
+    return getExitCode(error);
+  }
+}
@@ -0,0 +1,109 @@
+import * as fs from "node:fs/promises";
+import chalk from "chalk";
+import { Command } from "commander";
+import { StainlessError } from "../../StainlessError.js";
+import { type MockResponse, parseMockResponses, startMockServer } from "../../mock-server.js";
+import { getExitCode } from "../exit-codes.js";
+import type { MockServerCommandOptions } from "../types.js";
+import { parseMilliseconds } from "../utils.js";
+
+/**
+ * Default port of the mock server, which is unlikely to be taken by a development server
+ */
+export const DEFAULT_MOCK_SERVER_PORT = 4010;
+
+/**
+ * Creates and configures the mock-server command
+ * @returns The configured mock-server command
+ */
+export function createMockServerCommand(): Command {
+  return new Command("mock-server")
+    .description("Serve a local mock of the Stainless API, e.g. to run generate offline")
+    .option("-p, --port <port>", "Port to listen on", String(DEFAULT_MOCK_SERVER_PORT))
+    .option("--host <host>", "Host to listen on", "127.0.0.1")
+    .option("--api-key <key>", "API key publishes must use (default: any)")
+    .option("--record-dir <dir>", "Directory to write each received spec and config to")
+    .option("--script <file>", "JSON file with the responses to return, in order, before publishes succeed")
+    .option("--delay <ms>", "Time in milliseconds to wait before each response")
+    .option("--sdk-repo <dir>", "Bare git repository to commit a fake generated change to after each publish")
+    .option("--commit-delay <ms>", "Time in milliseconds between a publish and its generated commit (default: 1000)")
+    .action(async (options: MockServerCommandOptions) => {
+      const exitCode = await mockServerAction(options);
+      if (exitCode !== 0) {
+        process.exit(exitCode);
+      }
+    });
+}
+
+/**
+ * Parses the --port option
+ * @throws {StainlessError} If the port is not a whole number between 0 and 65535
+ */
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (value.trim() === "" || !Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new StainlessError(`Invalid --port "${value}": expected a whole number between 0 and 65535`);
+  }
+  return port;
+}
+
+/**
+ * Reads the responses of the --script option
+ * @throws {StainlessError} If the file cannot be read, or does not hold valid responses
+ */
+async function readScript(file: string): Promise<MockResponse[]> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch (error) {
+    throw new StainlessError(
+      `Failed to read --script ${file}: ${error instanceof Error ? error.message : error}`,
+      error,
+    );
+  }
+  return parseMockResponses(json);
+}
+
+/**
+ * Main function to start the mock server, which keeps running until the process is terminated
+ * @param options - Configuration options for the mock server
+ * @returns Promise<number> - Exit code once the server is listening (0 on success, otherwise see getExitCode)
+ */
+export async function mockServerAction(options: MockServerCommandOptions): Promise<number> {
+  try {
+    const server = await startMockServer({
+      port: parsePort(options.port),
+      host: options.host,
+      apiKey: options.apiKey,
+      recordDir: options.recordDir,
+      responses: options.script ? await readScript(options.script) : undefined,
+      delayMs: parseMilliseconds(options.delay, "--delay", true),
+      sdkRepo: options.sdkRepo,
+      commitDelayMs: parseMilliseconds(options.commitDelay, "--commit-delay", true),
+    });
+
+    console.log(chalk.green(`Mock Stainless API listening on ${server.url}`));
+    console.log(chalk.dim("\nPublish to it by running the other commands with:"));
+    console.log(`  STAINLESS_API_BASE_URL=${server.url} STAINLESS_API_KEY=${options.apiKey ?? "mock"}`);
+    if (server.sdkRepoUrl) {
+      console.log(chalk.dim("\nPublishes are followed by a generated commit to the SDK repository:"));
+      console.log(`  ${server.sdkRepoUrl}`);
+    }
+    if (options.recordDir) {
+      console.log(chalk.dim(`\nPublishes are recorded to ${options.recordDir}`));
+    }
+    console.log(chalk.dim("\nPress Ctrl+C to stop.\n"));
+
+    const handleExit = async () => {
+      await server.close();
+      process.exit(0);
+    };
+    process.once("SIGINT", handleExit);
+    process.once("SIGTERM", handleExit);
+
+    return 0;
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : `Unexpected error: ${error}`));
+    return getExitCode(error);
+  }
+}
@@ -1,7 +1,11 @@
 import { Command } from "commander";
-import ora from "ora";
+import { PublishHistory, hashPublishContents } from "../../PublishHistory.js";
 import { StainlessApi } from "../../StainlessApi.js";
 import { StainlessError } from "../../StainlessError.js";
+import { toErrorEvent } from "../../events.js";
+import { assertValidOpenApiSpec } from "../../spec-validation.js";
+import { getExitCode } from "../exit-codes.js";
+import { createCommandOutput } from "../output.js";
 import type { SdkCommandOptions } from "../types.js";
 import { readFileContents, validateAndProcessOptions } from "../utils.js";
 
@@ -20,7 +24,10 @@ export function createPublishSpecsCommand(): Command {
     .option("-s, --stainless-config-file <file>", "Path to Stainless-specific configuration")
     .option("-p, --project-name <name>", "Name of the project in Stainless")
     .option("-g, --guess-config", "Use AI to guess configuration")
-    .option("--prod", "Use production URLs instead of staging")
+    .option("-e, --env <name>", "Environment whose SDK repository URLs to use (default: staging)")
+    .option("--prod", "Use production URLs instead of staging (alias for --env prod)")
+    .option("--profile <name>", "Configuration profile to use (default: STAINLESS_TOOLS_PROFILE)")
+    .option("--json", "Output newline-delimited JSON events instead of human-readable output")
     .action(async (sdkName: string, options: SdkCommandOptions) => {
       const exitCode = await publishSpecsAction(sdkName, options);
       if (exitCode !== 0) {
@@ -33,10 +40,19 @@ export function createPublishSpecsCommand(): Command {
  * Main function to handle SDK specification publication
  * @param sdkName - Name of the SDK to publish specifications for
  * @param options - Configuration options for publication
- * @returns Promise<number> - Exit code (0 for success, 1 for failure)
+ * @returns Promise<number> - Exit code (0 for success, otherwise see getExitCode)
  */
 export async function publishSpecsAction(sdkName: string, options: SdkCommandOptions): Promise<number> {
-  const spinner = ora("Loading configuration...").start();
+  const { spinner, logger, onEvent } = createCommandOutput(options.json, "Loading configuration...");
+
+  /**
+   * Reports a failure through the spinner and as an error event
+   */
+  function fail(message: string, error?: unknown): number {
+    spinner.fail(message);
+    onEvent?.(toErrorEvent(error ?? new StainlessError(message)));
+    return getExitCode(error);
+  }
 
   try {
     // Validate and process options first
@@ -45,11 +61,11 @@ export async function publishSpecsAction(sdkName: string, options: SdkCommandOpt
       validatedOptions = await validateAndProcessOptions(sdkName, options);
     } catch (error) {
       if (error instanceof StainlessError) {
-        spinner.fail(error.message);
-        return 1;
+        return fail(error.message, error);
       }
       throw error;
     }
+    onEvent?.({ type: "config-loaded", sdkNames: [sdkName] });
 
     const { branch, openApiFile, stainlessConfigFile, projectName, guessConfig } = validatedOptions;
 
@@ -59,10 +75,12 @@ export async function publishSpecsAction(sdkName: string, options: SdkCommandOpt
     try {
       spec = await readFileContents(openApiFile);
     } catch (error) {
-      spinner.fail(`Failed to read OpenAPI specification: ${error}`);
-      return 1;
+      return fail(`Failed to read OpenAPI specification: ${error}`, error);
     }
 
+    spinner.text = "Validating OpenAPI specification...";
+    await assertValidOpenApiSpec(openApiFile, spec);
+
     // Read Stainless config if provided
     let config: string | undefined;
     if (stainlessConfigFile) {
@@ -70,13 +88,12 @@ export async function publishSpecsAction(sdkName: string, options: SdkCommandOpt
       try {
         config = await readFileContents(stainlessConfigFile);
       } catch (error) {
-        spinner.fail(`Failed to read Stainless configuration: ${error}`);
-        return 1;
+        return fail(`Failed to read Stainless configuration: ${error}`, error);
       }
     }
 
     // Initialize StainlessApi client
-    const api = new StainlessApi();
+    const api = new StainlessApi({ logger, onEvent, spinner });
 
     // Publish to Stainless
     spinner.text = "Publishing specifications to Stainless...";
@@ -88,14 +105,23 @@ export async function publishSpecsAction(sdkName: string, options: SdkCommandOpt
       guessConfig,
     });
 
+    // Lets generate skip publishing the same files again, and not skip publishing the files it published before
+    const publishHistory = new PublishHistory();
+    try {
+      await publishHistory.record(
+        { branch, projectName, baseUrl: api.baseUrl },
+        hashPublishContents({ spec, config, branch, projectName, guessConfig }),
+      );
+    } catch (error) {
+      logger.error(`Failed to record the publish in ${publishHistory.filepath}:`, error);
+    }
+
     spinner.succeed("Successfully published specifications to Stainless");
     return 0;
   } catch (error) {
     if (error instanceof StainlessError) {
-      spinner.fail(error.message);
-    } else {
-      spinner.fail(`Unexpected error: ${error}`);
+      return fail(error.message, error);
     }
-    return 1;
+    return fail(`Unexpected error: ${error}`, error);
   }
 }
@@ -0,0 +1,194 @@
+import * as path from "node:path";
+import chalk from "chalk";
+import { Command } from "commander";
+import ora from "ora";
+import { ConfigError, StainlessError } from "../../StainlessError.js";
+import { type StainlessConfig, getSdkRepoUrls, loadConfig } from "../../config.js";
+import { type RepoStatus, getRepoStatus } from "../../repo-status.js";
+import { BRANCH_SOURCES_HINT, resolveSdkBranch } from "../../sdk-branch.js";
+import { getTargetDir, getTemplateVariableNames } from "../../template.js";
+import { isSameRepository } from "../../utils.js";
+import { getExitCode } from "../exit-codes.js";
+import type { StatusCommandOptions } from "../types.js";
+import { resolveEnv, resolveProfile } from "../utils.js";
+
+/**
+ * Creates and configures the status command
+ * @returns The configured status command
+ */
+export function createStatusCommand(): Command {
+  return new Command("status")
+    .description("Show the state of local SDK checkouts")
+    .argument("[sdk-names...]", "Names of the SDKs to report on (defaults to all configured SDKs)")
+    .option("-b, --branch <branch>", "Git branch used to resolve the target directory")
+    .option("-t, --target-dir <dir>", "Directory where the SDK is generated")
+    .option("-c, --config <file>", "Path to configuration file")
+    .option("-e, --env <name>", "Environment whose SDK repository URLs to use (default: staging)")
+    .option("--prod", "Use production URLs instead of staging (alias for --env prod)")
+    .option("--profile <name>", "Configuration profile to use (default: STAINLESS_TOOLS_PROFILE)")
+    .option("-f, --fetch", "Fetch from origin before comparing with the remote branch")
+    .action(async (sdkNames: string[], options: StatusCommandOptions) => {
+      const exitCode = await statusAction(sdkNames, options);
+      if (exitCode !== 0) {
+        process.exit(exitCode);
+      }
+    });
+}
+
+/**
+ * Describes whether the origin of a checkout matches the configured repository URLs
+ */
+function describeOrigin(
+  originUrl: string | undefined,
+  repoConfig: StainlessConfig["stainlessSdkRepos"][string],
+  env: string,
+): string {
+  if (!originUrl) {
+    return chalk.red("no origin remote");
+  }
+
+  const repoUrls = getSdkRepoUrls(repoConfig);
+  const expectedUrl = repoUrls[env];
+  if (expectedUrl && isSameRepository(originUrl, expectedUrl)) {
+    return `${originUrl} ${chalk.green(`(matches ${env})`)}`;
+  }
+
+  const otherEnv = Object.keys(repoUrls).find(
+    (otherEnv) => otherEnv !== env && isSameRepository(originUrl, repoUrls[otherEnv]),
+  );
+  if (otherEnv) {
+    return `${originUrl} ${chalk.yellow(`(matches ${otherEnv}, expected ${env})`)}`;
+  }
+
+  return `${originUrl} ${chalk.red("(does not match the configured repository URLs)")}`;
+}
+
+/**
+ * Formats the status of a single SDK checkout for display
+ */
+function formatStatus(status: RepoStatus, repoConfig: StainlessConfig["stainlessSdkRepos"][string], env: string) {
+  const lines = [`  Directory: ${status.targetDir}`];
+
+  if (!status.isRepo) {
+    lines.push(`  ${chalk.yellow("Not cloned yet")}`);
+    return lines;
+  }
+
+  lines.push(`  Branch:    ${status.branch ?? chalk.yellow("unknown")}`);
+  lines.push(
+    `  Commit:    ${status.head ? `${status.head.hash.substring(0, 7)} ${status.head.message}` : chalk.yellow("no commits")}`,
+  );
+
+  if (status.ahead === undefined || status.behind === undefined) {
+    lines.push(`  Remote:    ${chalk.yellow(`origin/${status.branch} not found`)}`);
+  } else if (status.ahead === 0 && status.behind === 0) {
+    lines.push(`  Remote:    ${chalk.green(`up to date with origin/${status.branch}`)}`);
+  } else {
+    lines.push(
+      `  Remote:    ${chalk.yellow(`${status.ahead} ahead, ${status.behind} behind origin/${status.branch}`)}`,
+    );
+  }
+
+  if (status.dirtyFiles.length === 0) {
+    lines.push(`  Changes:   ${chalk.green("clean")}`);
+  } else {
+    lines.push(`  Changes:   ${chalk.yellow(`${status.dirtyFiles.length} uncommitted file(s)`)}`);
+    lines.push(...status.dirtyFiles.map((file) => `    ${file}`));
+  }
+
+  if (status.stashes.length > 0) {
+    lines.push(`  Stashes:   ${chalk.yellow(`${status.stashes.length} left by stainless-tools`)}`);
+    lines.push(...status.stashes.map((stash) => `    ${stash}`));
+  }
+
+  lines.push(`  Origin:    ${describeOrigin(status.originUrl, repoConfig, env)}`);
+
+  return lines;
+}
+
+/**
+ * Main function to report the state of local SDK checkouts
+ * @param sdkNames - Names of the SDKs to report on. Reports on every configured SDK if empty.
+ * @param options - Configuration options for the status report
+ * @returns Promise<number> - Exit code (0 for success, otherwise see getExitCode)
+ */
+export async function statusAction(sdkNames: string[], options: StatusCommandOptions): Promise<number> {
+  const spinner = ora("Loading configuration...").start();
+
+  try {
+    const profile = resolveProfile(options)?.value;
+    const config = await loadConfig(options.config, profile);
+    const names = sdkNames.length > 0 ? sdkNames : Object.keys(config.stainlessSdkRepos);
+
+    for (const sdkName of names) {
+      if (!config.stainlessSdkRepos[sdkName]) {
+        throw new ConfigError(`SDK "${sdkName}" not found in configuration`);
+      }
+    }
+
+    const env = resolveEnv(options, profile && config.profiles?.[profile]?.env);
+    spinner.text = "Checking SDK repositories...";
+
+    const output: string[] = [];
+    let hasErrors = false;
+
+    for (const sdkName of names) {
+      output.push("", chalk.bold(`${sdkName} (${env})`));
+
+      const sdkConfig = config.stainlessSdkRepos[sdkName];
+      const targetDirTemplate =
+        options.targetDir || sdkConfig.targetDir || config.defaults?.targetDir || "./sdks/{sdk}";
+      const projectName = sdkConfig.projectName || config.defaults?.projectName;
+      const { branch, hostBranch } = await resolveSdkBranch({
+        sdkName,
+        config,
+        profile,
+        env,
+        branch: options.branch,
+        targetDirTemplate,
+        projectName,
+        baseDir: process.cwd(),
+      });
+
+      if (!branch && getTemplateVariableNames(targetDirTemplate).includes("branch")) {
+        output.push(`  ${chalk.red(`Target directory depends on {branch}. ${BRANCH_SOURCES_HINT}`)}`);
+        hasErrors = true;
+        continue;
+      }
+
+      const targetDir = path.resolve(
+        process.cwd(),
+        getTargetDir({
+          targetDir: targetDirTemplate,
+          sdkName,
+          env,
+          branch: branch?.value,
+          projectName,
+          hostBranch,
+        }),
+      );
+
+      try {
+        const status = await getRepoStatus(targetDir, { fetch: options.fetch });
+        output.push(...formatStatus(status, sdkConfig, env));
+      } catch (error) {
+        output.push(`  Directory: ${targetDir}`, `  ${chalk.red(error instanceof Error ? error.message : error)}`);
+        hasErrors = true;
+      }
+    }
+
+    spinner.stop();
+    console.log(output.join("\n"));
+
+    return hasErrors ? 1 : 0;
+  } catch (error) {
+    if (error instanceof StainlessError) {
+      spinner.fail(error.message);
+    } else if (error instanceof Error) {
+      spinner.fail(error.message);
+    } else {
+      spinner.fail(`Unexpected error: ${error}`);
+    }
+    return getExitCode(error);
+  }
+}
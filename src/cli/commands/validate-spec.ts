@@ -0,0 +1,76 @@
+import * as path from "node:path";
+import chalk from "chalk";
+import { Command } from "commander";
+import ora from "ora";
+import { StainlessError } from "../../StainlessError.js";
+import { getSdkSpecFiles, loadConfig } from "../../config.js";
+import { formatSpecValidationIssue, validateOpenApiSpec } from "../../spec-validation.js";
+import { getExitCode } from "../exit-codes.js";
+import type { ValidateSpecCommandOptions } from "../types.js";
+import { resolveProfile } from "../utils.js";
+
+/**
+ * Creates and configures the validate-spec command
+ * @returns The configured validate-spec command
+ */
+export function createValidateSpecCommand(): Command {
+  return new Command("validate-spec")
+    .description("Validate OpenAPI specifications against the OpenAPI 3.0 / 3.1 schema without publishing them")
+    .argument("[files...]", "OpenAPI specification files to validate (defaults to the OpenAPI file of each SDK)")
+    .option("-c, --config <file>", "Path to configuration file")
+    .option("--profile <name>", "Configuration profile to use (default: STAINLESS_TOOLS_PROFILE)")
+    .action(async (files: string[], options: ValidateSpecCommandOptions) => {
+      const exitCode = await validateSpecAction(files, options);
+      if (exitCode !== 0) {
+        process.exit(exitCode);
+      }
+    });
+}
+
+/**
+ * Main function to validate OpenAPI specifications
+ * @param files - Files to validate. Validates the OpenAPI file of each SDK in the configuration if empty.
+ * @param options - Configuration options for the validation
+ * @returns Promise<number> - Exit code (0 if every specification is valid, 1 if one is invalid, otherwise see getExitCode)
+ */
+export async function validateSpecAction(files: string[], options: ValidateSpecCommandOptions): Promise<number> {
+  const spinner = ora("Validating OpenAPI specification...").start();
+
+  try {
+    let specFiles = files;
+    if (specFiles.length === 0) {
+      const config = await loadConfig(options.config, resolveProfile(options)?.value);
+      // Each distinct file once, however many SDKs use it
+      const configuredFiles = Object.keys(config.stainlessSdkRepos)
+        .map((sdkName) => getSdkSpecFiles(config, sdkName).openApiFile)
+        .filter((file): file is string => !!file);
+      specFiles = [...new Map(configuredFiles.map((file) => [path.resolve(process.cwd(), file), file])).values()];
+      if (specFiles.length === 0) {
+        throw new StainlessError(
+          "No OpenAPI file to validate. Pass one as an argument or set defaults.openApiFile in the configuration.",
+        );
+      }
+    }
+
+    let invalidCount = 0;
+
+    for (const file of specFiles) {
+      spinner.start(`Validating ${file}...`);
+      const issues = await validateOpenApiSpec(path.resolve(process.cwd(), file));
+
+      if (issues.length === 0) {
+        spinner.succeed(`${file} is a valid OpenAPI specification`);
+        continue;
+      }
+
+      invalidCount++;
+      spinner.fail(`${file} has ${issues.length} problem(s)`);
+      console.log(issues.map((issue) => `  ${chalk.red(formatSpecValidationIssue({ ...issue, file }))}`).join("\n"));
+    }
+
+    return invalidCount > 0 ? 1 : 0;
+  } catch (error) {
+    spinner.fail(error instanceof Error ? error.message : `Unexpected error: ${error}`);
+    return getExitCode(error);
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  ConfigError,
+  GitOperationError,
+  LifecycleHookError,
+  StainlessApiError,
+  StainlessAuthError,
+} from "../StainlessError.js";
+
+/**
+ * Exit codes of the commands, so that scripts can tell the kinds of failure apart without parsing messages
+ */
+export const EXIT_CODES = {
+  success: 0,
+  /** Any failure without a more specific code, e.g. an invalid flag or specification */
+  failure: 1,
+  config: 2,
+  auth: 3,
+  api: 4,
+  git: 5,
+  lifecycleHook: 6,
+} as const;
+
+/**
+ * Exit codes of a command interrupted by a signal, following the shell convention of 128 + the signal number
+ */
+export const SIGNAL_EXIT_CODES = {
+  SIGINT: 130,
+  SIGTERM: 143,
+} as const;
+
+/**
+ * Returns the exit code of a command that failed with an error
+ */
+export function getExitCode(error: unknown): number {
+  if (error instanceof ConfigError) {
+    return EXIT_CODES.config;
+  }
+  // Before StainlessApiError, which it extends
+  if (error instanceof StainlessAuthError) {
+    return EXIT_CODES.auth;
+  }
+  if (error instanceof StainlessApiError) {
+    return EXIT_CODES.api;
+  }
+  if (error instanceof GitOperationError) {
+    return EXIT_CODES.git;
+  }
+  if (error instanceof LifecycleHookError) {
+    return EXIT_CODES.lifecycleHook;
+  }
+  return EXIT_CODES.failure;
+}
@@ -0,0 +1,39 @@
+import ora, { type Ora } from "ora";
+import { type EventHandler, createNdjsonEventHandler } from "../events.js";
+import { type Logger, silentLogger } from "../logger.js";
+
+/**
+ * Where a command sends its output
+ */
+export interface CommandOutput {
+  /** Spinner for progress, silent in JSON mode */
+  spinner: Ora;
+  /** Logger for human-readable output, silent in JSON mode */
+  logger: Logger;
+  /** Writes NDJSON events to stdout in JSON mode, undefined otherwise */
+  onEvent?: EventHandler;
+  /** Stream for lifecycle hook stdout. stderr in JSON mode so stdout only carries events. */
+  hookStdout?: NodeJS.WritableStream;
+}
+
+/**
+ * Creates the output for a command that supports --json.
+ * In JSON mode all human-readable output is replaced by newline-delimited JSON events on stdout.
+ * @param json - Whether the --json flag was given
+ * @param text - Initial spinner text
+ */
+export function createCommandOutput(json: boolean | undefined, text: string): CommandOutput {
+  if (json) {
+    return {
+      spinner: ora({ text, isSilent: true }).start(),
+      logger: silentLogger,
+      onEvent: createNdjsonEventHandler(),
+      hookStdout: process.stderr,
+    };
+  }
+
+  return {
+    spinner: ora(text).start(),
+    logger: console,
+  };
+}
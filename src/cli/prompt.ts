@@ -0,0 +1,87 @@
+import * as readline from "node:readline/promises";
+import chalk from "chalk";
+
+/**
+ * Options for asking a free-form question
+ */
+export interface AskOptions {
+  /** Value used when the answer is left empty */
+  defaultValue?: string;
+  /** Whether an empty answer is rejected */
+  required?: boolean;
+  /** Returns an error message for invalid answers, or undefined if the answer is valid */
+  validate?: (value: string) => string | undefined;
+}
+
+/**
+ * Asks questions on the terminal for interactive commands.
+ * Questions are repeated until a valid answer is given.
+ */
+export class Prompter {
+  private rl: readline.Interface;
+
+  constructor(input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout) {
+    this.rl = readline.createInterface({ input, output });
+  }
+
+  /**
+   * Asks a free-form question and returns the trimmed answer
+   */
+  async ask(question: string, options: AskOptions = {}): Promise<string> {
+    const suffix = options.defaultValue ? chalk.dim(` (${options.defaultValue})`) : "";
+
+    while (true) {
+      const answer = (await this.rl.question(`${question}${suffix}: `)).trim() || options.defaultValue || "";
+
+      if (!answer) {
+        if (options.required) {
+          console.log(chalk.red("A value is required."));
+          continue;
+        }
+        return answer;
+      }
+
+      const error = options.validate?.(answer);
+      if (error) {
+        console.log(chalk.red(error));
+        continue;
+      }
+
+      return answer;
+    }
+  }
+
+  /**
+   * Asks a yes / no question
+   */
+  async confirm(question: string, defaultValue = false): Promise<boolean> {
+    const answer = (await this.rl.question(`${question} ${chalk.dim(defaultValue ? "(Y/n)" : "(y/N)")}: `))
+      .trim()
+      .toLowerCase();
+
+    if (!answer) {
+      return defaultValue;
+    }
+
+    return answer === "y" || answer === "yes";
+  }
+
+  /**
+   * Asks the user to pick one of the given choices
+   */
+  async select<T extends string>(question: string, choices: readonly T[], defaultValue: T): Promise<T> {
+    const answer = await this.ask(`${question} [${choices.join("/")}]`, {
+      defaultValue,
+      validate: (value) => (choices.includes(value as T) ? undefined : `Please choose one of: ${choices.join(", ")}`),
+    });
+
+    return answer as T;
+  }
+
+  /**
+   * Releases the terminal
+   */
+  close(): void {
+    this.rl.close();
+  }
+}
@@ -0,0 +1,39 @@
+import chalk from "chalk";
+import type { ResolvedOption, ResolvedOptionName } from "./utils.js";
+
+/**
+ * Labels of the resolved options, in the order they are displayed
+ */
+const LABELS: Record<ResolvedOptionName, string> = {
+  branch: "Branch",
+  targetDir: "Target directory",
+  openApiFile: "OpenAPI file",
+  stainlessConfigFile: "Stainless config file",
+  projectName: "Project name",
+  guessConfig: "Guess config",
+  pollIntervalMs: "Poll interval (ms)",
+  debounceMs: "Spec debounce (ms)",
+  stabilityThresholdMs: "Write stability (ms)",
+  sdkRepo: "SDK repository",
+  profile: "Profile",
+};
+
+/**
+ * Formats resolved options as one line per option: its label, its value and where the value came from
+ */
+export function formatResolvedOptions(explanation: Record<ResolvedOptionName, ResolvedOption>): string {
+  const entries = (Object.keys(LABELS) as ResolvedOptionName[]).map((name) => ({
+    label: LABELS[name],
+    value: explanation[name].value === undefined ? "(not set)" : String(explanation[name].value),
+    // Unset options explain why they are unset instead of where the value came from
+    source: explanation[name].value === undefined ? explanation[name].source : `from ${explanation[name].source}`,
+  }));
+  const labelWidth = Math.max(...entries.map((entry) => entry.label.length));
+  const valueWidth = Math.max(...entries.map((entry) => entry.value.length));
+
+  return entries
+    .map(
+      ({ label, value, source }) => `  ${label.padEnd(labelWidth)}  ${value.padEnd(valueWidth)}  ${chalk.dim(source)}`,
+    )
+    .join("\n");
+}
@@ -9,5 +9,87 @@ export interface SdkCommandOptions {
   "stainless-config-file"?: string; // Path to Stainless-specific configuration
   projectName?: string; // Name of the project in Stainless
   "guess-config"?: boolean; // Whether to use AI to guess configuration
-  prod?: boolean; // Whether to use production URLs
+  env?: string; // Environment whose repository URLs to use
+  prod?: boolean; // Whether to use production URLs (alias for env "prod")
+  profile?: string; // Name of the configuration profile to use
+  pollInterval?: string; // Milliseconds between checks of the SDK repository for new commits
+  debounce?: string; // Milliseconds to wait after a change of the watched files before publishing
+  stabilityThreshold?: string; // Milliseconds a changed file must stay the same before it is published
+  json?: boolean; // Whether to output newline-delimited JSON events
+}
+
+/**
+ * Interface defining the options available for the generate command
+ */
+export interface GenerateCommandOptions extends SdkCommandOptions {
+  all?: boolean; // Whether to generate every SDK in the configuration
+  explain?: boolean; // Whether to show where each resolved option came from
+  once?: boolean; // Whether to exit after the SDK has been updated once
+  timeout?: string; // Seconds to wait for the SDK to update in --once mode
+  force?: boolean; // Whether to publish even if nothing changed since the last publish
+}
+
+/**
+ * Interface defining the options available for the status command
+ */
+export interface StatusCommandOptions {
+  branch?: string; // Git branch used to resolve the target directory
+  targetDir?: string; // Directory where the SDK is generated
+  config?: string; // Path to configuration file
+  env?: string; // Environment whose repository URLs to use
+  prod?: boolean; // Whether to use production URLs (alias for env "prod")
+  profile?: string; // Name of the configuration profile to use
+  fetch?: boolean; // Whether to fetch from origin before comparing
+}
+
+/**
+ * Interface defining the options available for the init command
+ */
+export interface InitCommandOptions {
+  format?: "js" | "json" | "yaml" | "ts"; // Format of the configuration file
+  force?: boolean; // Whether to overwrite existing files without asking
+}
+
+/**
+ * Interface defining the options available for the doctor command
+ */
+export interface DoctorCommandOptions {
+  branch?: string; // Git branch used to resolve the target directory
+  targetDir?: string; // Directory where the SDK is generated
+  "open-api-file"?: string; // Path to OpenAPI specification file
+  config?: string; // Path to configuration file
+  "stainless-config-file"?: string; // Path to Stainless-specific configuration
+  env?: string; // Environment whose repository URLs to use
+  prod?: boolean; // Whether to use production URLs (alias for env "prod")
+  profile?: string; // Name of the configuration profile to use
+}
+
+/**
+ * Interface defining the options available for the validate-spec command
+ */
+export interface ValidateSpecCommandOptions {
+  config?: string; // Path to configuration file
+  profile?: string; // Name of the configuration profile to use
+}
+
+/**
+ * Interface defining the options available for the migrate-config command
+ */
+export interface MigrateConfigCommandOptions {
+  config?: string; // Path to configuration file
+  dryRun?: boolean; // Whether to print the changes without writing them
+}
+
+/**
+ * Interface defining the options available for the mock-server command
+ */
+export interface MockServerCommandOptions {
+  port: string; // Port to listen on
+  host: string; // Host to listen on
+  apiKey?: string; // API key requests must use
+  recordDir?: string; // Directory to record each received publish to
+  script?: string; // JSON file with the responses to return, in order
+  delay?: string; // Time in milliseconds to wait before each response
+  sdkRepo?: string; // Bare git repository to commit a fake generated change to after each publish
+  commitDelay?: string; // Time in milliseconds between a publish and its generated commit
 }
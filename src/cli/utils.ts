@@ -1,117 +1,288 @@
 import * as crypto from "node:crypto";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
-import simpleGit from "simple-git";
-import { StainlessError } from "../StainlessError.js";
-import { type StainlessConfig, loadConfig } from "../config.js";
-import { getTargetDir } from "../utils.js";
+import { DEFAULT_DEBOUNCE_MS, DEFAULT_STABILITY_THRESHOLD_MS } from "../FileWatcher.js";
+import { ConfigError, StainlessError } from "../StainlessError.js";
+import { type SdkDefaultsConfig, type StainlessConfig, getSdkRepoUrls, loadConfig } from "../config.js";
+import { DEFAULT_POLL_INTERVAL_MS } from "../generate-and-watch-sdk.js";
+import { resolveSdkBranch } from "../sdk-branch.js";
+import { getTargetDir } from "../template.js";
+import { firstSet } from "../utils.js";
 import type { SdkCommandOptions } from "./types.js";
 
 /**
  * Generates a random branch name for the CLI
  */
-function generateRandomBranchName(): string {
+export function generateRandomBranchName(): string {
   return `cli/${crypto.randomBytes(4).toString("hex")}`;
 }
 
 /**
- * Gets the current branch name from a git repository
+ * Environment used when neither --env nor --prod is given
  */
-async function getCurrentBranch(targetDir: string): Promise<string | undefined> {
-  try {
-    const git = simpleGit(targetDir);
-    const branchSummary = await git.branch();
-    return branchSummary.current;
-  } catch {
+export const DEFAULT_ENV = "staging";
+
+/**
+ * Resolves the environment selected with --env, or with --prod which is an alias for --env prod
+ * @param profileEnv - Environment of the selected profile, used when neither --env nor --prod is given
+ * @throws {StainlessError} If --prod is combined with --env for another environment
+ */
+export function resolveEnv(options: { env?: string; prod?: boolean }, profileEnv?: string): string {
+  if (options.prod && options.env && options.env !== "prod") {
+    throw new StainlessError(`--prod is an alias for --env prod and cannot be combined with --env ${options.env}`);
+  }
+
+  return options.env || (options.prod ? "prod" : profileEnv || DEFAULT_ENV);
+}
+
+/**
+ * Resolves the profile selected with --profile or the STAINLESS_TOOLS_PROFILE environment variable
+ * @returns The name of the profile along with where it came from, or undefined if no profile is selected
+ */
+export function resolveProfile(options: { profile?: string }): { value: string; source: string } | undefined {
+  return firstSet([
+    [options.profile, "--profile flag"],
+    [process.env.STAINLESS_TOOLS_PROFILE, "STAINLESS_TOOLS_PROFILE environment variable"],
+  ]);
+}
+
+/**
+ * Names of the options resolved by validateAndProcessOptions
+ */
+export type ResolvedOptionName =
+  | "branch"
+  | "targetDir"
+  | "openApiFile"
+  | "stainlessConfigFile"
+  | "projectName"
+  | "guessConfig"
+  | "pollIntervalMs"
+  | "debounceMs"
+  | "stabilityThresholdMs"
+  | "sdkRepo"
+  | "profile";
+
+/**
+ * A resolved option and where its value came from
+ */
+export interface ResolvedOption {
+  /** The effective value, undefined if the option is not set */
+  value: string | number | boolean | undefined;
+  /** Where the value came from, e.g. "--branch flag" or "defaults.branch in config", or why it is not set */
+  source: string;
+}
+
+/**
+ * Parses a command line option holding a whole number of milliseconds
+ * @param allowZero - Whether 0 is a valid value
+ * @throws {StainlessError} If the value is not a whole number, or is negative, or 0 when not allowed
+ */
+export function parseMilliseconds(value: string | undefined, flag: string, allowZero: boolean): number | undefined {
+  if (value === undefined) {
     return undefined;
   }
+
+  const milliseconds = Number(value);
+  if (value.trim() === "" || !Number.isInteger(milliseconds) || milliseconds < (allowZero ? 0 : 1)) {
+    throw new StainlessError(
+      `Invalid ${flag} "${value}": expected a ${allowZero ? "non-negative" : "positive"} whole number of milliseconds`,
+    );
+  }
+
+  return milliseconds;
 }
 
 /**
  * Validates and processes command options, loading configuration and checking required fields
+ * @param fallbackBranch - Branch to use instead of a random cli/ branch when no other branch or branch template is found
+ * @returns The resolved options, along with an explanation of where each of them came from
  */
 export async function validateAndProcessOptions(
   sdkName: string,
   options: SdkCommandOptions,
+  fallbackBranch?: string,
 ): Promise<{
   branch: string;
+  targetDir: string;
   openApiFile: string;
   stainlessConfigFile?: string;
   projectName: string;
   guessConfig: boolean;
+  pollIntervalMs: number;
+  debounceMs: number;
+  stabilityThresholdMs: number;
   sdkRepo: string;
+  env: string;
   config: StainlessConfig;
+  explanation: Record<ResolvedOptionName, ResolvedOption>;
 }> {
-  const config = await loadConfig(options.config);
+  const profile = resolveProfile(options);
+  const config = await loadConfig(options.config, profile?.value);
   const sdkConfig = config.stainlessSdkRepos[sdkName];
 
   if (!sdkConfig) {
-    throw new StainlessError(`SDK "${sdkName}" not found in configuration`);
+    throw new ConfigError(`SDK "${sdkName}" not found in configuration`);
   }
 
-  const mode = options.prod ? "prod" : "staging";
-  const sdkRepo = sdkConfig[mode];
+  const profileConfig = profile && config.profiles?.[profile.value];
+  const mode = resolveEnv(options, profileConfig?.env);
+  const envSource = options.env
+    ? "--env flag"
+    : options.prod
+      ? "--prod flag"
+      : profileConfig?.env
+        ? `profiles.${profile?.value}.env in config`
+        : `${DEFAULT_ENV} by default`;
+
+  // A default comes from the profile when the profile overrides it, as profiles are merged into the defaults
+  const fromDefaults = <K extends keyof SdkDefaultsConfig>(key: K): [SdkDefaultsConfig[K], string] => [
+    config.defaults?.[key],
+    profileConfig?.defaults?.[key] === undefined
+      ? `defaults.${key} in config`
+      : `profiles.${profile?.value}.defaults.${key} in config`,
+  ];
+  const sdkRepoUrls = getSdkRepoUrls(sdkConfig);
+  const sdkRepo = sdkRepoUrls[mode];
 
   if (!sdkRepo) {
-    throw new StainlessError(
-      `${mode === "prod" ? "Production" : "Staging"} URL not defined for SDK "${sdkName}". ` +
-        `Please add a "${mode}" URL to the configuration.`,
+    const label = mode === "prod" ? "Production" : `${mode.charAt(0).toUpperCase()}${mode.slice(1)}`;
+    throw new ConfigError(
+      `${label} URL not defined for SDK "${sdkName}". ` +
+        `Please add a "${mode}" URL to the configuration or select one of its environments with --env: ` +
+        `${Object.keys(sdkRepoUrls).join(", ")}.`,
     );
   }
 
+  const targetDirTemplate = firstSet([
+    [options.targetDir, "--target-dir flag"],
+    [sdkConfig.targetDir, `stainlessSdkRepos.${sdkName}.targetDir in config`],
+    fromDefaults("targetDir"),
+  ]) ?? { value: "./sdks/{sdk}", source: "built-in default" };
+
+  const projectName = firstSet([
+    [options.projectName, "--project-name flag"],
+    [sdkConfig.projectName, `stainlessSdkRepos.${sdkName}.projectName in config`],
+    fromDefaults("projectName"),
+  ]);
+
   const baseDir = process.cwd();
+  const { branch: resolvedBranch, hostBranch } = await resolveSdkBranch({
+    sdkName,
+    config,
+    profile: profile?.value,
+    env: mode,
+    branch: options.branch,
+    targetDirTemplate: targetDirTemplate.value,
+    projectName: projectName?.value,
+    baseDir,
+  });
+
+  // Without a branch or branch template, use the fallback branch, or generate a new cli/ branch
+  const branch = resolvedBranch ??
+    firstSet([[fallbackBranch, "generated, shared by every SDK (no branch configured)"]]) ?? {
+      value: generateRandomBranchName(),
+      source: "generated (no branch configured)",
+    };
+
+  // Resolve the target directory now that the branch is known
   const targetDir = path.resolve(
     baseDir,
     getTargetDir({
-      targetDir: options.targetDir || config.defaults?.targetDir || "./sdks/{sdk}",
+      targetDir: targetDirTemplate.value,
       sdkName,
       env: mode,
-      branch: "temp", // Temporary value since we don't have the branch yet
+      branch: branch.value,
+      projectName: projectName?.value,
+      hostBranch,
     }),
   );
 
-  // Determine branch to use in this order:
-  // 1. User-specified branch flag
-  // 2. Environment variable
-  // 3. Config default
-  // 4. Current branch in target directory if it exists
-  // 5. Generate a new cli/ branch
-  let branch = options.branch || process.env.STAINLESS_SDK_BRANCH || config.defaults?.branch;
-
-  if (!branch) {
-    const currentBranch = await getCurrentBranch(targetDir);
-    branch = currentBranch || generateRandomBranchName();
-  }
-
   // Resolve OpenAPI specification file path
-  const openApiFile = path.resolve(baseDir, ".", options["open-api-file"] || config.defaults?.openApiFile || "");
+  const openApiFileOption = firstSet([
+    [options["open-api-file"], "--open-api-file flag"],
+    [sdkConfig.openApiFile, `stainlessSdkRepos.${sdkName}.openApiFile in config`],
+    fromDefaults("openApiFile"),
+  ]);
+  const openApiFile = path.resolve(baseDir, ".", openApiFileOption?.value || "");
 
   // Resolve Stainless configuration file path if provided
-  let stainlessConfigFile: string | undefined;
-  if (options["stainless-config-file"] || config.defaults?.stainlessConfigFile) {
-    stainlessConfigFile = path.resolve(
-      baseDir,
-      ".",
-      options["stainless-config-file"] || config.defaults?.stainlessConfigFile || "",
-    );
-  }
+  const stainlessConfigFileOption = firstSet([
+    [options["stainless-config-file"], "--stainless-config-file flag"],
+    [sdkConfig.stainlessConfigFile, `stainlessSdkRepos.${sdkName}.stainlessConfigFile in config`],
+    fromDefaults("stainlessConfigFile"),
+  ]);
+  const stainlessConfigFile = stainlessConfigFileOption && path.resolve(baseDir, ".", stainlessConfigFileOption.value);
 
   // Validate project name
-  const projectName = options.projectName || config.defaults?.projectName;
   if (!projectName) {
-    throw new StainlessError(
-      "Project name is required when using OpenAPI file. Provide it via --project-name option or in the configuration defaults.",
+    throw new ConfigError(
+      "Project name is required when using OpenAPI file. Provide it via --project-name option, in the SDK configuration or in the configuration defaults.",
     );
   }
 
+  const guessConfig = firstSet([
+    [options["guess-config"], "--guess-config flag"],
+    [sdkConfig.guessConfig, `stainlessSdkRepos.${sdkName}.guessConfig in config`],
+    fromDefaults("guessConfig"),
+  ]) ?? { value: false, source: "built-in default" };
+
+  const pollIntervalMs = firstSet([
+    [parseMilliseconds(options.pollInterval, "--poll-interval", false), "--poll-interval flag"],
+    [sdkConfig.pollIntervalMs, `stainlessSdkRepos.${sdkName}.pollIntervalMs in config`],
+    fromDefaults("pollIntervalMs"),
+  ]) ?? { value: DEFAULT_POLL_INTERVAL_MS, source: "built-in default" };
+
+  const debounceMs = firstSet([
+    [parseMilliseconds(options.debounce, "--debounce", true), "--debounce flag"],
+    [sdkConfig.debounceMs, `stainlessSdkRepos.${sdkName}.debounceMs in config`],
+    fromDefaults("debounceMs"),
+  ]) ?? { value: DEFAULT_DEBOUNCE_MS, source: "built-in default" };
+
+  const stabilityThresholdMs = firstSet([
+    [parseMilliseconds(options.stabilityThreshold, "--stability-threshold", true), "--stability-threshold flag"],
+    [sdkConfig.stabilityThresholdMs, `stainlessSdkRepos.${sdkName}.stabilityThresholdMs in config`],
+    fromDefaults("stabilityThresholdMs"),
+  ]) ?? { value: DEFAULT_STABILITY_THRESHOLD_MS, source: "built-in default" };
+
   return {
-    branch,
+    branch: branch.value,
+    targetDir,
     openApiFile,
     stainlessConfigFile,
-    projectName,
-    guessConfig: options["guess-config"] || config.defaults?.guessConfig || false,
+    projectName: projectName.value,
+    guessConfig: guessConfig.value,
+    pollIntervalMs: pollIntervalMs.value,
+    debounceMs: debounceMs.value,
+    stabilityThresholdMs: stabilityThresholdMs.value,
     sdkRepo,
+    env: mode,
     config,
+    explanation: {
+      branch,
+      targetDir: { value: targetDir, source: `${targetDirTemplate.source} (${targetDirTemplate.value})` },
+      openApiFile: openApiFileOption
+        ? { value: openApiFile, source: openApiFileOption.source }
+        : {
+            value: undefined,
+            source: `not set by --open-api-file, stainlessSdkRepos.${sdkName}.openApiFile or defaults.openApiFile`,
+          },
+      stainlessConfigFile: {
+        value: stainlessConfigFile,
+        source:
+          stainlessConfigFileOption?.source ??
+          `not set by --stainless-config-file, stainlessSdkRepos.${sdkName}.stainlessConfigFile or defaults.stainlessConfigFile`,
+      },
+      projectName,
+      guessConfig,
+      pollIntervalMs,
+      debounceMs,
+      stabilityThresholdMs,
+      sdkRepo: {
+        value: sdkRepo,
+        source: `stainlessSdkRepos.${sdkName}.${mode} in config (${envSource})`,
+      },
+      profile: profile ?? { value: undefined, source: "not set by --profile or STAINLESS_TOOLS_PROFILE" },
+    },
   };
 }
 
@@ -0,0 +1,83 @@
+import { type ZodTypeAny, z } from "zod";
+import { configSchema } from "./config.js";
+
+/**
+ * URL of the JSON Schema of the configuration, relative to a project that has stainless-tools installed
+ */
+export const CONFIG_JSON_SCHEMA_PATH = "./node_modules/stainless-tools/config.schema.json";
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Converts a zod schema to a JSON Schema. Only supports the zod types the configuration uses.
+ * Refinements cannot be expressed in JSON Schema, so only the schema they refine is converted.
+ */
+function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const description = schema.description === undefined ? {} : { description: schema.description };
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema._def.innerType), ...description };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return { ...toJsonSchema(schema._def.schema), ...description };
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: "string", ...(schema.minLength === null ? {} : { minLength: schema.minLength }), ...description };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? "integer" : "number", ...description };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean", ...description };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema.options, ...description };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: toJsonSchema(schema.element), ...description };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as ZodTypeAny[]).map(toJsonSchema), ...description };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return {
+      type: "object",
+      propertyNames: toJsonSchema(schema.keySchema),
+      additionalProperties: toJsonSchema(schema.valueSchema),
+      ...description,
+    };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, ZodTypeAny> = schema.shape;
+    const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+    const catchall: ZodTypeAny = schema._def.catchall;
+
+    let additionalProperties: JsonSchema | boolean | undefined;
+    if (!(catchall instanceof z.ZodNever)) {
+      additionalProperties = toJsonSchema(catchall);
+    } else if (schema._def.unknownKeys === "strict") {
+      additionalProperties = false;
+    }
+
+    return {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      ...(required.length > 0 ? { required } : {}),
+      ...(additionalProperties === undefined ? {} : { additionalProperties }),
+      ...description,
+    };
+  }
+
+  throw new Error(`Cannot convert ${schema._def.typeName} to JSON Schema`);
+}
+
+/**
+ * Returns the JSON Schema of the configuration file, for editor autocompletion of JSON and YAML configurations
+ */
+export function getConfigJsonSchema(): JsonSchema {
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "stainless-tools configuration",
+    ...toJsonSchema(configSchema),
+  };
+}
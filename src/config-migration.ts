@@ -0,0 +1,214 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { isMap, parseDocument } from "yaml";
+import { StainlessError } from "./StainlessError.js";
+import { LEGACY_MODULE_NAME, createConfigExplorer, getLegacySdkRepos } from "./config.js";
+
+/**
+ * Changes made to a configuration file to migrate it to the current format
+ */
+export interface ConfigMigration {
+  /** Path of the configuration file */
+  filepath: string;
+  /** New path of the configuration file if it is renamed, from the name of stainless-tools v1 */
+  renamedTo?: string;
+  /** SDKs whose single repository URL became the URL of their staging environment */
+  migratedSdkNames: string[];
+  /** Contents of the configuration file before the migration */
+  before: string;
+  /** Contents of the configuration file after the migration */
+  after: string;
+}
+
+export interface MigrateConfigOptions {
+  /** Path of the configuration file. Searched for from the working directory if omitted. */
+  configPath?: string;
+  /** Whether to only compute the migration without writing it */
+  dryRun?: boolean;
+}
+
+/**
+ * Returns the name a configuration file of stainless-tools v1 has in the current version, e.g.
+ * `stainless.config.js` -> `stainless-tools.config.js`, or undefined if the file has a current name
+ */
+export function getMigratedFileName(filepath: string): string | undefined {
+  const name = path.basename(filepath);
+  const legacyName = new RegExp(`^(\\.?)${LEGACY_MODULE_NAME}(rc|\\.config)(\\.|$)`);
+  return legacyName.test(name) ? name.replace(legacyName, "$1stainless-tools$2$3") : undefined;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Moves the single repository URL of legacy SDKs to their staging environment in a JSON configuration,
+ * keeping its indentation
+ */
+function migrateJson(contents: string, sdkNames: string[], configKey?: string): string {
+  const json = JSON.parse(contents);
+  const config = configKey ? json[configKey] : json;
+  for (const name of sdkNames) {
+    config.stainlessSdkRepos[name] = { staging: config.stainlessSdkRepos[name] };
+  }
+
+  const indent = contents.match(/^[ \t]+(?=")/m)?.[0] ?? 2;
+  return `${JSON.stringify(json, null, indent)}${contents.endsWith("\n") ? "\n" : ""}`;
+}
+
+/**
+ * Moves the single repository URL of legacy SDKs to their staging environment in a YAML configuration,
+ * keeping its comments and formatting
+ */
+function migrateYaml(contents: string, sdkNames: string[]): string {
+  const doc = parseDocument(contents);
+  for (const name of sdkNames) {
+    // The URL node keeps its comments
+    const staging = doc.getIn(["stainlessSdkRepos", name], true);
+    const node = doc.createNode({ staging });
+    if (isMap(node)) {
+      node.flow = false;
+    }
+    doc.setIn(["stainlessSdkRepos", name], node);
+  }
+  return doc.toString();
+}
+
+/**
+ * Moves the single repository URL of legacy SDKs to their staging environment in a JavaScript or
+ * TypeScript configuration, by rewriting each `name: "url"` property in place. URLs that are not
+ * written as a string literal, e.g. that come from a variable or a template literal with placeholders,
+ * cannot be found and have to be migrated by hand.
+ * @param repos - Repository URL of each legacy SDK, as loaded
+ */
+function migrateModule(contents: string, filepath: string, repos: Record<string, string>) {
+  let migrated = contents;
+
+  for (const [name, url] of Object.entries(repos)) {
+    const property = new RegExp(`((["'\`]?)${escapeRegExp(name)}\\2\\s*:\\s*)((["'\`])${escapeRegExp(url)}\\4)`);
+    if (!property.test(migrated)) {
+      throw new StainlessError(
+        `Could not find the repository URL of "${name}" in ${filepath}. Replace it with { staging: "${url}" } by hand.`,
+      );
+    }
+    migrated = migrated.replace(property, "$1{ staging: $3 }");
+  }
+
+  return migrated;
+}
+
+/**
+ * Migrates a configuration file from the formats of older versions of stainless-tools:
+ * - v1 files named after `stainless` (e.g. `stainless.config.js`) are renamed after `stainless-tools`
+ * - v2 SDKs with a single repository URL get it as the URL of their `staging` environment
+ *
+ * The file keeps its format, and is written unless `dryRun` is set.
+ *
+ * @returns The changes made, which are empty if the configuration is up to date
+ * @throws {StainlessError} If no configuration is found or it cannot be migrated
+ */
+export async function migrateConfig(options: MigrateConfigOptions = {}): Promise<ConfigMigration> {
+  let filepath = options.configPath && path.resolve(process.cwd(), options.configPath);
+  if (!filepath) {
+    const result = (await createConfigExplorer().search()) ?? (await createConfigExplorer(LEGACY_MODULE_NAME).search());
+    if (!result) {
+      throw new StainlessError("No configuration file found");
+    }
+    filepath = result.filepath;
+  }
+
+  let before: string;
+  let config: unknown;
+  try {
+    before = await fs.readFile(filepath, "utf-8");
+    config = (await createConfigExplorer().load(filepath))?.config;
+  } catch (error) {
+    throw new StainlessError(`Failed to load configuration ${filepath}`, error);
+  }
+
+  const isPackageJson = path.basename(filepath) === "package.json";
+  const renamedName = isPackageJson ? undefined : getMigratedFileName(filepath);
+  const renamedTo = renamedName && path.join(path.dirname(filepath), renamedName);
+  const legacySdkRepos = getLegacySdkRepos(config);
+  const migratedSdkNames = Object.keys(legacySdkRepos);
+
+  let after = before;
+  if (migratedSdkNames.length > 0) {
+    const extension = path.extname(filepath);
+    if (extension === ".json" || isPackageJson) {
+      after = migrateJson(before, migratedSdkNames, isPackageJson ? "stainless-tools" : undefined);
+    } else if ([".js", ".cjs", ".mjs", ".ts"].includes(extension)) {
+      after = migrateModule(before, filepath, legacySdkRepos);
+    } else {
+      // YAML files, and rc files without an extension which may be JSON or YAML
+      after = before.trimStart().startsWith("{")
+        ? migrateJson(before, migratedSdkNames)
+        : migrateYaml(before, migratedSdkNames);
+    }
+  }
+
+  if (renamedTo) {
+    const exists = await fs.stat(renamedTo).then(
+      () => true,
+      () => false,
+    );
+    if (exists) {
+      throw new StainlessError(`Cannot rename ${filepath} to ${renamedTo}, which already exists`);
+    }
+  }
+
+  if (!options.dryRun) {
+    if (renamedTo) {
+      await fs.rename(filepath, renamedTo);
+    }
+    if (after !== before) {
+      await fs.writeFile(renamedTo ?? filepath, after);
+    }
+  }
+
+  return { filepath, renamedTo, migratedSdkNames, before, after };
+}
+
+/**
+ * Formats the line differences of two texts as a unified diff, with `context` unchanged lines
+ * around each change
+ */
+export function diffLines(before: string, after: string, context = 2): string[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Longest common subsequence table, from the end of both texts
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i++]}`);
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+
+  // Only keep the unchanged lines close to a change, separating the changes that are further apart
+  const isChange = (line: string) => !line.startsWith("  ");
+  const hunks: string[] = [];
+  let lastIndex = -1;
+  lines.forEach((line, index) => {
+    if (lines.slice(Math.max(0, index - context), index + context + 1).some(isChange)) {
+      if (lastIndex !== -1 && index > lastIndex + 1) {
+        hunks.push("...");
+      }
+      hunks.push(line);
+      lastIndex = index;
+    }
+  });
+  return hunks;
+}
@@ -1,54 +1,609 @@
-import { cosmiconfig } from "cosmiconfig";
-import { z } from "zod";
-import { isValidGitUrl } from "./utils.js";
+import { createRequire } from "node:module";
+import * as path from "node:path";
+import { type Loader, cosmiconfig, defaultLoaders, defaultLoadersSync, getDefaultSearchPlaces } from "cosmiconfig";
+import { ZodError, type ZodIssue, type ZodTypeAny, z } from "zod";
+import { ConfigError } from "./StainlessError.js";
+import { isValidGitUrl, suggestKey } from "./utils.js";
 
 const gitUrlSchema = z.string().refine(isValidGitUrl, "Invalid git URL");
 
-const repoConfigSchema = z
+// Fields of `defaults`, which each SDK can also override
+const defaultsConfigSchema = z
   .object({
-    staging: gitUrlSchema.optional(),
-    prod: gitUrlSchema.optional(),
+    stainlessConfigFile: z.string().optional().describe("Stainless configuration file"),
+    openApiFile: z.string().optional().describe("OpenAPI specification file"),
+    branch: z
+      .string()
+      .optional()
+      .describe(
+        "Branch of the SDK repository. Derived from branchTemplate, or a new cli/ branch, if not set and not already checked out.",
+      ),
+    branchTemplate: z
+      .string()
+      .optional()
+      .describe(
+        "Template of the branch used when no branch is set and none is checked out, instead of a random cli/ branch, e.g. {user}/{hostBranch}. Supports the {sdk}, {env}, {project}, {user}, {hostBranch} and {date} template variables and the slug, last, lower and upper filters. {user} is the git user.",
+      ),
+    targetDir: z
+      .string()
+      .optional()
+      .describe(
+        "Directory the SDK is generated in. Supports the {sdk}, {env}, {branch}, {project}, {user}, {hostBranch} and {date} template variables, and the slug, last, lower and upper filters, e.g. {branch|slug}.",
+      ),
+    projectName: z.string().optional().describe("Name of the project in Stainless"),
+    guessConfig: z
+      .boolean()
+      .optional()
+      .describe('Whether to use the "Guess with AI" command from the Stainless Studio for the Stainless config'),
+    pollIntervalMs: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Milliseconds between checks of the SDK repository for new commits (default: 5000)"),
+    debounceMs: z
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe(
+        "Milliseconds to wait after the last change of the OpenAPI or Stainless config file before publishing (default: 1000)",
+      ),
+    stabilityThresholdMs: z
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe(
+        "Milliseconds the size of a changed file must stay the same before it is published, so that files still being written are not published. 0 publishes right away (default: 5000)",
+      ),
   })
-  .refine(
-    (data) => data.staging !== undefined || data.prod !== undefined,
-    "At least one of staging or prod must be defined",
-  );
+  .strict();
+
+/**
+ * Keys of an SDK entry that override `defaults`. Every other key of the entry is an environment.
+ */
+export const SDK_OVERRIDE_KEYS = Object.keys(defaultsConfigSchema.shape) as (keyof SdkDefaultsConfig)[];
+
+// Repository URL of an SDK per environment, e.g. { staging: "...", prod: "..." },
+// along with optional overrides of the defaults for that SDK
+const repoConfigSchema = defaultsConfigSchema
+  .catchall(gitUrlSchema.describe("Git URL of the SDK repository of an environment"))
+  .refine((data) => Object.keys(getSdkRepoUrls(data)).length > 0, "At least one environment must be defined");
+
+const lifecycleConfigSchema = z
+  .object({
+    postClone: z.string().optional().describe("Command run after the SDK repository is cloned"),
+    postUpdate: z.string().optional().describe("Command run after the SDK repository is updated"),
+    prePublishSpec: z.string().optional().describe("Command run before the OpenAPI specification is published"),
+  })
+  .strict();
+
+// Overrides selected with --profile or STAINLESS_TOOLS_PROFILE, e.g. for CI
+const profileConfigSchema = z
+  .object({
+    env: z.string().min(1).optional().describe("Environment whose SDK repository URLs to use when --env is not given"),
+    defaults: defaultsConfigSchema.optional().describe("Overrides of the defaults of every SDK"),
+    lifecycle: z
+      .record(z.string().min(1), lifecycleConfigSchema)
+      .optional()
+      .describe("Overrides of the lifecycle hooks of each SDK"),
+  })
+  .strict();
+
+export const configSchema = z
+  .object({
+    // JSON Schema of JSON and YAML configurations, for editor autocompletion
+    $schema: z.string().optional(),
+
+    // Configurations to inherit from, as paths relative to this file or names of installed packages.
+    // Resolved by loadConfig, so a loaded configuration never has it.
+    extends: z
+      .union([z.string(), z.array(z.string())])
+      .optional()
+      .describe("Configurations to inherit from, as paths relative to this file or names of installed packages"),
+
+    // Required fields
+    stainlessSdkRepos: z
+      .record(z.string().min(1), repoConfigSchema)
+      .describe("SDKs by name, with the repository URL of each environment and overrides of the defaults"),
 
-const lifecycleConfigSchema = z.object({
-  postClone: z.string().optional(),
-  postUpdate: z.string().optional(),
-  prePublishSpec: z.string().optional(),
-});
-
-export const configSchema = z.object({
-  // Required fields
-  stainlessSdkRepos: z.record(z.string().min(1), repoConfigSchema),
-
-  // Optional lifecycle hooks
-  lifecycle: z.record(z.string().min(1), lifecycleConfigSchema).optional(),
-
-  // Optional default configurations
-  defaults: z
-    .object({
-      stainlessConfigFile: z.string().optional(),
-      openApiFile: z.string().optional(),
-      branch: z.string().optional(),
-      targetDir: z.string().optional(),
-      projectName: z.string().optional(),
-      guessConfig: z.boolean().optional(),
-    })
-    .optional(),
-});
+    // Optional lifecycle hooks
+    lifecycle: z
+      .record(z.string().min(1), lifecycleConfigSchema)
+      .optional()
+      .describe("Commands run at specific points of the lifecycle of each SDK"),
+
+    // Optional default configurations
+    defaults: defaultsConfigSchema.optional().describe("Defaults of every SDK, used when not set by CLI options"),
+
+    // Optional named profiles
+    profiles: z
+      .record(z.string().min(1), profileConfigSchema)
+      .optional()
+      .describe(
+        "Named overrides of the environment, defaults and lifecycle hooks, selected with --profile or STAINLESS_TOOLS_PROFILE",
+      ),
+  })
+  .strict();
 
 export type StainlessConfig = z.infer<typeof configSchema>;
 
-export const loadConfig = async (configPath?: string) => {
-  const explorer = cosmiconfig("stainless-tools");
+/**
+ * Identity function that types a configuration, for use in `stainless-tools.config.ts` and
+ * `stainless-tools.config.js` files.
+ *
+ * @example
+ * export default defineConfig({
+ *   stainlessSdkRepos: { typescript: { staging: "git@github.com:org/typescript-sdk.git" } },
+ * });
+ */
+export function defineConfig(config: StainlessConfig): StainlessConfig {
+  return config;
+}
+
+/**
+ * Defaults that apply to every SDK, or to a single SDK when set on its `stainlessSdkRepos` entry
+ */
+export type SdkDefaultsConfig = z.infer<typeof defaultsConfigSchema>;
+
+/**
+ * Returns the OpenAPI and Stainless config files of an SDK, from its `stainlessSdkRepos` entry or the defaults.
+ * Profiles are merged into the defaults by loadConfig, so they apply to a loaded configuration.
+ * @returns The files as configured, undefined if not set or if the SDK does not exist
+ */
+export function getSdkSpecFiles(
+  config: StainlessConfig,
+  sdkName: string,
+): { openApiFile?: string; stainlessConfigFile?: string } {
+  const sdkConfig = config.stainlessSdkRepos[sdkName];
+  return {
+    openApiFile: sdkConfig?.openApiFile || config.defaults?.openApiFile || undefined,
+    stainlessConfigFile: sdkConfig?.stainlessConfigFile || config.defaults?.stainlessConfigFile || undefined,
+  };
+}
+
+/**
+ * Returns the repository URL of each environment of an SDK entry, leaving out its overrides
+ */
+export function getSdkRepoUrls(repoConfig: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(repoConfig).filter(
+      (entry): entry is [string, string] =>
+        !(SDK_OVERRIDE_KEYS as string[]).includes(entry[0]) && typeof entry[1] === "string",
+    ),
+  );
+}
+
+type Explorer = ReturnType<typeof cosmiconfig>;
+
+// Name configuration files had in stainless-tools v1, e.g. stainless.config.js
+export const LEGACY_MODULE_NAME = "stainless";
+
+const MIGRATE_HINT = 'Run "stainless-tools migrate-config" to update it.';
+
+/**
+ * Loads a TypeScript configuration with the synchronous TypeScript loader of cosmiconfig, which transpiles it
+ * with the `typescript` package and requires the output from a temporary file next to it, afresh on every load
+ * unlike its asynchronous loader. The configuration is checked for syntax errors first, as the loader would
+ * otherwise load whatever the compiler recovers from them.
+ */
+async function loadTsConfig(filepath: string, content: string): Promise<unknown> {
+  let ts: typeof import("typescript");
+  try {
+    ts = await import("typescript");
+  } catch (error) {
+    throw new ConfigError(
+      `Loading ${filepath} requires the "typescript" package. Install it alongside stainless-tools, e.g. with: npm install --save-dev typescript`,
+      { cause: error },
+    );
+  }
+
+  const { diagnostics } = ts.transpileModule(content, { fileName: filepath, reportDiagnostics: true });
+  if (diagnostics?.length) {
+    const messages = diagnostics.map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+    throw new ConfigError(`Failed to compile ${filepath}:\n  ${messages.join("\n  ")}`);
+  }
+
+  try {
+    return defaultLoadersSync[".ts"](filepath, content);
+  } catch (error) {
+    // Leave out the "TypeScript Error in <file>:" line the loader prefixes every error with
+    const message = error instanceof Error ? error.message.replace(/^TypeScript Error in .*\n/, "") : String(error);
+    throw new ConfigError(`Failed to load ${filepath}: ${message.split("\n")[0]}`, { cause: error });
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Merges `override` into `base`. Objects are merged key by key, any other value of `override`
+ * (including arrays) replaces the one of `base`.
+ */
+function deepMerge(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = isPlainObject(merged[key]) && isPlainObject(value) ? deepMerge(merged[key], value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Resolves an `extends` entry to a file: paths are relative to the extending file, anything else
+ * is the name of a package installed where the extending file is.
+ */
+function resolveExtends(specifier: string, fromFile: string): string {
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+    return path.resolve(path.dirname(fromFile), specifier);
+  }
+
+  try {
+    return createRequire(fromFile).resolve(specifier);
+  } catch (error) {
+    throw new ConfigError(`Cannot find configuration "${specifier}" extended by ${fromFile}`, { cause: error });
+  }
+}
+
+const formatChain = (chain: string[]) => chain.join(" -> ");
+
+/**
+ * Loads a JavaScript configuration without the module cache, so that changes are picked up when the
+ * configuration is reloaded while watching. ES modules cannot be required, so they are imported,
+ * which caches them until the process restarts.
+ */
+const loadJsConfig: Loader = async (filepath, content) => {
+  try {
+    return await defaultLoadersSync[".js"](filepath, content);
+  } catch {
+    return defaultLoaders[".js"](filepath, content);
+  }
+};
+
+/**
+ * Creates the cosmiconfig explorer that finds and loads configuration files
+ *
+ * @param moduleName - Name of the configuration files. Files named after {@link LEGACY_MODULE_NAME} are only
+ *   searched to point users at migrate-config, and never include package.json, which other tools use that name in.
+ */
+export function createConfigExplorer(moduleName = "stainless-tools"): Explorer {
+  return cosmiconfig(moduleName, {
+    loaders: { ".js": loadJsConfig, ".cjs": loadJsConfig, ".ts": loadTsConfig },
+    ...(moduleName === LEGACY_MODULE_NAME
+      ? { searchPlaces: getDefaultSearchPlaces(moduleName).filter((place) => place !== "package.json") }
+      : {}),
+  });
+}
+
+/**
+ * Returns the repository URL of each SDK of a configuration in the format of stainless-tools v2, where
+ * each SDK is a single repository URL instead of one per environment
+ */
+export function getLegacySdkRepos(config: unknown): Record<string, string> {
+  if (!isPlainObject(config) || !isPlainObject(config.stainlessSdkRepos)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(config.stainlessSdkRepos).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+  );
+}
+
+/**
+ * Returns the SDKs of a configuration in the format of stainless-tools v2, where each SDK is a single
+ * repository URL instead of one per environment
+ */
+export function getLegacySdkNames(config: unknown): string[] {
+  return Object.keys(getLegacySdkRepos(config));
+}
+
+/**
+ * Loads a configuration file and every configuration it extends, merged into one.
+ *
+ * @param filepath - Path of the configuration file
+ * @param chain - Files that extend this one, outermost first, used to detect cycles
+ * @param chains - Collects the chain of files leading to each configuration that extends no other
+ * @param files - Collects every file that is loaded, including one that fails to load
+ */
+async function loadExtendedConfig(
+  explorer: Explorer,
+  filepath: string,
+  chain: string[],
+  chains: string[][],
+  files: Set<string> = new Set(),
+): Promise<Record<string, unknown>> {
+  if (chain.includes(filepath)) {
+    throw new ConfigError(`Circular "extends" in configuration: ${formatChain([...chain, filepath])}`);
+  }
+  files.add(filepath);
+  let result: Awaited<ReturnType<Explorer["load"]>>;
+  try {
+    result = await explorer.load(filepath);
+  } catch (error) {
+    const via = chain.length > 0 ? ` (extended by ${formatChain(chain)})` : "";
+    throw new ConfigError(`Failed to load configuration ${filepath}${via}`, { cause: error });
+  }
+
+  const config = result?.config ?? {};
+  if (!isPlainObject(config)) {
+    throw new ConfigError(`Configuration ${filepath} must be an object`);
+  }
+
+  const { extends: extendsValue, ...ownConfig } = config;
+  const specifiers = extendsValue === undefined ? [] : [extendsValue].flat();
+  if (specifiers.some((specifier) => typeof specifier !== "string")) {
+    throw new ConfigError(`"extends" in ${filepath} must be a path or package name, or a list of them`);
+  }
+
+  if (specifiers.length === 0) {
+    chains.push([...chain, filepath]);
+  }
+
+  let merged: Record<string, unknown> = {};
+  for (const specifier of specifiers as string[]) {
+    const base = await loadExtendedConfig(
+      explorer,
+      resolveExtends(specifier, filepath),
+      [...chain, filepath],
+      chains,
+      files,
+    );
+    merged = deepMerge(merged, base);
+  }
+
+  return deepMerge(merged, ownConfig);
+}
+
+/**
+ * Overlays a profile on the defaults and lifecycle hooks of the configuration. The environment of the
+ * profile is left to the caller, as it only applies when no environment is selected explicitly.
+ * @throws {ConfigError} If the configuration has no such profile
+ */
+export function applyProfile(config: StainlessConfig, name: string): StainlessConfig {
+  const profile = config.profiles?.[name];
+
+  if (!profile) {
+    const names = Object.keys(config.profiles ?? {});
+    const suggestion = suggestKey(name, names);
+    throw new ConfigError(
+      names.length === 0
+        ? `Profile "${name}" not found, the configuration has no profiles`
+        : `Profile "${name}" not found in configuration${suggestion ? `. Did you mean "${suggestion}"?` : "."} Available profiles: ${names.join(", ")}`,
+    );
+  }
+
+  return {
+    ...config,
+    defaults: profile.defaults ? { ...config.defaults, ...profile.defaults } : config.defaults,
+    lifecycle: profile.lifecycle
+      ? (deepMerge(config.lifecycle ?? {}, profile.lifecycle) as StainlessConfig["lifecycle"])
+      : config.lifecycle,
+  };
+}
+
+/**
+ * Loads and validates the configuration, merging in the configurations it extends.
+ * Configurations listed in `extends` are merged in order, and the extending configuration is merged last.
+ *
+ * @param configPath - Path of the configuration file. Searched for from the working directory if omitted.
+ * @param profile - Name of a profile to overlay on the defaults and lifecycle hooks, see applyProfile
+ * @throws {ConfigError} If no configuration is found, an extended configuration cannot be loaded,
+ *   `extends` is circular, the merged configuration is invalid or the profile does not exist
+ */
+export const loadConfig = async (configPath?: string, profile?: string): Promise<StainlessConfig> => {
+  const config = await loadConfigFile(configPath);
+  return profile ? applyProfile(config, profile) : config;
+};
+
+/**
+ * Returns the path of the configuration file loadConfig loads, e.g. to watch it for changes
+ * @param configPath - Path of the configuration file. Searched for from the working directory if omitted.
+ * @returns The absolute path of the configuration file, or undefined if none is found
+ */
+export async function findConfigFile(configPath?: string): Promise<string | undefined> {
+  if (configPath) {
+    return path.resolve(process.cwd(), configPath);
+  }
+  return (await createConfigExplorer().search())?.filepath;
+}
+
+/**
+ * Returns the configuration file loadConfig loads along with every configuration it extends, e.g. to watch them
+ * for changes. The configuration is not validated, and the files found up to one that fails to load are returned,
+ * so that fixing that file can be noticed too.
+ * @param configPath - Path of the configuration file. Searched for from the working directory if omitted.
+ * @returns The absolute paths of the files, the configuration file first, or an empty list if none is found
+ */
+export async function findConfigFiles(configPath?: string): Promise<string[]> {
+  const configFile = await findConfigFile(configPath);
+  if (!configFile) {
+    return [];
+  }
+
+  const files = new Set<string>();
+  try {
+    await loadExtendedConfig(createConfigExplorer(), configFile, [], [], files);
+  } catch {
+    // Keep the files found so far
+  }
+  return [...files];
+}
+
+/**
+ * Loads and validates the configuration file, merging in the configurations it extends
+ */
+async function loadConfigFile(configPath?: string): Promise<StainlessConfig> {
+  const explorer = createConfigExplorer();
   const result = configPath ? await explorer.load(configPath) : await explorer.search();
 
   if (!result) {
-    throw new Error("No configuration file found");
+    const legacy = await createConfigExplorer(LEGACY_MODULE_NAME).search();
+    if (legacy) {
+      throw new ConfigError(
+        `No configuration file found, but found ${legacy.filepath}, which uses the name of stainless-tools v1. ${MIGRATE_HINT}`,
+      );
+    }
+    throw new ConfigError("No configuration file found");
   }
 
-  return configSchema.parse(result.config);
-};
+  if (!isPlainObject(result.config) || result.config.extends === undefined) {
+    return parseConfig(result.config, [[result.filepath]]);
+  }
+
+  const chains: string[][] = [];
+  const config = await loadExtendedConfig(explorer, result.filepath, [], chains);
+  return parseConfig(config, chains);
+}
+
+/**
+ * Returns the keys the object schema at a path of the configuration accepts
+ */
+function getKnownKeys(path: (string | number)[]): string[] {
+  let schema: ZodTypeAny = configSchema;
+
+  for (const segment of [...path, undefined]) {
+    while (schema instanceof z.ZodOptional || schema instanceof z.ZodEffects) {
+      schema = schema instanceof z.ZodOptional ? schema._def.innerType : schema._def.schema;
+    }
+    if (segment === undefined) {
+      break;
+    }
+    if (schema instanceof z.ZodRecord) {
+      schema = schema.valueSchema;
+    } else if (schema instanceof z.ZodObject && segment in schema.shape) {
+      schema = schema.shape[segment];
+    } else {
+      return [];
+    }
+  }
+
+  return schema instanceof z.ZodObject ? Object.keys(schema.shape) : [];
+}
+
+const formatPath = (path: (string | number)[]) => path.join(".") || "(root)";
+
+const formatSuggestion = (suggestion: string | undefined) => (suggestion ? `. Did you mean "${suggestion}"?` : "");
+
+/**
+ * Describes what is wrong with the value of an issue, in the words of zod where they are clear enough
+ */
+function describeIssue(issue: ZodIssue): string {
+  switch (issue.code) {
+    case "invalid_type":
+      return issue.received === "undefined"
+        ? `Required, expected ${issue.expected}`
+        : `Expected ${issue.expected}, received ${issue.received}`;
+    case "too_small":
+      return issue.type === "string" && issue.minimum === 1 ? "Expected a non-empty string" : issue.message;
+    default:
+      return issue.message;
+  }
+}
+
+/**
+ * Formats an issue found while validating the configuration as one or more `key.path: problem` lines.
+ * Unknown keys that look like a typo of a known key come with a suggestion.
+ */
+export function formatConfigIssue(issue: ZodIssue): string[] {
+  if (issue.code === "unrecognized_keys") {
+    return issue.keys.map(
+      (key) =>
+        `${formatPath([...issue.path, key])}: Unknown key${formatSuggestion(suggestKey(key, getKnownKeys(issue.path)))}`,
+    );
+  }
+
+  // Keys of an SDK entry that are not overrides are environments, so a misspelled override fails
+  // as an invalid repository URL instead of an unknown key
+  const isSdkEntryKey = issue.path[0] === "stainlessSdkRepos" && issue.path.length === 3;
+  const suggestion = isSdkEntryKey ? suggestKey(String(issue.path[2]), SDK_OVERRIDE_KEYS) : undefined;
+
+  return [`${formatPath(issue.path)}: ${describeIssue(issue)}${formatSuggestion(suggestion)}`];
+}
+
+// `${VAR}` or `${VAR:-default}`, or an escaped `$${...}` which is kept as `${...}`
+const ENV_REFERENCE = /\$(\$?)\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+// Variables set by LifecycleManager when running a hook, left for the shell to expand
+const HOOK_VARIABLE_PREFIX = "STAINLESS_TOOLS_SDK_";
+
+/**
+ * Expands `${VAR}` and `${VAR:-default}` in every string of a configuration. The default is used
+ * when the variable is unset or empty. References to the variables of lifecycle hooks are kept as written.
+ *
+ * @param undefinedVariables - Collects the paths of the strings that reference each undefined variable
+ */
+function interpolateEnv(
+  value: unknown,
+  env: NodeJS.ProcessEnv,
+  undefinedVariables: Map<string, string[]>,
+  keyPath: string[] = [],
+): unknown {
+  if (typeof value === "string") {
+    return value.replace(ENV_REFERENCE, (reference, escaped: string, name: string, defaultValue?: string) => {
+      if (escaped) {
+        return reference.slice(1);
+      }
+      if (name.startsWith(HOOK_VARIABLE_PREFIX)) {
+        return reference;
+      }
+      if (env[name]) {
+        return env[name];
+      }
+      if (defaultValue !== undefined) {
+        return defaultValue;
+      }
+      if (env[name] === undefined) {
+        undefinedVariables.set(name, [...(undefinedVariables.get(name) ?? []), keyPath.join(".")]);
+      }
+      return "";
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, env, undefinedVariables, [...keyPath, String(index)]));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        interpolateEnv(item, env, undefinedVariables, [...keyPath, key]),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Expands environment variables in a loaded configuration and validates it
+ *
+ * @param chains - Chains of files the configuration was merged from, listed in the error if it is invalid
+ */
+function parseConfig(config: unknown, chains: string[][]): StainlessConfig {
+  const source =
+    chains.length === 1 && chains[0].length === 1 ? chains[0][0] : `merged from ${chains.map(formatChain).join(", ")}`;
+
+  const legacySdkNames = getLegacySdkNames(config);
+  if (legacySdkNames.length > 0) {
+    throw new ConfigError(
+      `Configuration (${source}) uses the format of stainless-tools v2, where each SDK is a single repository URL (${legacySdkNames.join(", ")}). ${MIGRATE_HINT}`,
+    );
+  }
+
+  const undefinedVariables = new Map<string, string[]>();
+  const interpolated = interpolateEnv(config, process.env, undefinedVariables);
+  if (undefinedVariables.size > 0) {
+    const variables = [...undefinedVariables].map(([name, keyPaths]) => `  ${name} (used in ${keyPaths.join(", ")})`);
+    throw new ConfigError(`Undefined environment variables in configuration (${source}):\n${variables.join("\n")}`);
+  }
+
+  try {
+    return configSchema.parse(interpolated);
+  } catch (error) {
+    if (!(error instanceof ZodError)) {
+      throw error;
+    }
+    const issues = error.issues.flatMap(formatConfigIssue).map((issue) => `  ${issue}`);
+    throw new ConfigError(`Invalid configuration (${source}):\n${issues.join("\n")}`, {
+      issues: error.issues,
+      cause: error,
+    });
+  }
+}
@@ -0,0 +1,438 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { execa } from "execa";
+import YAML from "yaml";
+import { ZodError } from "zod";
+import { StainlessError } from "./StainlessError.js";
+import { type StainlessConfig, formatConfigIssue, getSdkRepoUrls, getSdkSpecFiles, loadConfig } from "./config.js";
+import { BRANCH_SOURCES_HINT, resolveSdkBranch } from "./sdk-branch.js";
+import { type SpecValidationIssue, formatSpecValidationIssue, validateOpenApiSpec } from "./spec-validation.js";
+import { getTargetDir, getTemplateVariableNames } from "./template.js";
+
+/**
+ * Outcome of a single doctor check.
+ */
+export type DoctorCheckStatus = "pass" | "warn" | "fail";
+
+/**
+ * Result of a single doctor check.
+ */
+export interface DoctorCheck {
+  /** What the check applies to: "general" or the name of an SDK */
+  scope: string;
+  /** Short name of the check */
+  name: string;
+  /** Outcome of the check */
+  status: DoctorCheckStatus;
+  /** Details about the outcome */
+  message: string;
+}
+
+/**
+ * Options for running the doctor checks.
+ */
+export interface DoctorOptions {
+  /** Path to the configuration file. Searched for by cosmiconfig if not provided. */
+  configPath?: string;
+  /** SDKs to check. Defaults to every SDK in the configuration. */
+  sdkNames?: string[];
+  /** Branch used to resolve the target directory */
+  branch?: string;
+  /** Target directory template, overrides the configuration default */
+  targetDir?: string;
+  /** OpenAPI file, overrides the one of every SDK in the configuration */
+  openApiFile?: string;
+  /** Stainless config file, overrides the one of every SDK in the configuration */
+  stainlessConfigFile?: string;
+  /** Environment used to resolve the target directory (default: the environment of the profile, or staging) */
+  env?: string;
+  /** Name of the configuration profile to overlay on the configuration */
+  profile?: string;
+  /** Timeout in milliseconds for each `git ls-remote` call (default: 15000) */
+  gitTimeoutMs?: number;
+}
+
+/**
+ * Shell builtins and keywords that can appear in lifecycle hooks but are not binaries on the PATH.
+ */
+const SHELL_BUILTINS = new Set([
+  ".",
+  "[",
+  "cd",
+  "echo",
+  "eval",
+  "exec",
+  "exit",
+  "export",
+  "false",
+  "printf",
+  "pwd",
+  "read",
+  "set",
+  "source",
+  "test",
+  "true",
+  "unset",
+]);
+
+/**
+ * Formats an error from loading the configuration as a single line
+ */
+function formatConfigError(error: unknown): string {
+  if (error instanceof StainlessError && error.cause instanceof ZodError) {
+    return formatConfigError(error.cause);
+  }
+  if (error instanceof ZodError) {
+    return error.issues.flatMap(formatConfigIssue).join("; ");
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Extracts the programs invoked by a shell command, e.g. `cd x && npm install` -> `["npm"]`.
+ * Environment variable assignments, variables and shell builtins are skipped.
+ */
+export function extractCommandNames(command: string): string[] {
+  const names = command
+    .split(/&&|\|\||[;|]/)
+    .map((segment) =>
+      segment
+        .trim()
+        .replace(/^[({\s]+/, "")
+        .split(/\s+/)
+        .find((token) => token && !/^\w+=/.test(token)),
+    )
+    .map((name) => name?.replace(/^["']|["']$/g, ""))
+    .filter((name): name is string => !!name && !name.startsWith("$") && !SHELL_BUILTINS.has(name));
+
+  return [...new Set(names)];
+}
+
+/**
+ * Resolves a program name to an executable file, searching the PATH for bare names
+ * @returns The path of the executable, or undefined if it could not be found
+ */
+export async function resolveExecutable(name: string): Promise<string | undefined> {
+  const isExecutable = async (filePath: string) => {
+    try {
+      await fs.access(filePath, fs.constants.X_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (name.includes("/") || name.includes("\\")) {
+    const filePath = path.resolve(process.cwd(), name);
+    return (await isExecutable(filePath)) ? filePath : undefined;
+  }
+
+  const extensions = process.platform === "win32" ? (process.env.PATHEXT || ".EXE;.CMD;.BAT").split(";") : [""];
+  const pathDirs = (process.env.PATH || "").split(path.delimiter).filter(Boolean);
+
+  for (const dir of pathDirs) {
+    for (const extension of extensions) {
+      const candidate = path.join(dir, `${name}${extension}`);
+      if (await isExecutable(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Collects the distinct OpenAPI or Stainless config files of the SDKs, along with the scope to report them in:
+ * "general" when every SDK uses the file, otherwise the names of the SDKs that do
+ * @param override - File given as an option, which replaces the files of every SDK
+ */
+function collectSpecFiles(
+  override: string | undefined,
+  config: StainlessConfig | undefined,
+  sdkNames: string[],
+  key: "openApiFile" | "stainlessConfigFile",
+): { filePath: string; scope: string }[] {
+  if (override) {
+    return [{ filePath: path.resolve(process.cwd(), override), scope: "general" }];
+  }
+  if (!config) {
+    return [];
+  }
+
+  const sdksByFile = new Map<string, string[]>();
+  for (const sdkName of sdkNames) {
+    const file = getSdkSpecFiles(config, sdkName)[key];
+    if (file) {
+      const filePath = path.resolve(process.cwd(), file);
+      sdksByFile.set(filePath, [...(sdksByFile.get(filePath) ?? []), sdkName]);
+    }
+  }
+
+  return [...sdksByFile].map(([filePath, sdks]) => ({
+    filePath,
+    scope: sdks.length === sdkNames.length ? "general" : sdks.join(", "),
+  }));
+}
+
+/**
+ * Checks that a file exists and parses as YAML or JSON
+ */
+async function checkSpecFile(scope: string, name: string, filePath: string): Promise<DoctorCheck> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return { scope, name, status: "fail", message: `${filePath} does not exist or cannot be read` };
+  }
+
+  try {
+    YAML.parse(contents);
+  } catch (error) {
+    return {
+      scope,
+      name,
+      status: "fail",
+      message: `${filePath} could not be parsed: ${error instanceof Error ? error.message.split("\n")[0] : error}`,
+    };
+  }
+
+  return { scope, name, status: "pass", message: filePath };
+}
+
+/**
+ * Checks that an OpenAPI file is valid, with the same validation that runs before publishing
+ */
+async function checkOpenApiFile(scope: string, filePath: string): Promise<DoctorCheck> {
+  const name = "OpenAPI file";
+  let issues: SpecValidationIssue[];
+  try {
+    issues = await validateOpenApiSpec(filePath);
+  } catch (error) {
+    const message =
+      error instanceof StainlessError ? `${filePath} does not exist or cannot be read` : `${filePath}: ${error}`;
+    return { scope, name, status: "fail", message };
+  }
+
+  if (issues.length > 0) {
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more, see "stainless-tools validate-spec")` : "";
+    return { scope, name, status: "fail", message: `${formatSpecValidationIssue(issues[0])}${more}` };
+  }
+
+  return { scope, name, status: "pass", message: filePath };
+}
+
+/**
+ * Checks that a directory is writable, or that it can be created if it does not exist yet
+ */
+async function checkWritable(scope: string, dir: string): Promise<DoctorCheck> {
+  let existing = dir;
+  while (true) {
+    try {
+      await fs.access(existing);
+      break;
+    } catch {
+      const parent = path.dirname(existing);
+      if (parent === existing) {
+        break;
+      }
+      existing = parent;
+    }
+  }
+
+  try {
+    await fs.access(existing, fs.constants.W_OK);
+  } catch {
+    return { scope, name: "Target directory", status: "fail", message: `${existing} is not writable` };
+  }
+
+  return {
+    scope,
+    name: "Target directory",
+    status: "pass",
+    message: existing === dir ? `${dir} is writable` : `${dir} will be created`,
+  };
+}
+
+/**
+ * Checks that a repository URL can be reached with the local git credentials
+ */
+async function checkRepoAccess(scope: string, env: string, url: string, timeout: number): Promise<DoctorCheck> {
+  try {
+    await execa("git", ["ls-remote", "--heads", url], {
+      timeout,
+      env: { GIT_TERMINAL_PROMPT: "0" },
+    });
+    return { scope, name: `${env} repository`, status: "pass", message: `${url} is reachable` };
+  } catch (error) {
+    const { timedOut, stderr, message } = error as { timedOut?: boolean; stderr?: string; message?: string };
+    const reason = timedOut
+      ? `timed out after ${timeout}ms`
+      : (stderr || message || String(error)).trim().split("\n")[0];
+    return { scope, name: `${env} repository`, status: "fail", message: `${url} is not reachable: ${reason}` };
+  }
+}
+
+/**
+ * Runs the checks for a single SDK
+ */
+async function checkSdk(
+  sdkName: string,
+  config: StainlessConfig,
+  options: DoctorOptions,
+  hasGit: boolean,
+): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+  const repoConfig = config.stainlessSdkRepos[sdkName];
+  const env = options.env ?? (options.profile && config.profiles?.[options.profile]?.env) ?? "staging";
+
+  if (!repoConfig) {
+    return [{ scope: sdkName, name: "Configuration", status: "fail", message: "SDK not found in configuration" }];
+  }
+
+  const repoUrls = getSdkRepoUrls(repoConfig);
+  if (!repoUrls[env]) {
+    checks.push({ scope: sdkName, name: `${env} repository`, status: "warn", message: `No ${env} URL configured` });
+  }
+
+  if (hasGit) {
+    for (const [repoEnv, url] of Object.entries(repoUrls)) {
+      checks.push(await checkRepoAccess(sdkName, repoEnv, url, options.gitTimeoutMs ?? 15000));
+    }
+  }
+
+  const targetDirTemplate = options.targetDir || repoConfig.targetDir || config.defaults?.targetDir || "./sdks/{sdk}";
+  const projectName = repoConfig.projectName || config.defaults?.projectName;
+  try {
+    const { branch, hostBranch } = await resolveSdkBranch({
+      sdkName,
+      config,
+      profile: options.profile,
+      env,
+      branch: options.branch,
+      targetDirTemplate,
+      projectName,
+      baseDir: process.cwd(),
+    });
+
+    if (!branch && getTemplateVariableNames(targetDirTemplate).includes("branch")) {
+      checks.push({
+        scope: sdkName,
+        name: "Target directory",
+        status: "warn",
+        message: `Target directory depends on {branch}. ${BRANCH_SOURCES_HINT}`,
+      });
+    } else {
+      const targetDir = path.resolve(
+        process.cwd(),
+        getTargetDir({
+          targetDir: targetDirTemplate,
+          sdkName,
+          env,
+          branch: branch?.value,
+          projectName,
+          hostBranch,
+        }),
+      );
+      checks.push(await checkWritable(sdkName, targetDir));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    checks.push({ scope: sdkName, name: "Target directory", status: "fail", message });
+  }
+
+  const hooks = config.lifecycle?.[sdkName] ?? {};
+  for (const [hook, command] of Object.entries(hooks)) {
+    if (!command) {
+      continue;
+    }
+
+    const missing: string[] = [];
+    for (const name of extractCommandNames(command)) {
+      if (!(await resolveExecutable(name))) {
+        missing.push(name);
+      }
+    }
+
+    checks.push(
+      missing.length > 0
+        ? { scope: sdkName, name: `${hook} hook`, status: "fail", message: `Not found on PATH: ${missing.join(", ")}` }
+        : { scope: sdkName, name: `${hook} hook`, status: "pass", message: command },
+    );
+  }
+
+  return checks;
+}
+
+/**
+ * Diagnoses common environment, configuration and git access problems.
+ *
+ * Checks that the configuration loads and is valid, that the OpenAPI file of each SDK is a valid specification
+ * and its Stainless config file parses, that STAINLESS_API_KEY is set and git is installed, and for each SDK that its
+ * repository URLs are reachable, its target directory is writable and its lifecycle hook
+ * binaries resolve on the PATH.
+ *
+ * @param options - Options for running the checks
+ * @returns The result of every check that was run
+ */
+export async function runDoctorChecks(options: DoctorOptions = {}): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+
+  let config: StainlessConfig | undefined;
+  try {
+    config = await loadConfig(options.configPath, options.profile);
+    checks.push({ scope: "general", name: "Configuration", status: "pass", message: "Loaded and valid" });
+  } catch (error) {
+    checks.push({ scope: "general", name: "Configuration", status: "fail", message: formatConfigError(error) });
+  }
+
+  checks.push(
+    process.env.STAINLESS_API_KEY
+      ? { scope: "general", name: "STAINLESS_API_KEY", status: "pass", message: "Set" }
+      : {
+          scope: "general",
+          name: "STAINLESS_API_KEY",
+          status: "fail",
+          message: "Not set. Add it to .env or export it in your shell.",
+        },
+  );
+
+  let hasGit = false;
+  try {
+    const { stdout } = await execa("git", ["--version"]);
+    hasGit = true;
+    checks.push({ scope: "general", name: "git", status: "pass", message: stdout.trim() });
+  } catch {
+    checks.push({ scope: "general", name: "git", status: "fail", message: "git is not installed or not on the PATH" });
+  }
+
+  const sdkNames = config ? (options.sdkNames?.length ? options.sdkNames : Object.keys(config.stainlessSdkRepos)) : [];
+  const openApiFiles = collectSpecFiles(options.openApiFile, config, sdkNames, "openApiFile");
+  if (openApiFiles.length === 0) {
+    checks.push({
+      scope: "general",
+      name: "OpenAPI file",
+      status: "warn",
+      message: "Not configured. Set defaults.openApiFile or pass --open-api-file.",
+    });
+  }
+  for (const { filePath, scope } of openApiFiles) {
+    checks.push(await checkOpenApiFile(scope, filePath));
+  }
+
+  for (const { filePath, scope } of collectSpecFiles(
+    options.stainlessConfigFile,
+    config,
+    sdkNames,
+    "stainlessConfigFile",
+  )) {
+    checks.push(await checkSpecFile(scope, "Stainless config file", filePath));
+  }
+
+  if (config) {
+    const sdkChecks = await Promise.all(sdkNames.map((sdkName) => checkSdk(sdkName, config, options, hasGit)));
+    checks.push(...sdkChecks.flat());
+  }
+
+  return checks;
+}
@@ -0,0 +1,115 @@
+import { StainlessError, type StainlessErrorCode } from "./StainlessError.js";
+
+/**
+ * Machine-readable events emitted while generating SDKs and publishing specs.
+ * Every event has a `type`; the remaining fields depend on the type.
+ */
+export type StainlessEvent =
+  | {
+      type: "config-loaded";
+      /** SDKs that will be processed */
+      sdkNames: string[];
+    }
+  | {
+      type: "publish-started" | "publish-succeeded" | "publish-skipped";
+      branch?: string;
+      projectName?: string;
+    }
+  | {
+      type: "publish-failed";
+      branch?: string;
+      projectName?: string;
+      /** HTTP status of the response, if the API responded */
+      status?: number;
+      message: string;
+    }
+  | {
+      type: "publish-retrying";
+      branch?: string;
+      projectName?: string;
+      /** HTTP status of the failed attempt, if the API responded */
+      status?: number;
+      message: string;
+      /** Number of the attempt about to be made, starting at 2 for the first retry */
+      attempt: number;
+      maxAttempts: number;
+      /** Time waited before the attempt */
+      delayMs: number;
+    }
+  | {
+      type: "sdk-update-detected";
+      sdkName?: string;
+      branch: string;
+      /** Commit currently checked out locally */
+      localHash: string;
+      /** Latest commit on the remote branch */
+      remoteHash: string;
+    }
+  | {
+      type: "pulled";
+      sdkName?: string;
+      branch: string;
+      oldHash: string;
+      newHash: string;
+    }
+  | {
+      type: "hook-started";
+      sdkName: string;
+      hook: "postClone" | "postUpdate" | "prePublishSpec";
+      command: string;
+    }
+  | {
+      type: "hook-finished";
+      sdkName: string;
+      hook: "postClone" | "postUpdate" | "prePublishSpec";
+      command: string;
+      /** Exit code of the command, or null if it could not be started or was killed */
+      exitCode: number | null;
+    }
+  | {
+      type: "config-reloaded";
+      /** Changes that were applied while watching */
+      applied: string[];
+      /** Changes that only apply after restarting */
+      requiresRestart: string[];
+    }
+  | {
+      type: "error";
+      sdkName?: string;
+      message: string;
+      /** Stable code of the error, if it is a StainlessError */
+      code?: StainlessErrorCode;
+      /** Message of the underlying error, if any */
+      cause?: string;
+    };
+
+/**
+ * Receives events as they happen.
+ */
+export type EventHandler = (event: StainlessEvent) => void;
+
+/**
+ * Creates an error event from any thrown value, including the message of its cause
+ */
+export function toErrorEvent(error: unknown, sdkName?: string): StainlessEvent {
+  const message = error instanceof Error ? error.message : String(error);
+  const cause = error instanceof Error && error.cause !== undefined ? error.cause : undefined;
+
+  return {
+    type: "error",
+    ...(sdkName && { sdkName }),
+    message,
+    ...(error instanceof StainlessError && { code: error.code }),
+    ...(cause !== undefined && { cause: cause instanceof Error ? cause.message : String(cause) }),
+  };
+}
+
+/**
+ * Creates an event handler that writes each event as a line of JSON (NDJSON), with a timestamp.
+ * @param stream - Stream the events are written to (default: stdout)
+ */
+export function createNdjsonEventHandler(stream: NodeJS.WritableStream = process.stdout): EventHandler {
+  return (event) => {
+    stream.write(`${JSON.stringify({ timestamp: new Date().toISOString(), ...event })}\n`);
+  };
+}
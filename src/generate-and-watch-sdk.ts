@@ -1,7 +1,14 @@
+import chalk from "chalk";
+import { watch } from "chokidar";
 import type { Ora } from "ora";
+import { DEFAULT_DEBOUNCE_MS, DEFAULT_STABILITY_THRESHOLD_MS, FileWatcher, type WatchOptions } from "./FileWatcher.js";
 import { LifecycleManager } from "./LifecycleManager.js";
+import type { PublishHistory } from "./PublishHistory.js";
+import { StainlessApi } from "./StainlessApi.js";
 import { StainlessError } from "./StainlessError.js";
 import { StainlessTools } from "./StainlessTools.js";
+import { type EventHandler, toErrorEvent } from "./events.js";
+import { type Logger, createPrefixedLogger } from "./logger.js";
 
 /**
  * Configuration options for generating and watching an SDK.
@@ -13,7 +20,7 @@ interface GenerateAndWatchSDKOptions {
   sdkRepo: string;
   /** Branch to clone and watch for changes */
   branch: string;
-  /** Local directory where the SDK will be generated */
+  /** Local directory where the SDK will be generated, used as given without rendering placeholders */
   targetDir: string;
   /** Path to OpenAPI specification file (required) */
   openApiFile: string;
@@ -21,6 +28,10 @@ interface GenerateAndWatchSDKOptions {
   stainlessConfigFile?: string;
   /** Interval in milliseconds between checking for updates (default: 5000) */
   pollIntervalMs?: number;
+  /** Milliseconds to wait after the last change of the watched files before publishing them (default: 1000) */
+  debounceMs?: number;
+  /** Milliseconds the size of a changed file must stay the same before it is published (default: 5000) */
+  stabilityThresholdMs?: number;
   /** Ora spinner instance for displaying progress (optional) */
   spinner?: Ora;
   /** Additional configuration options for Stainless API */
@@ -33,8 +44,14 @@ interface GenerateAndWatchSDKOptions {
     projectName?: string;
     /** Whether to attempt automatic configuration detection */
     guessConfig?: boolean;
+    /** Maximum number of attempts to publish, including the first one (default: 4) */
+    maxAttempts?: number;
+    /** Maximum time in milliseconds to spend publishing, including the time waiting between retries (default: 60000) */
+    retryBudgetMs?: number;
+    /** Maximum time in milliseconds to wait for the API to respond to each request (default: 30000) */
+    requestTimeoutMs?: number;
   };
-  /** The environment (staging/prod) being used */
+  /** The environment being used, e.g. staging or prod */
   env?: string;
   /** Optional lifecycle hooks for each SDK */
   lifecycle?: {
@@ -46,20 +63,116 @@ interface GenerateAndWatchSDKOptions {
   };
   /** Name of the project in Stainless (required) */
   projectName: string;
+  /** Logger used for human-readable output (default: console) */
+  logger?: Logger;
+  /** Receives machine-readable events as they happen (optional) */
+  onEvent?: EventHandler;
+  /** Stream the stdout of lifecycle hooks is written to (default: process.stdout) */
+  hookStdout?: NodeJS.WritableStream;
+  /** Configuration file to watch, applying changes while watching the SDK (optional) */
+  watchConfig?: WatchConfigOptions;
+  /** Skips publishing files that have not changed since they were last published (optional) */
+  publishHistory?: PublishHistory;
+  /** Publishes the files even when they have not changed since they were last published (default: false) */
+  force?: boolean;
 }
 
+/**
+ * Per-SDK options for generating and watching several SDKs at once.
+ */
+export type WatchedSDKOptions = Omit<
+  GenerateAndWatchSDKOptions,
+  "spinner" | "lifecycle" | "logger" | "onEvent" | "hookStdout" | "watchConfig" | "publishHistory" | "force"
+>;
+
+/**
+ * Options re-resolved from the configuration file when it changes while watching.
+ */
+export interface ReloadedOptions {
+  /** Options of each SDK being watched */
+  sdks: WatchedSDKOptions[];
+  /** Lifecycle hooks for each SDK */
+  lifecycle?: GenerateAndWatchSDKOptions["lifecycle"];
+  /** Interval in milliseconds between checking for updates, for SDKs that do not set their own (default: 5000) */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Options for watching the configuration file while watching SDKs.
+ * Lifecycle hooks, watched files and their timings, and poll intervals are applied live. Other changes, such as
+ * the repository URL or target directory of an SDK, are reported as requiring a restart.
+ */
+export interface WatchConfigOptions {
+  /** Path of the configuration file */
+  configFile: string;
+  /** Re-resolves the options from the configuration file after it changed */
+  reload: () => Promise<ReloadedOptions>;
+  /**
+   * Returns the configuration file along with the files it extends, which are watched too. Called again after
+   * each reload, as `extends` may have changed (optional, only the configuration file is watched without it)
+   */
+  getConfigFiles?: () => Promise<string[]>;
+}
+
+/**
+ * Configuration options for generating and watching several SDKs from one process.
+ */
+interface GenerateAndWatchSDKsOptions {
+  /** SDKs to generate and watch */
+  sdks: WatchedSDKOptions[];
+  /** Interval in milliseconds between checking each SDK for updates, for SDKs that do not set their own (default: 5000) */
+  pollIntervalMs?: number;
+  /** Ora spinner instance shared by all SDKs (optional) */
+  spinner?: Ora;
+  /** Optional lifecycle hooks for each SDK */
+  lifecycle?: GenerateAndWatchSDKOptions["lifecycle"];
+  /** Logger used for human-readable output, prefixed with the SDK name where relevant (default: console) */
+  logger?: Logger;
+  /** Receives machine-readable events as they happen (optional) */
+  onEvent?: EventHandler;
+  /** Stream the stdout of lifecycle hooks is written to (default: process.stdout) */
+  hookStdout?: NodeJS.WritableStream;
+  /** Configuration file to watch, applying changes while watching the SDKs (optional) */
+  watchConfig?: WatchConfigOptions;
+  /** Skips publishing files that have not changed since they were last published (optional) */
+  publishHistory?: PublishHistory;
+  /** Publishes the files even when they have not changed since they were last published (default: false) */
+  force?: boolean;
+}
+
+/**
+ * Configuration options for generating SDKs once, e.g. in CI.
+ */
+interface GenerateSDKsOnceOptions extends GenerateAndWatchSDKsOptions {
+  /** Maximum time in milliseconds to wait for each SDK branch to update (default: 600000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Default interval between checks of an SDK repository for new commits
+ */
+export const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Default time to wait for the SDK branch to update in one-shot mode
+ */
+export const DEFAULT_ONCE_TIMEOUT_MS = 10 * 60 * 1000;
+
 /**
  * Generates an SDK and continuously watches for changes in the source repository.
  * This function clones the SDK repository, sets up a polling mechanism to detect changes,
  * and automatically pulls updates when they are available.
  *
  * @param options - Configuration options for SDK generation and watching
- * @returns A cleanup function that stops the polling and performs necessary cleanup
+ * @returns A cleanup function that stops the polling, cancels any publish in flight and performs necessary cleanup
  * @throws {StainlessError} If there are issues with cloning or updating the SDK
  */
 export async function generateAndWatchSDK(options: GenerateAndWatchSDKOptions): Promise<() => Promise<void>> {
   // Create a lifecycle manager instance
-  const lifecycleManager = new LifecycleManager(options.lifecycle);
+  const lifecycleManager = new LifecycleManager(options.lifecycle, options.logger, {
+    onEvent: options.onEvent,
+    hookStdout: options.hookStdout,
+  });
 
   // Initialize the SDK tools with provided options
   const sdk = new StainlessTools({
@@ -79,55 +192,618 @@ export async function generateAndWatchSDK(options: GenerateAndWatchSDKOptions):
     throw new StainlessError("Failed to clone SDK repository", error);
   }
 
-  let isPolling = true;
-  let timeoutId: NodeJS.Timeout;
+  // Copied so that reloaded options are applied to the copy, which pollForChanges reads
+  const watchedOptions = { ...options };
+  const stopPolling = pollForChanges(sdk, watchedOptions);
+
+  const stopWatchingConfig =
+    options.watchConfig &&
+    watchConfigFile(options.watchConfig, options, {
+      sdks: [watchedOptions],
+      lifecycle: options.lifecycle,
+      lifecycleManager,
+      fileWatcherGroups: [
+        { sdkNames: [options.sdkName], setWatchOptions: (watchOptions) => sdk.setWatchOptions(watchOptions) },
+      ],
+    });
 
   /**
-   * Polls for changes in the SDK repository and updates when necessary.
-   * This function runs recursively at the specified interval as long as isPolling is true.
+   * Returns a cleanup function that:
+   * 1. Stops the polling mechanism and watching the configuration file
+   * 2. Performs necessary SDK cleanup, which cancels any publish in flight
    */
-  const pollForChanges = async () => {
+  return async () => {
+    stopPolling();
+    await stopWatchingConfig?.();
+    sdk.cleanup();
+  };
+}
+
+/**
+ * Generates several SDKs and continuously watches all of them from a single process.
+ * SDKs that publish the same files to the same Stainless project and branch share a single
+ * FileWatcher, so the spec is only published once per change. Each SDK repository is
+ * cloned and polled concurrently, and its output is prefixed with the SDK name.
+ *
+ * @param options - Configuration options for the SDKs to generate and watch
+ * @returns A cleanup function that stops all polling and file watching, cancels any publish in flight and
+ *   performs necessary cleanup
+ * @throws {StainlessError} If there are issues publishing the files or cloning any of the SDKs
+ */
+export async function generateAndWatchSDKs(options: GenerateAndWatchSDKsOptions): Promise<() => Promise<void>> {
+  if (options.sdks.length === 0) {
+    throw new StainlessError("At least one SDK is required");
+  }
+
+  // A single lifecycle manager serves every SDK since hooks are keyed by SDK name
+  const lifecycleManager = new LifecycleManager(options.lifecycle, options.logger, {
+    onEvent: options.onEvent,
+    hookStdout: options.hookStdout,
+  });
+
+  const fileWatcherGroups = createFileWatchers(options, lifecycleManager);
+
+  const sdks = options.sdks.map((sdkOptions) => {
+    const logger = createPrefixedLogger(`[${sdkOptions.sdkName}]`, options.logger);
+    return {
+      sdkName: sdkOptions.sdkName,
+      logger,
+      tools: new StainlessTools({
+        ...sdkOptions,
+        spinner: options.spinner,
+        lifecycle: options.lifecycle,
+        lifecycleManager,
+        logger,
+        onEvent: options.onEvent,
+        hookStdout: options.hookStdout,
+        watchFiles: false,
+      }),
+    };
+  });
+
+  try {
+    for (const { fileWatcher } of fileWatcherGroups) {
+      await fileWatcher.publishFiles();
+    }
+
+    // Clone or update every SDK repository concurrently
+    await Promise.all(sdks.map(({ tools }) => tools.clone()));
+  } catch (error) {
+    if (error instanceof StainlessError) {
+      throw error;
+    }
+    throw new StainlessError("Failed to clone SDK repositories", error);
+  }
+
+  for (const { fileWatcher } of fileWatcherGroups) {
+    fileWatcher.start();
+  }
+
+  // Copied so that reloaded options are applied to the copies, which pollForChanges reads
+  const watchedSdks = options.sdks.map((sdkOptions) => ({
+    ...sdkOptions,
+    pollIntervalMs: sdkOptions.pollIntervalMs ?? options.pollIntervalMs,
+  }));
+  const stopPolling = sdks.map(({ tools, logger }, index) => {
+    const watchedSdk = watchedSdks[index];
+    return pollForChanges(tools, {
+      sdkName: watchedSdk.sdkName,
+      get pollIntervalMs() {
+        return watchedSdk.pollIntervalMs;
+      },
+      spinner: options.spinner,
+      logger,
+      onEvent: options.onEvent,
+    });
+  });
+
+  const stopWatchingConfig =
+    options.watchConfig &&
+    watchConfigFile(options.watchConfig, options, {
+      sdks: watchedSdks,
+      lifecycle: options.lifecycle,
+      lifecycleManager,
+      fileWatcherGroups: fileWatcherGroups.map(({ fileWatcher, sdkNames }) => ({
+        sdkNames,
+        setWatchOptions: (watchOptions) => fileWatcher.setWatchOptions(watchOptions),
+      })),
+    });
+
+  return async () => {
+    for (const stop of stopPolling) {
+      stop();
+    }
+    await stopWatchingConfig?.();
+    for (const { tools } of sdks) {
+      tools.cleanup();
+    }
+    for (const { fileWatcher } of fileWatcherGroups) {
+      fileWatcher.stop();
+      fileWatcher.abortPublish();
+    }
+  };
+}
+
+/**
+ * Generates an SDK once without watching, e.g. in CI.
+ * Publishes the spec, waits until the SDK branch moves past the commit recorded when the repository
+ * was cloned, pulls the new commit and runs the postUpdate hook.
+ *
+ * @param options - Configuration options for SDK generation, plus the time to wait for the update
+ * @returns Whether the SDK updated, false if it was already up to date as its spec did not change since the last publish
+ * @throws {StainlessError} If publishing or cloning fails, or if no new commit shows up before the timeout
+ */
+export async function generateSDKOnce(options: GenerateAndWatchSDKOptions & { timeoutMs?: number }): Promise<boolean> {
+  const { pollIntervalMs, spinner, lifecycle, logger, onEvent, hookStdout, publishHistory, force, timeoutMs, ...sdk } =
+    options;
+  const upToDateSdkNames = await generateSDKsOnce({
+    sdks: [sdk],
+    pollIntervalMs,
+    spinner,
+    lifecycle,
+    logger,
+    onEvent,
+    hookStdout,
+    publishHistory,
+    force,
+    timeoutMs,
+  });
+  return upToDateSdkNames.length === 0;
+}
+
+/**
+ * Generates several SDKs once without watching, e.g. in CI.
+ * Publishes the spec for each distinct publish target, clones every SDK, then waits for every
+ * SDK branch to move past the commit it was at before publishing, before pulling it and running its
+ * postUpdate hook. A branch that did not exist before publishing is done once it is created.
+ * SDKs whose spec was not published, because it did not change since the last publish, do not wait.
+ * A publish is only recorded in the publish history once every SDK it is for updated.
+ * Output is prefixed with the SDK name when there is more than one SDK.
+ *
+ * @param options - Configuration options for the SDKs, plus the time to wait for the updates
+ * @returns The names of the SDKs that were already up to date, as their spec was not published
+ * @throws {StainlessError} If publishing or cloning fails, or if any SDK does not update before the timeout
+ */
+export async function generateSDKsOnce(options: GenerateSDKsOnceOptions): Promise<string[]> {
+  if (options.sdks.length === 0) {
+    throw new StainlessError("At least one SDK is required");
+  }
+
+  const lifecycleManager = new LifecycleManager(options.lifecycle, options.logger, {
+    onEvent: options.onEvent,
+    hookStdout: options.hookStdout,
+  });
+  // Publishes are recorded once their SDKs updated, so that rerunning after a timeout publishes again
+  const fileWatcherGroups = createFileWatchers(options, lifecycleManager, false);
+
+  const sdks = options.sdks.map((sdkOptions) => {
+    const logger =
+      options.sdks.length > 1
+        ? createPrefixedLogger(`[${sdkOptions.sdkName}]`, options.logger)
+        : (options.logger ?? console);
+    return {
+      sdkName: sdkOptions.sdkName,
+      logger,
+      pollIntervalMs: sdkOptions.pollIntervalMs ?? options.pollIntervalMs,
+      tools: new StainlessTools({
+        ...sdkOptions,
+        spinner: options.spinner,
+        lifecycle: options.lifecycle,
+        lifecycleManager,
+        logger,
+        onEvent: options.onEvent,
+        hookStdout: options.hookStdout,
+        watchFiles: false,
+      }),
+    };
+  });
+
+  // SDKs whose files were not published as nothing changed since the last publish, so no new commit is coming
+  const unpublishedSdkNames = new Set<string>();
+  // Heads of the SDK branches before publishing, so that a commit generated before the clone finishes counts as new
+  let baseHashes: (string | null)[];
+  try {
+    baseHashes = await Promise.all(sdks.map(({ tools }) => tools.getRemoteBranchHead()));
+
+    for (const { fileWatcher, sdkNames } of fileWatcherGroups) {
+      if (!(await fileWatcher.publishFiles())) {
+        for (const sdkName of sdkNames) {
+          unpublishedSdkNames.add(sdkName);
+        }
+      }
+    }
+
+    await Promise.all(sdks.map(({ tools }) => tools.clone()));
+  } catch (error) {
+    if (error instanceof StainlessError) {
+      throw error;
+    }
+    throw new StainlessError("Failed to clone SDK repositories", error);
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_ONCE_TIMEOUT_MS;
+  const results = await Promise.allSettled(
+    sdks.map(async ({ sdkName, tools, logger, pollIntervalMs }, index) => {
+      if (unpublishedSdkNames.has(sdkName)) {
+        logger.log("\nThe spec did not change since it was last published, so the SDK is already up to date.");
+        return;
+      }
+      await tools.waitForNewCommit({ timeoutMs, pollIntervalMs, baseHash: baseHashes[index] });
+      options.spinner?.stop();
+      logger.log("\nDetected new changes in SDK repository, pulling updates...");
+      await tools.pullChanges();
+      logger.log("✓ Successfully pulled latest SDK changes.");
+    }),
+  );
+
+  const failures = results.flatMap((result, index) =>
+    result.status === "rejected" ? [{ sdkName: sdks[index].sdkName, reason: result.reason }] : [],
+  );
+
+  for (const { fileWatcher, sdkNames } of fileWatcherGroups) {
+    if (!failures.some(({ sdkName }) => sdkNames.includes(sdkName))) {
+      await fileWatcher.recordLastPublish();
+    }
+  }
+
+  if (failures.length === 1 && sdks.length === 1) {
+    const [{ reason }] = failures;
+    throw reason instanceof StainlessError ? reason : new StainlessError("Failed to update SDK repository", reason);
+  }
+
+  if (failures.length > 0) {
+    const details = failures.map(
+      ({ sdkName, reason }) => `[${sdkName}] ${reason instanceof Error ? reason.message : String(reason)}`,
+    );
+    throw new StainlessError(`${failures.length} of ${sdks.length} SDKs did not update:\n${details.join("\n")}`);
+  }
+
+  return sdks.map(({ sdkName }) => sdkName).filter((sdkName) => unpublishedSdkNames.has(sdkName));
+}
+
+/**
+ * Creates one FileWatcher per distinct publish target.
+ * SDKs that publish the same spec to the same Stainless project and branch share a FileWatcher,
+ * so each distinct spec / project / branch is only published once.
+ * @param recordOnPublish - Whether publishes are recorded in the publish history as soon as they are accepted
+ * @returns Each FileWatcher along with the names of the SDKs sharing it
+ */
+function createFileWatchers(
+  options: GenerateAndWatchSDKsOptions,
+  lifecycleManager: LifecycleManager,
+  recordOnPublish = true,
+): { fileWatcher: FileWatcher; sdkNames: string[] }[] {
+  const publishGroups = new Map<string, WatchedSDKOptions[]>();
+  for (const sdkOptions of options.sdks) {
+    const key = JSON.stringify([
+      sdkOptions.openApiFile,
+      sdkOptions.stainlessConfigFile,
+      sdkOptions.projectName,
+      sdkOptions.branch,
+      sdkOptions.stainlessApiOptions?.guessConfig ?? false,
+    ]);
+    publishGroups.set(key, [...(publishGroups.get(key) ?? []), sdkOptions]);
+  }
+
+  return [...publishGroups.values()].map((group) => {
+    const [first] = group;
+    const sdkNames = group.map((sdkOptions) => sdkOptions.sdkName);
+    const fileWatcher = new FileWatcher({
+      ...getWatchOptions(group),
+      spinner: options.spinner,
+      branch: first.branch,
+      stainlessApi: new StainlessApi({
+        ...first.stainlessApiOptions,
+        logger: options.logger,
+        onEvent: options.onEvent,
+        spinner: options.spinner,
+      }),
+      stainlessApiOptions: {
+        projectName: first.projectName,
+        guessConfig: first.stainlessApiOptions?.guessConfig,
+      },
+      lifecycleManager,
+      sdkNames,
+      logger: options.logger,
+      onEvent: options.onEvent,
+      publishHistory: options.publishHistory,
+      force: options.force,
+      recordOnPublish,
+    });
+    return { fileWatcher, sdkNames };
+  });
+}
+
+/**
+ * Options of the file watcher shared by several SDKs: their files, and the longest debounce and
+ * write stability threshold among them, so that no SDK publishes a file that is still being written
+ */
+function getWatchOptions(sdks: WatchedSDKOptions[]): WatchOptions & { openApiFile: string } {
+  const [first] = sdks;
+  return {
+    openApiFile: first.openApiFile,
+    stainlessConfigFile: first.stainlessConfigFile,
+    debounceMs: Math.max(...sdks.map((sdk) => sdk.debounceMs ?? DEFAULT_DEBOUNCE_MS)),
+    stabilityThresholdMs: Math.max(...sdks.map((sdk) => sdk.stabilityThresholdMs ?? DEFAULT_STABILITY_THRESHOLD_MS)),
+  };
+}
+
+/**
+ * Parts of a running watch that a reloaded configuration is applied to
+ */
+interface ReloadTarget {
+  /** Options of each SDK, updated as changes are applied. pollForChanges reads their poll interval before each poll. */
+  sdks: WatchedSDKOptions[];
+  lifecycle?: GenerateAndWatchSDKOptions["lifecycle"];
+  lifecycleManager: LifecycleManager;
+  /** SDKs that share a file watcher, along with the function that changes what it watches */
+  fileWatcherGroups: {
+    sdkNames: string[];
+    setWatchOptions: (options: WatchOptions & { openApiFile: string }) => void;
+  }[];
+}
+
+/**
+ * Options of an SDK that cannot change while watching, with their labels
+ */
+const RESTART_REQUIRED_OPTIONS: [string, (sdk: WatchedSDKOptions) => unknown][] = [
+  ["SDK repository", (sdk) => sdk.sdkRepo],
+  ["branch", (sdk) => sdk.branch],
+  ["target directory", (sdk) => sdk.targetDir],
+  ["environment", (sdk) => sdk.env],
+  ["project name", (sdk) => sdk.projectName],
+  ["guess config", (sdk) => sdk.stainlessApiOptions?.guessConfig ?? false],
+];
+
+const formatValue = (value: unknown) => (value === undefined ? "(not set)" : String(value));
+
+/**
+ * Applies the options that can change while watching: lifecycle hooks, poll intervals, and the watched files
+ * and their timings
+ * @returns Descriptions of the changes that were applied, and of the changes that require a restart
+ */
+function applyReloadedOptions(
+  target: ReloadTarget,
+  reloaded: ReloadedOptions,
+): { applied: string[]; requiresRestart: string[] } {
+  const applied: string[] = [];
+  const requiresRestart: string[] = [];
+
+  if (JSON.stringify(reloaded.lifecycle ?? {}) !== JSON.stringify(target.lifecycle ?? {})) {
+    target.lifecycleManager.setConfig(reloaded.lifecycle);
+    target.lifecycle = reloaded.lifecycle;
+    applied.push("lifecycle hooks");
+  }
+
+  const reloadedSdks = new Map(reloaded.sdks.map((sdk) => [sdk.sdkName, sdk]));
+  for (const { sdkName } of reloaded.sdks) {
+    if (!target.sdks.some((sdk) => sdk.sdkName === sdkName)) {
+      requiresRestart.push(`[${sdkName}] added to the configuration`);
+    }
+  }
+
+  for (const sdk of target.sdks) {
+    const reloadedSdk = reloadedSdks.get(sdk.sdkName);
+    if (!reloadedSdk) {
+      requiresRestart.push(`[${sdk.sdkName}] removed from the configuration`);
+      continue;
+    }
+
+    for (const [label, getValue] of RESTART_REQUIRED_OPTIONS) {
+      if (getValue(reloadedSdk) !== getValue(sdk)) {
+        requiresRestart.push(
+          `[${sdk.sdkName}] ${label}: ${formatValue(getValue(sdk))} -> ${formatValue(getValue(reloadedSdk))}`,
+        );
+      }
+    }
+
+    const pollIntervalMs = reloadedSdk.pollIntervalMs ?? reloaded.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const currentPollIntervalMs = sdk.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    if (pollIntervalMs !== currentPollIntervalMs) {
+      sdk.pollIntervalMs = pollIntervalMs;
+      applied.push(`[${sdk.sdkName}] poll interval: ${currentPollIntervalMs}ms -> ${pollIntervalMs}ms`);
+    }
+  }
+
+  for (const group of target.fileWatcherGroups) {
+    const sdks = target.sdks.filter((sdk) => group.sdkNames.includes(sdk.sdkName) && reloadedSdks.has(sdk.sdkName));
+    if (sdks.length === 0) {
+      continue;
+    }
+
+    const files = sdks.map(({ sdkName }) => {
+      const { openApiFile, stainlessConfigFile } = reloadedSdks.get(sdkName) as WatchedSDKOptions;
+      return { openApiFile, stainlessConfigFile };
+    });
+    const current = getWatchOptions(sdks);
+    const next = getWatchOptions(sdks.map(({ sdkName }) => reloadedSdks.get(sdkName) as WatchedSDKOptions));
+    const prefix = `[${sdks.map(({ sdkName }) => sdkName).join(", ")}]`;
+
+    const changes = [
+      ...sdks.flatMap((sdk, index) => [
+        ...(files[index].openApiFile !== sdk.openApiFile
+          ? [
+              `[${sdk.sdkName}] OpenAPI file: ${formatValue(sdk.openApiFile)} -> ${formatValue(files[index].openApiFile)}`,
+            ]
+          : []),
+        ...(files[index].stainlessConfigFile !== sdk.stainlessConfigFile
+          ? [
+              `[${sdk.sdkName}] Stainless config file: ${formatValue(sdk.stainlessConfigFile)} -> ${formatValue(files[index].stainlessConfigFile)}`,
+            ]
+          : []),
+      ]),
+      ...(next.debounceMs !== current.debounceMs
+        ? [`${prefix} spec debounce: ${current.debounceMs}ms -> ${next.debounceMs}ms`]
+        : []),
+      ...(next.stabilityThresholdMs !== current.stabilityThresholdMs
+        ? [`${prefix} write stability threshold: ${current.stabilityThresholdMs}ms -> ${next.stabilityThresholdMs}ms`]
+        : []),
+    ];
+    if (changes.length === 0) {
+      continue;
+    }
+
+    // SDKs sharing a watcher can only change files together, as they are published once for all of them
+    if (files.some((file) => JSON.stringify(file) !== JSON.stringify(files[0]))) {
+      requiresRestart.push(...changes);
+      continue;
+    }
+
+    group.setWatchOptions(next);
+    for (const sdk of sdks) {
+      const { debounceMs, stabilityThresholdMs } = reloadedSdks.get(sdk.sdkName) as WatchedSDKOptions;
+      Object.assign(sdk, files[0], { debounceMs, stabilityThresholdMs });
+    }
+    applied.push(...changes);
+  }
+
+  return { applied, requiresRestart };
+}
+
+/**
+ * Watches the configuration file and the files it extends, reloading the configuration after one of them changes
+ * and applying what can be applied live
+ * @returns A function that stops watching the configuration files
+ */
+function watchConfigFile(
+  watchConfig: WatchConfigOptions,
+  options: { spinner?: Ora; logger?: Logger; onEvent?: EventHandler },
+  target: ReloadTarget,
+): () => Promise<void> {
+  const logger = options.logger ?? console;
+  let reloadTimeout: NodeJS.Timeout | undefined;
+  let changedFile = watchConfig.configFile;
+  let watchedFiles = [watchConfig.configFile];
+  let isWatching = true;
+
+  const watcher = watch(watchConfig.configFile, { ignoreInitial: true });
+
+  // Follows the files the configuration extends, which change when `extends` does
+  const updateWatchedFiles = async () => {
+    if (!watchConfig.getConfigFiles) {
+      return;
+    }
+
+    try {
+      const files = await watchConfig.getConfigFiles();
+      if (!isWatching) {
+        return;
+      }
+
+      const added = files.filter((file) => !watchedFiles.includes(file));
+      const removed = watchedFiles.filter((file) => file !== watchConfig.configFile && !files.includes(file));
+      if (added.length > 0) {
+        watcher.add(added);
+      }
+      if (removed.length > 0) {
+        watcher.unwatch(removed);
+      }
+      watchedFiles = [watchConfig.configFile, ...files.filter((file) => file !== watchConfig.configFile)];
+    } catch (error) {
+      logger.error(
+        `Failed to find the files the configuration extends: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  };
+
+  const reload = async () => {
+    options.spinner?.stop();
+    logger.log(`\nDetected changes in ${changedFile}, reloading configuration...`);
+
+    try {
+      const { applied, requiresRestart } = applyReloadedOptions(target, await watchConfig.reload());
+      options.onEvent?.({ type: "config-reloaded", applied, requiresRestart });
+
+      if (applied.length === 0 && requiresRestart.length === 0) {
+        logger.log("No changes to apply.");
+      }
+      for (const change of applied) {
+        logger.log(chalk.green(`✓ Applied ${change}`));
+      }
+      for (const change of requiresRestart) {
+        logger.log(chalk.yellow(`! Restart to apply ${change}`));
+      }
+    } catch (error) {
+      options.onEvent?.(toErrorEvent(error));
+      logger.error(
+        `Failed to reload configuration, keeping the previous one: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    // Also after a failed reload, so that fixing a newly extended file is noticed
+    await updateWatchedFiles();
+    options.spinner?.start("Listening for new SDK updates...");
+  };
+
+  const onChange = (file: string) => {
+    changedFile = file;
+    // Editors often write a file several times in a row
+    clearTimeout(reloadTimeout);
+    reloadTimeout = setTimeout(reload, 300);
+  };
+  // An extended file that does not exist yet is added once it is created
+  watcher.on("change", onChange);
+  watcher.on("add", onChange);
+  const initialUpdate = updateWatchedFiles();
+
+  return async () => {
+    isWatching = false;
+    clearTimeout(reloadTimeout);
+    await initialUpdate;
+    await watcher.close();
+  };
+}
+
+/**
+ * Polls for changes in the SDK repository and updates when necessary.
+ * Polling runs recursively at the specified interval until the returned function is called.
+ *
+ * @returns A function that stops polling
+ */
+function pollForChanges(
+  sdk: StainlessTools,
+  options: { sdkName?: string; pollIntervalMs?: number; spinner?: Ora; logger?: Logger; onEvent?: EventHandler },
+): () => void {
+  const logger = options.logger ?? console;
+  let isPolling = true;
+  let timeoutId: NodeJS.Timeout;
+
+  const poll = async () => {
     if (!isPolling) return;
 
     try {
       // Check for new changes in the repository
       if (await sdk.hasNewChanges()) {
         options.spinner?.stop();
-        console.log("\nDetected new changes in SDK repository, pulling updates...");
+        logger.log("\nDetected new changes in SDK repository, pulling updates...");
         await sdk.pullChanges();
-        console.log("✓ Successfully pulled latest SDK changes.");
+        logger.log("✓ Successfully pulled latest SDK changes.");
         options.spinner?.start("Listening for new SDK updates...");
       }
     } catch (error) {
       // Handle errors during polling
       options.spinner?.stop();
+      options.onEvent?.(toErrorEvent(error, options.sdkName));
       if (error instanceof StainlessError) {
-        console.error(`Error: ${error.message}`);
+        logger.error(`Error: ${error.message}`);
         if (error.cause) {
-          console.error("Caused by:", error.cause);
+          logger.error("Caused by:", error.cause);
         }
       } else {
-        console.error("An unexpected error occurred:", error);
+        logger.error("An unexpected error occurred:", error);
       }
       options.spinner?.start("Listening for new SDK updates...");
     }
 
     // Schedule next poll using the specified interval or default to 5 seconds
-    timeoutId = setTimeout(pollForChanges, options.pollIntervalMs || 5000);
+    timeoutId = setTimeout(poll, options.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS);
   };
 
   // Start the initial polling cycle
-  pollForChanges();
+  poll();
 
-  /**
-   * Returns a cleanup function that:
-   * 1. Stops the polling mechanism
-   * 2. Clears any pending timeouts
-   * 3. Performs necessary SDK cleanup
-   */
-  return async () => {
+  return () => {
     isPolling = false;
     clearTimeout(timeoutId);
-    sdk.cleanup();
   };
 }
@@ -6,8 +6,29 @@ config({
   ignore: ["MISSING_ENV_FILE"],
 });
 
-export { generateAndWatchSDK } from "./generate-and-watch-sdk.js";
-export { loadConfig } from "./config.js";
+export {
+  generateAndWatchSDK,
+  generateAndWatchSDKs,
+  generateSDKOnce,
+  generateSDKsOnce,
+} from "./generate-and-watch-sdk.js";
+export type { ReloadedOptions, WatchConfigOptions, WatchedSDKOptions } from "./generate-and-watch-sdk.js";
+export { defineConfig, loadConfig } from "./config.js";
+export { getConfigJsonSchema } from "./config-json-schema.js";
+export { migrateConfig } from "./config-migration.js";
+export type { ConfigMigration, MigrateConfigOptions } from "./config-migration.js";
 export type { StainlessConfig } from "./config.js";
+export { createNdjsonEventHandler } from "./events.js";
+export type { EventHandler, StainlessEvent } from "./events.js";
+export { runDoctorChecks } from "./doctor.js";
+export type { DoctorCheck, DoctorCheckStatus, DoctorOptions } from "./doctor.js";
+export { assertValidOpenApiSpec, formatSpecValidationIssue, validateOpenApiSpec } from "./spec-validation.js";
+export type { SpecValidationIssue } from "./spec-validation.js";
+export { PublishHistory } from "./PublishHistory.js";
+export type { PublishTarget } from "./PublishHistory.js";
+export { startMockServer } from "./mock-server.js";
+export type { MockPublishRequest, MockResponse, MockServer, MockServerOptions } from "./mock-server.js";
+export { getRepoStatus } from "./repo-status.js";
+export type { RepoStatus, GetRepoStatusOptions } from "./repo-status.js";
 export * from "./StainlessTools.js";
 export * from "./StainlessError.js";
@@ -0,0 +1,45 @@
+/**
+ * Minimal console-like interface used for user-facing output.
+ * Defaults to the global console everywhere it is accepted.
+ */
+export interface Logger {
+  log(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/**
+ * Adds the prefix to the start of every non-empty line of a string message.
+ * Leading newlines are preserved so spacing between log blocks stays intact.
+ */
+function prefixArgs(prefix: string, args: unknown[]): unknown[] {
+  if (args.length === 0) {
+    return args;
+  }
+
+  const [first, ...rest] = args;
+
+  if (typeof first !== "string") {
+    return [prefix, ...args];
+  }
+
+  return [first.replace(/^(?=[^\n])/gm, `${prefix} `) || prefix, ...rest];
+}
+
+/**
+ * Creates a logger that prefixes every line of output, e.g. with `[typescript]`,
+ * so output from several SDKs running in the same process can be told apart.
+ */
+export function createPrefixedLogger(prefix: string, logger: Logger = console): Logger {
+  return {
+    log: (...args: unknown[]) => logger.log(...prefixArgs(prefix, args)),
+    error: (...args: unknown[]) => logger.error(...prefixArgs(prefix, args)),
+  };
+}
+
+/**
+ * Logger that discards all output, e.g. when human-readable output is replaced by JSON events.
+ */
+export const silentLogger: Logger = {
+  log: () => {},
+  error: () => {},
+};
@@ -0,0 +1,378 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import chalk from "chalk";
+import simpleGit from "simple-git";
+import { z } from "zod";
+import { GitOperationError, StainlessError } from "./StainlessError.js";
+import type { Logger } from "./logger.js";
+
+/**
+ * A scripted response of the mock server
+ */
+export interface MockResponse {
+  /** HTTP status to respond with. Defaults to 200 */
+  status?: number;
+  /** JSON body to respond with. Defaults to an empty object */
+  body?: unknown;
+  /** Additional response headers, e.g. Retry-After */
+  headers?: Record<string, string>;
+  /** Time in milliseconds to wait before responding. Defaults to the delayMs of the server */
+  delayMs?: number;
+}
+
+/**
+ * Options for starting a mock server
+ */
+export interface MockServerOptions {
+  /** Port to listen on. Defaults to 0, which picks a free port */
+  port?: number;
+  /** Host to listen on. Defaults to 127.0.0.1 */
+  host?: string;
+  /** API key requests must use. Any API key is accepted if not set */
+  apiKey?: string;
+  /** Directory each received publish is written to, as a numbered JSON file */
+  recordDir?: string;
+  /** Responses to return to the publishes received, in order. Once they run out, publishes succeed */
+  responses?: MockResponse[];
+  /** Time in milliseconds to wait before each response. Defaults to 0 */
+  delayMs?: number;
+  /**
+   * Bare git repository to commit a fake generated change to after each successful publish, on the branch
+   * published to. Created, with an initial commit on main, if it does not exist. The commit follows after
+   * commitDelayMs, and creates the branch off main if it was not published to before, like a first generation.
+   */
+  sdkRepo?: string;
+  /** Time in milliseconds between a successful publish and its generated commit. Defaults to 1000 */
+  commitDelayMs?: number;
+  /** Logger for each request and commit. Defaults to the console */
+  logger?: Logger;
+}
+
+/**
+ * A publish received by the mock server
+ */
+export interface MockPublishRequest {
+  /** Number of the publish, starting at 1 */
+  number: number;
+  receivedAt: string;
+  /** HTTP status the mock server responded with */
+  status: number;
+  branch?: string;
+  projectName?: string;
+  guessConfig: boolean;
+  spec?: string;
+  config?: string;
+}
+
+/**
+ * A running mock server
+ */
+export interface MockServer {
+  /** Base URL of the server, to use as the baseUrl of the API client or STAINLESS_API_BASE_URL */
+  url: string;
+  port: number;
+  /** file:// URL of the SDK repository, to use as the repository URL of an SDK, if sdkRepo is set */
+  sdkRepoUrl?: string;
+  /** Publishes received so far */
+  requests: MockPublishRequest[];
+  /** Waits until the generated commits of the publishes received so far are pushed */
+  waitForCommits(): Promise<void>;
+  /** Stops the server after the pending generated commits are pushed */
+  close(): Promise<void>;
+}
+
+/**
+ * Schema of the scripted responses, e.g. read from the file of the mock-server --script flag
+ */
+export const mockResponsesSchema = z.array(
+  z
+    .object({
+      status: z.number().int().min(200).max(599).optional(),
+      body: z.unknown().optional(),
+      headers: z.record(z.string()).optional(),
+      delayMs: z.number().int().nonnegative().optional(),
+    })
+    .strict(),
+);
+
+/**
+ * Name of the file the generated commits change in the SDK repository
+ */
+export const MOCK_GENERATED_FILE = "stainless-mock.json";
+
+/**
+ * Author of the commits in the SDK repository
+ */
+const MOCK_AUTHOR = { name: "Stainless Mock", email: "mock@stainless-tools.invalid" };
+
+const DEFAULT_COMMIT_DELAY_MS = 1000;
+
+/**
+ * Starts a local server that mocks the publish endpoint of the Stainless API (`POST /api/spec`), e.g. to develop
+ * and test offline. Publishes can be recorded to disk, scripted to fail or be slow, and followed by a fake generated
+ * commit in a local bare repository, so that the whole generate loop runs without Stainless or a git host.
+ *
+ * Example usage:
+ * ```typescript
+ * const server = await startMockServer({ sdkRepo: "/tmp/mock/org/sdk.git" });
+ * const api = new StainlessApi({ apiKey: "mock", baseUrl: server.url });
+ * await api.publish({ spec, branch: "main" }); // Commits to main of server.sdkRepoUrl a second later
+ * await server.close();
+ * ```
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const logger = options.logger ?? console;
+  const requests: MockPublishRequest[] = [];
+  const responses = [...(options.responses ?? [])];
+  const sdkRepo = options.sdkRepo ? path.resolve(options.sdkRepo) : undefined;
+
+  if (sdkRepo) {
+    await ensureBareRepository(sdkRepo);
+  }
+
+  let receivedCount = 0;
+  // Commits are made one at a time, in the order of the publishes
+  let pendingCommits = Promise.resolve();
+
+  const handlePublish = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    // Numbered and scripted in the order the publishes arrive, before reading their bodies
+    const number = ++receivedCount;
+    const scripted = responses.shift() ?? {};
+    const form = await readForm(req);
+    const spec = await readFormField(form, "oasSpec");
+
+    let status = scripted.status ?? 200;
+    let body = scripted.body ?? {};
+    if (options.apiKey && req.headers.authorization !== `Bearer ${options.apiKey}`) {
+      status = 401;
+      body = { message: "Invalid API key" };
+    } else if (spec === undefined) {
+      status = 400;
+      body = { message: "oasSpec is required" };
+    }
+
+    const request: MockPublishRequest = {
+      number,
+      receivedAt: new Date().toISOString(),
+      status,
+      branch: await readFormField(form, "branch"),
+      projectName: await readFormField(form, "projectName"),
+      guessConfig: (await readFormField(form, "guessConfig")) === "true",
+      spec,
+      config: await readFormField(form, "stainlessConfig"),
+    };
+    requests.push(request);
+    if (options.recordDir) {
+      await fs.mkdir(options.recordDir, { recursive: true });
+      await fs.writeFile(
+        path.join(options.recordDir, `${String(number).padStart(4, "0")}.json`),
+        `${JSON.stringify(request, null, 2)}\n`,
+      );
+    }
+
+    const delayMs = scripted.delayMs ?? options.delayMs ?? 0;
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    sendJson(res, status, body, scripted.headers);
+
+    const color = status < 300 ? chalk.green : chalk.red;
+    logger.log(
+      `${color(`POST /api/spec ${status}`)} #${number} branch=${request.branch ?? "-"} project=${request.projectName ?? "-"}`,
+    );
+
+    if (sdkRepo && status < 300) {
+      const branch = request.branch || "main";
+      pendingCommits = pendingCommits.then(async () => {
+        await new Promise((resolve) => setTimeout(resolve, options.commitDelayMs ?? DEFAULT_COMMIT_DELAY_MS));
+        try {
+          const hash = await commitFiles(
+            sdkRepo,
+            branch,
+            { [MOCK_GENERATED_FILE]: getGeneratedFile(request) },
+            `Generate SDK for publish #${number}`,
+          );
+          logger.log(chalk.blue(`Committed ${hash.substring(0, 7)} to branch '${branch}' of ${sdkRepo}`));
+        } catch (error) {
+          logger.error(chalk.red(`Failed to commit to branch '${branch}' of ${sdkRepo}:`), error);
+        }
+      });
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (req.method !== "POST" || pathname !== "/api/spec") {
+      sendJson(res, 404, { message: `Not found: ${req.method} ${pathname}` });
+      return;
+    }
+
+    handlePublish(req, res).catch((error) => {
+      logger.error(chalk.red("Failed to handle publish:"), error);
+      sendJson(res, 400, { message: error instanceof Error ? error.message : String(error) });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host ?? "127.0.0.1", () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const host = options.host ?? "127.0.0.1";
+
+  return {
+    url: `http://${host.includes(":") ? `[${host}]` : host}:${port}`,
+    port,
+    sdkRepoUrl: sdkRepo ? pathToFileURL(sdkRepo).href : undefined,
+    requests,
+    waitForCommits: () => pendingCommits,
+    close: async () => {
+      // Also ends requests still waiting for a scripted delay, whose clients have usually given up already
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await pendingCommits;
+    },
+  };
+}
+
+/**
+ * Contents of the file a generated commit changes, which differ for every publish
+ */
+function getGeneratedFile(request: MockPublishRequest): string {
+  const generated = {
+    publish: request.number,
+    projectName: request.projectName,
+    specSha256: createHash("sha256")
+      .update(request.spec ?? "")
+      .digest("hex"),
+    generatedAt: new Date().toISOString(),
+  };
+  return `${JSON.stringify(generated, null, 2)}\n`;
+}
+
+/**
+ * Parses the multipart body of a publish
+ */
+async function readForm(req: http.IncomingMessage): Promise<FormData> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  return new Request("http://localhost/api/spec", {
+    method: "POST",
+    headers: { "content-type": req.headers["content-type"] ?? "" },
+    body: Buffer.concat(chunks),
+  }).formData();
+}
+
+/**
+ * Reads a field of a publish, which is either a string or a file
+ */
+async function readFormField(form: FormData, name: string): Promise<string | undefined> {
+  const value = form.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  return typeof value === "string" ? value : value.text();
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  // The client may have given up waiting for a scripted delay
+  if (res.destroyed || res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { ...headers, "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Creates a bare repository with an initial commit on main, unless the directory already contains something
+ */
+async function ensureBareRepository(repoDir: string): Promise<void> {
+  try {
+    if ((await fs.readdir(repoDir)).length > 0) {
+      return;
+    }
+  } catch {
+    // Does not exist yet
+  }
+
+  try {
+    await fs.mkdir(repoDir, { recursive: true });
+    const git = simpleGit(repoDir);
+    await git.init(true);
+    // Clones check out main, whatever the default branch of the local git configuration is
+    await git.raw(["symbolic-ref", "HEAD", "refs/heads/main"]);
+    await commitFiles(repoDir, "main", { "README.md": "# Mock SDK\n" }, "Initial commit");
+  } catch (error) {
+    throw new GitOperationError(`Failed to create the mock SDK repository (${repoDir})`, error);
+  }
+}
+
+/**
+ * Commits files to a branch of a bare repository, branching off main if the branch does not exist yet
+ * @returns The hash of the commit
+ */
+async function commitFiles(
+  repoDir: string,
+  branch: string,
+  files: Record<string, string>,
+  message: string,
+): Promise<string> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "stainless-mock-"));
+
+  try {
+    const git = simpleGit(workDir, {
+      config: [`user.name=${MOCK_AUTHOR.name}`, `user.email=${MOCK_AUTHOR.email}`, "commit.gpgsign=false"],
+    });
+    await git.init();
+    await git.addRemote("origin", repoDir);
+    await git.fetch();
+
+    const remoteBranches = (await git.branch(["-r"])).all;
+    if (remoteBranches.includes(`origin/${branch}`)) {
+      await git.checkout(["-b", branch, `origin/${branch}`]);
+    } else if (remoteBranches.includes("origin/main")) {
+      await git.checkout(["-b", branch, "origin/main"]);
+    } else {
+      await git.checkout(["--orphan", branch]);
+    }
+
+    for (const [file, contents] of Object.entries(files)) {
+      await fs.writeFile(path.join(workDir, file), contents);
+    }
+    await git.add(Object.keys(files));
+    await git.commit(message);
+    await git.push("origin", branch);
+
+    return (await git.revparse(["HEAD"])).trim();
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Parses scripted responses, e.g. the contents of the file of the mock-server --script flag
+ * @throws {StainlessError} If they do not match mockResponsesSchema
+ */
+export function parseMockResponses(json: unknown): MockResponse[] {
+  const result = mockResponsesSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new StainlessError(
+      `Invalid mock responses: ${issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""}${issue.message}`,
+    );
+  }
+  return result.data as MockResponse[];
+}
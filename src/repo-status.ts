@@ -0,0 +1,122 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import simpleGit from "simple-git";
+import { REPO_MANAGER_STASH_MESSAGES } from "./RepoManager.js";
+import { GitOperationError } from "./StainlessError.js";
+
+/**
+ * Snapshot of the state of a local SDK checkout.
+ */
+export interface RepoStatus {
+  /** Directory that was inspected */
+  targetDir: string;
+  /** Whether the directory exists and is a git repository */
+  isRepo: boolean;
+  /** Currently checked out branch */
+  branch?: string;
+  /** Latest commit on the current branch */
+  head?: {
+    hash: string;
+    message: string;
+  };
+  /** Number of local commits not on origin/<branch>. Undefined if the remote branch is unknown. */
+  ahead?: number;
+  /** Number of commits on origin/<branch> not pulled yet. Undefined if the remote branch is unknown. */
+  behind?: number;
+  /** Uncommitted files in `git status --short` format */
+  dirtyFiles: string[];
+  /** Stashes left behind by stainless-tools, e.g. `stash@{0}: On main: Stashing changes before SDK update` */
+  stashes: string[];
+  /** Fetch URL of the origin remote */
+  originUrl?: string;
+}
+
+/**
+ * Options for reading the status of an SDK checkout.
+ */
+export interface GetRepoStatusOptions {
+  /** Fetch from origin before comparing against the remote branch (default: false) */
+  fetch?: boolean;
+}
+
+/**
+ * Reads the state of a local SDK checkout: current branch, HEAD commit, ahead/behind counts
+ * against origin, uncommitted files, leftover stainless-tools stashes and the origin URL.
+ *
+ * @param targetDir - Directory of the SDK checkout
+ * @param options - Options for reading the status
+ * @returns The status of the checkout. `isRepo` is false if the directory has not been cloned yet.
+ * @throws {GitOperationError} If the git commands fail
+ */
+export async function getRepoStatus(targetDir: string, options: GetRepoStatusOptions = {}): Promise<RepoStatus> {
+  const status: RepoStatus = {
+    targetDir,
+    isRepo: false,
+    dirtyFiles: [],
+    stashes: [],
+  };
+
+  try {
+    await fs.access(targetDir);
+  } catch {
+    return status;
+  }
+
+  const git = simpleGit(targetDir);
+
+  try {
+    // Compared with the directory, as git also finds the repository of a parent directory, e.g. the host project
+    const topLevel = await git.revparse(["--show-toplevel"]);
+    if ((await fs.realpath(path.resolve(topLevel.trim()))) !== (await fs.realpath(targetDir))) {
+      return status;
+    }
+  } catch {
+    // Directory exists but is not a git repository
+    return status;
+  }
+
+  status.isRepo = true;
+
+  try {
+    if (options.fetch) {
+      await git.fetch();
+    }
+
+    const remotes = await git.getRemotes(true);
+    status.originUrl = remotes.find((remote) => remote.name === "origin")?.refs?.fetch;
+
+    try {
+      status.branch = await git.revparse(["--abbrev-ref", "HEAD"]);
+      const log = await git.log({ maxCount: 1 });
+      if (log.latest) {
+        status.head = { hash: log.latest.hash, message: log.latest.message };
+      }
+    } catch {
+      // Repository has no commits yet
+    }
+
+    if (status.branch) {
+      try {
+        const counts = await git.raw(["rev-list", "--left-right", "--count", `HEAD...origin/${status.branch}`]);
+        const [ahead, behind] = counts.trim().split(/\s+/).map(Number);
+        status.ahead = ahead;
+        status.behind = behind;
+      } catch {
+        // Remote branch does not exist (yet)
+      }
+    }
+
+    const gitStatus = await git.status();
+    status.dirtyFiles = gitStatus.files.map((file) => `${file.index}${file.working_dir} ${file.path}`);
+
+    const stashMessages = Object.values(REPO_MANAGER_STASH_MESSAGES);
+    const stashList = await git.stashList();
+    status.stashes = stashList.all.flatMap((stash, index) =>
+      stashMessages.some((message) => stash.message.includes(message)) ? [`stash@{${index}}: ${stash.message}`] : [],
+    );
+  } catch (error) {
+    throw new GitOperationError(`Failed to read repository status for ${targetDir}`, error);
+  }
+
+  return status;
+}
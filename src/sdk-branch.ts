@@ -0,0 +1,119 @@
+import * as path from "node:path";
+import type { SdkDefaultsConfig, StainlessConfig } from "./config.js";
+import { getBranchName, getTargetDir, getTemplateVariableNames } from "./template.js";
+import { firstSet, getCurrentBranch, getGitUserName } from "./utils.js";
+
+/**
+ * Where a branch can be set, for the messages of commands that need one but resolve none
+ */
+export const BRANCH_SOURCES_HINT =
+  "Provide it via --branch, STAINLESS_SDK_BRANCH, or the branch or branchTemplate of the SDK or of the defaults.";
+
+/**
+ * Options for resolving the branch of an SDK
+ */
+export interface ResolveSdkBranchOptions {
+  /** Name of the SDK in `stainlessSdkRepos` */
+  sdkName: string;
+  /** Loaded configuration, with the selected profile merged into it */
+  config: StainlessConfig;
+  /** Name of the selected profile, to tell the defaults it overrides apart in sources */
+  profile?: string;
+  /** Selected environment, e.g. staging or prod */
+  env: string;
+  /** Branch given with --branch */
+  branch?: string;
+  /** Template of the target directory, whose branch is kept if it is already checked out */
+  targetDirTemplate: string;
+  /** Name of the project in Stainless, for the templates that use {project} */
+  projectName?: string;
+  /** Directory the target directory is relative to, and whose current branch is {hostBranch} */
+  baseDir: string;
+}
+
+/**
+ * The branch of an SDK and what it was resolved from
+ */
+export interface ResolvedSdkBranch {
+  /** The branch along with where it came from, or undefined if no branch or branch template is configured */
+  branch?: { value: string; source: string };
+  /** Current branch of the base directory if the templates use {hostBranch}, to render the target directory with */
+  hostBranch?: string;
+}
+
+/**
+ * Resolves the branch of an SDK in this order:
+ * 1. The --branch flag
+ * 2. The STAINLESS_SDK_BRANCH environment variable
+ * 3. The branch of the SDK, then of the defaults
+ * 4. The current branch of the target directory if it exists
+ * 5. The branch template of the SDK, then of the defaults
+ * @throws {ConfigError} If the target directory or branch template is invalid
+ */
+export async function resolveSdkBranch(options: ResolveSdkBranchOptions): Promise<ResolvedSdkBranch> {
+  const { sdkName, config, profile, env, targetDirTemplate, projectName, baseDir } = options;
+  const sdkConfig = config.stainlessSdkRepos[sdkName];
+
+  // A default comes from the profile when the profile overrides it, as profiles are merged into the defaults
+  const fromDefaults = <K extends "branch" | "branchTemplate">(key: K): [SdkDefaultsConfig[K], string] => [
+    config.defaults?.[key],
+    profile !== undefined && config.profiles?.[profile]?.defaults?.[key] !== undefined
+      ? `profiles.${profile}.defaults.${key} in config`
+      : `defaults.${key} in config`,
+  ];
+
+  const branchTemplate = firstSet([
+    [sdkConfig?.branchTemplate, `stainlessSdkRepos.${sdkName}.branchTemplate in config`],
+    fromDefaults("branchTemplate"),
+  ]);
+
+  const branchVariableNames = getTemplateVariableNames(branchTemplate?.value ?? "");
+  const templateVariableNames = [...getTemplateVariableNames(targetDirTemplate), ...branchVariableNames];
+  const hostBranch = templateVariableNames.includes("hostBranch") ? await getCurrentBranch(baseDir) : undefined;
+
+  const configuredBranch = firstSet([
+    [options.branch, "--branch flag"],
+    [process.env.STAINLESS_SDK_BRANCH, "STAINLESS_SDK_BRANCH environment variable"],
+    [sdkConfig?.branch, `stainlessSdkRepos.${sdkName}.branch in config`],
+    fromDefaults("branch"),
+  ]);
+  if (configuredBranch) {
+    return { branch: configuredBranch, hostBranch };
+  }
+
+  const currentTargetDir = path.resolve(
+    baseDir,
+    getTargetDir({
+      targetDir: targetDirTemplate,
+      sdkName,
+      env,
+      branch: "temp", // Temporary value since we don't have the branch yet
+      projectName,
+      hostBranch,
+    }),
+  );
+  const currentBranch = firstSet([[await getCurrentBranch(currentTargetDir), `current branch of ${currentTargetDir}`]]);
+  if (currentBranch) {
+    return { branch: currentBranch, hostBranch };
+  }
+
+  if (!branchTemplate) {
+    return { hostBranch };
+  }
+
+  return {
+    branch: {
+      value: getBranchName({
+        branchTemplate: branchTemplate.value,
+        sdkName,
+        env,
+        projectName,
+        // The git user, falling back to the name of the current user
+        user: branchVariableNames.includes("user") ? await getGitUserName(baseDir) : undefined,
+        hostBranch,
+      }),
+      source: `${branchTemplate.source} (${branchTemplate.value})`,
+    },
+    hostBranch,
+  };
+}
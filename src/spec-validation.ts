@@ -0,0 +1,188 @@
+import * as fs from "node:fs/promises";
+import { Validator } from "@seriousme/openapi-schema-validator";
+import { type Document, LineCounter, isMap, isNode, isScalar, isSeq, parseDocument } from "yaml";
+import { StainlessError } from "./StainlessError.js";
+
+/**
+ * A single problem found in an OpenAPI specification.
+ */
+export interface SpecValidationIssue {
+  /** File the problem was found in */
+  file: string;
+  /** 1-based line of the offending value, if it could be located */
+  line?: number;
+  /** JSON pointer to the offending value. An empty string refers to the whole document. */
+  pointer: string;
+  message: string;
+}
+
+const SUPPORTED_VERSIONS = /^3\.[01]\./;
+
+/**
+ * Splits a JSON pointer into its unescaped path segments
+ */
+function pointerToPath(pointer: string): string[] {
+  if (!pointer) {
+    return [];
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Finds the node a path refers to. For a value in a mapping this is its key, since the value of a
+ * block mapping only starts on the line after the key.
+ */
+function findNode(doc: Document, path: string[]): unknown {
+  if (path.length === 0) {
+    return doc.contents;
+  }
+
+  const parent = path.length === 1 ? doc.contents : doc.getIn(path.slice(0, -1), true);
+  const segment = path[path.length - 1];
+
+  if (isMap(parent)) {
+    return parent.items.find((pair) => isScalar(pair.key) && String(pair.key.value) === segment)?.key;
+  }
+  if (isSeq(parent)) {
+    return parent.items[Number(segment)];
+  }
+  return undefined;
+}
+
+/**
+ * Finds the line of the value a JSON pointer refers to. Falls back to the closest parent that
+ * exists, since schema errors such as missing properties point at a value that is not there.
+ */
+function findLine(doc: Document, lineCounter: LineCounter, pointer: string): number | undefined {
+  const path = pointerToPath(pointer);
+
+  for (let length = path.length; length >= 0; length--) {
+    const node = findNode(doc, path.slice(0, length));
+    if (isNode(node) && node.range) {
+      return lineCounter.linePos(node.range[0]).line;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses an OpenAPI specification (YAML or JSON) and validates it against the OpenAPI 3.0 / 3.1 schema.
+ *
+ * @param file - Path of the specification, used to read it and to label the issues
+ * @param contents - Contents of the specification. Read from `file` if omitted.
+ * @returns Every problem found. The specification is valid if the list is empty.
+ * @throws {StainlessError} If the file cannot be read
+ */
+export async function validateOpenApiSpec(file: string, contents?: string | Buffer): Promise<SpecValidationIssue[]> {
+  let source: string;
+  try {
+    source = contents === undefined ? await fs.readFile(file, "utf-8") : contents.toString();
+  } catch (error) {
+    throw new StainlessError(`Failed to read OpenAPI file (${file})`, error);
+  }
+
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter, prettyErrors: false });
+
+  if (doc.errors.length > 0) {
+    return doc.errors.map((error) => ({
+      file,
+      line: lineCounter.linePos(error.pos[0]).line,
+      pointer: "",
+      message: error.message,
+    }));
+  }
+
+  const spec = doc.toJS();
+  if (typeof spec !== "object" || spec === null || Array.isArray(spec)) {
+    return [{ file, line: 1, pointer: "", message: "The specification must be an object" }];
+  }
+
+  const version = spec.openapi;
+  if (typeof version !== "string" || !SUPPORTED_VERSIONS.test(version)) {
+    const pointer = version === undefined ? "" : "/openapi";
+    return [
+      {
+        file,
+        line: findLine(doc, lineCounter, pointer),
+        pointer,
+        message:
+          version === undefined
+            ? 'Missing the "openapi" version field'
+            : `Unsupported OpenAPI version ${JSON.stringify(version)}, expected 3.0.x or 3.1.x`,
+      },
+    ];
+  }
+
+  const result = await new Validator({ allErrors: true }).validate(spec);
+  if (result.valid) {
+    return [];
+  }
+
+  if (typeof result.errors === "string" || !result.errors) {
+    return [{ file, pointer: "", message: result.errors || "Invalid OpenAPI specification" }];
+  }
+
+  const errors = result.errors;
+  const isWithin = (pointer: string, parent: string) => pointer === parent || pointer.startsWith(`${parent}/`);
+  // A value that matches neither branch of a "Reference or X" oneOf reports the failures of both
+  // branches plus the oneOf itself. Only keep the failures of X when there are any.
+  const isNoise = (error: (typeof errors)[number]) =>
+    errors.some(
+      (other) =>
+        other !== error &&
+        !["oneOf", "anyOf"].includes(other.keyword) &&
+        isWithin(other.instancePath, error.instancePath) &&
+        (["oneOf", "anyOf"].includes(error.keyword) ||
+          (error.keyword === "required" && error.params.missingProperty === "$ref")),
+    );
+
+  const issues = new Map<string, SpecValidationIssue>();
+  for (const error of errors.filter((error) => !isNoise(error))) {
+    let pointer = error.instancePath;
+    let message = error.message ?? "is invalid";
+
+    if (error.keyword === "additionalProperties") {
+      pointer = `${pointer}/${String(error.params.additionalProperty).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+      message = "is not allowed here";
+    } else if (error.keyword === "enum") {
+      message = `${message}: ${error.params.allowedValues.map((value: unknown) => JSON.stringify(value)).join(", ")}`;
+    }
+
+    const key = `${pointer}\0${message}`;
+    if (!issues.has(key)) {
+      issues.set(key, { file, line: findLine(doc, lineCounter, pointer), pointer, message });
+    }
+  }
+
+  return [...issues.values()];
+}
+
+/**
+ * Formats an issue as `file:line #/json/pointer: message`
+ */
+export function formatSpecValidationIssue(issue: SpecValidationIssue): string {
+  const location = issue.line === undefined ? issue.file : `${issue.file}:${issue.line}`;
+  return `${location} #${issue.pointer}: ${issue.message}`;
+}
+
+/**
+ * Validates an OpenAPI specification and throws if it has any problems.
+ *
+ * @param file - Path of the specification
+ * @param contents - Contents of the specification. Read from `file` if omitted.
+ * @throws {StainlessError} Listing every problem found, one per line
+ */
+export async function assertValidOpenApiSpec(file: string, contents?: string | Buffer): Promise<void> {
+  const issues = await validateOpenApiSpec(file, contents);
+
+  if (issues.length > 0) {
+    throw new StainlessError(
+      `Invalid OpenAPI specification (${file}):\n${issues.map((issue) => `  ${formatSpecValidationIssue(issue)}`).join("\n")}`,
+    );
+  }
+}
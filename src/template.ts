@@ -0,0 +1,196 @@
+import * as os from "node:os";
+import { ConfigError } from "./StainlessError.js";
+import { sanitizeBranchName, suggestKey } from "./utils.js";
+
+/**
+ * Values of the variables a template can use. A variable that is known but has no value is undefined.
+ */
+export type TemplateVariables = Record<string, string | undefined>;
+
+/**
+ * Filters that can be applied to a variable, e.g. `{branch|slug}`
+ */
+export const TEMPLATE_FILTERS: Record<string, (value: string) => string> = {
+  /** Lowercase, with every run of characters other than letters and digits replaced by a hyphen */
+  slug: (value) =>
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, ""),
+  /** The last segment of a slash-separated value, e.g. `feature/login` -> `login` */
+  last: (value) => value.slice(value.lastIndexOf("/") + 1),
+  lower: (value) => value.toLowerCase(),
+  upper: (value) => value.toUpperCase(),
+};
+
+const PLACEHOLDER = /\{([^{}]*)\}/g;
+
+/**
+ * Parses the `{name|filter|...}` placeholders of a template
+ */
+function parsePlaceholders(template: string): { placeholder: string; name: string; filters: string[] }[] {
+  return Array.from(template.matchAll(PLACEHOLDER), ([placeholder, expression]) => {
+    const [name, ...filters] = expression.split("|").map((part) => part.trim());
+    return { placeholder, name, filters };
+  });
+}
+
+/**
+ * Returns the names of the variables a template uses, e.g. `["sdk", "branch"]` for `./{sdk}/{branch|slug}`
+ */
+export function getTemplateVariableNames(template: string): string[] {
+  return [...new Set(parsePlaceholders(template).map(({ name }) => name))];
+}
+
+/**
+ * Options for rendering a template
+ */
+export interface RenderTemplateOptions {
+  /** What the template is, used in error messages, e.g. "target directory" */
+  label?: string;
+  /** Transforms each value after its filters are applied, e.g. to make it safe for a path */
+  sanitize?: (value: string) => string;
+}
+
+/**
+ * Replaces every `{name}` placeholder of a template with the value of the variable, after applying
+ * its filters in order, e.g. `{branch|last|slug}`
+ * @throws {ConfigError} Listing every unknown placeholder or filter and every variable without a value
+ */
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables,
+  { label = "template", sanitize = (value) => value }: RenderTemplateOptions = {},
+): string {
+  const names = Object.keys(variables);
+  const problems: string[] = [];
+
+  for (const { placeholder, name, filters } of parsePlaceholders(template)) {
+    if (!names.includes(name)) {
+      const suggestion = suggestKey(name, names);
+      problems.push(
+        suggestion
+          ? `Unknown placeholder ${placeholder}. Did you mean {${suggestion}}?`
+          : `Unknown placeholder ${placeholder}. Available placeholders: ${names.map((known) => `{${known}}`).join(", ")}`,
+      );
+    } else if (variables[name] === undefined) {
+      problems.push(`${placeholder} has no value`);
+    }
+
+    for (const filter of filters) {
+      if (!Object.hasOwn(TEMPLATE_FILTERS, filter)) {
+        const suggestion = suggestKey(filter, Object.keys(TEMPLATE_FILTERS));
+        problems.push(
+          suggestion
+            ? `Unknown filter "${filter}" in ${placeholder}. Did you mean "${suggestion}"?`
+            : `Unknown filter "${filter}" in ${placeholder}. Available filters: ${Object.keys(TEMPLATE_FILTERS).join(", ")}`,
+        );
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(`Invalid ${label} "${template}":\n  ${[...new Set(problems)].join("\n  ")}`);
+  }
+
+  return template.replace(PLACEHOLDER, (placeholder) => {
+    const [{ name, filters }] = parsePlaceholders(placeholder);
+    return sanitize(filters.reduce((value, filter) => TEMPLATE_FILTERS[filter](value), variables[name] as string));
+  });
+}
+
+/**
+ * Name of the user running the command, from the operating system or the environment
+ */
+function getUserName(): string | undefined {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME;
+  }
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in the local time zone
+ */
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export interface GetTargetDirOptions {
+  targetDir: string;
+  sdkName?: string;
+  env?: string;
+  branch?: string;
+  projectName?: string;
+  /** Current branch of the repository the command runs in */
+  hostBranch?: string;
+  /** Defaults to the name of the current user */
+  user?: string;
+  /** Defaults to today */
+  date?: Date;
+}
+
+/**
+ * Calculates the target directory path by rendering its template with the {sdk}, {env}, {branch}, {project},
+ * {user}, {hostBranch} and {date} variables. Forward slashes in values are converted to hyphens, so that
+ * values never add directories.
+ * @throws {ConfigError} If the template uses unknown placeholders or filters, or variables without a value
+ */
+export function getTargetDir(options: GetTargetDirOptions): string {
+  return renderTemplate(
+    options.targetDir,
+    {
+      sdk: options.sdkName,
+      env: options.env,
+      branch: options.branch,
+      project: options.projectName,
+      user: options.user ?? getUserName(),
+      hostBranch: options.hostBranch,
+      date: formatDate(options.date ?? new Date()),
+    },
+    { label: "target directory", sanitize: (value) => value.replace(/\//g, "-") },
+  );
+}
+
+export interface GetBranchNameOptions {
+  branchTemplate: string;
+  sdkName?: string;
+  env?: string;
+  projectName?: string;
+  /** Current branch of the repository the command runs in */
+  hostBranch?: string;
+  /** Defaults to the name of the current user */
+  user?: string;
+  /** Defaults to today */
+  date?: Date;
+}
+
+/**
+ * Calculates the name of the SDK branch by rendering its template with the {sdk}, {env}, {project}, {user},
+ * {hostBranch} and {date} variables, then sanitizing it following the rules of `git check-ref-format --branch`
+ * @throws {ConfigError} If the template is invalid, or does not produce a valid branch name
+ */
+export function getBranchName(options: GetBranchNameOptions): string {
+  const rendered = renderTemplate(
+    options.branchTemplate,
+    {
+      sdk: options.sdkName,
+      env: options.env,
+      project: options.projectName,
+      user: options.user ?? getUserName(),
+      hostBranch: options.hostBranch,
+      date: formatDate(options.date ?? new Date()),
+    },
+    { label: "branch template" },
+  );
+
+  const branch = sanitizeBranchName(rendered);
+  if (!branch) {
+    throw new ConfigError(
+      `Branch template "${options.branchTemplate}" produced "${rendered}", which is not a valid branch name`,
+    );
+  }
+  return branch;
+}
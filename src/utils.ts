@@ -1,3 +1,5 @@
+import simpleGit from "simple-git";
+
 // Validates domain segments like 'github.com' or 'gitlab.company.com'
 export function isValidDomain(domain: string): boolean {
   const domainPattern = /^[a-zA-Z0-9][a-zA-Z0-9-]*(\.[a-zA-Z0-9-]+)*$/;
@@ -29,6 +31,16 @@ export function isValidGitUrl(url: string): boolean {
     return isValidDomain(domain) && isValidRepoPath(repoPath);
   }
 
+  // Handle local repositories (file:///path/to/repo.git), e.g. the one of the mock server
+  if (url.startsWith("file://")) {
+    try {
+      const fileUrl = new URL(url);
+      return fileUrl.hostname === "" && fileUrl.pathname.length > 1;
+    } catch {
+      return false;
+    }
+  }
+
   // Handle HTTPS URLs (https://github.com/user/repo.git)
   try {
     const httpsUrl = new URL(url);
@@ -44,31 +56,116 @@ export function isValidGitUrl(url: string): boolean {
   }
 }
 
-interface GetTargetDirOptions {
-  targetDir: string;
-  sdkName?: string;
-  env?: string;
-  branch: string;
+/**
+ * Checks if two git repository URLs point to the same repository.
+ * Handles both HTTPS and SSH URLs.
+ */
+export function isSameRepository(url1: string, url2: string): boolean {
+  if (url1 === url2) {
+    return true;
+  }
+
+  const getRepoPath = (url: string): string => {
+    const match = url.match(/(?:^|\/|:)([\w-]+\/[\w-]+)(?:\.git)?$/);
+    return match?.[1] || "";
+  };
+
+  const repo1 = getRepoPath(url1);
+  const repo2 = getRepoPath(url2);
+  return repo1 !== "" && repo2 !== "" && repo1 === repo2;
 }
 
 /**
- * Calculates the target directory path with variable substitutions
- * Replaces {sdk}, {env}, and {branch} placeholders in the target directory path
+ * Returns the first candidate with a value, along with its source. Empty strings count as not set.
  */
-export function getTargetDir(options: GetTargetDirOptions): string {
-  let targetDir = options.targetDir;
+export function firstSet<T>(candidates: [T | undefined, string][]): { value: T; source: string } | undefined {
+  for (const [value, source] of candidates) {
+    if (value !== undefined && value !== "") {
+      return { value, source };
+    }
+  }
+  return undefined;
+}
 
-  if (options.sdkName) {
-    targetDir = targetDir.replace("{sdk}", options.sdkName);
+/**
+ * Gets the current branch of a git repository, or undefined if the directory is not a git repository
+ */
+export async function getCurrentBranch(dir: string): Promise<string | undefined> {
+  try {
+    const branchSummary = await simpleGit(dir).branch();
+    return branchSummary.current || undefined;
+  } catch {
+    return undefined;
   }
+}
 
-  if (options.env) {
-    targetDir = targetDir.replace("{env}", options.env);
+/**
+ * Gets the name of the git user configured for a repository, or undefined if it is not set
+ */
+export async function getGitUserName(dir: string): Promise<string | undefined> {
+  try {
+    const { value } = await simpleGit(dir).getConfig("user.name");
+    return value ?? undefined;
+  } catch {
+    return undefined;
   }
+}
+
+/**
+ * Makes a name a valid branch name, following the rules of `git check-ref-format --branch`:
+ * characters git forbids and `@{` are replaced with hyphens, `..` and consecutive slashes are collapsed,
+ * leading and trailing dots, slashes and `.lock` suffixes of each component are removed, and so are leading hyphens
+ * @returns The sanitized name, or an empty string if nothing valid is left
+ */
+export function sanitizeBranchName(name: string): string {
+  const components = name
+    // biome-ignore lint/suspicious/noControlCharactersInRegex: git forbids control characters in refs
+    .replace(/[\x00-\x20\x7f~^:?*[\\]+|@\{/g, "-")
+    .replace(/\.{2,}/g, ".")
+    .split("/")
+    .map((component) => component.replace(/^\.+/, "").replace(/(\.lock|\.)+$/, ""))
+    .filter((component) => component !== "");
+
+  // Branch names cannot start with a hyphen either, which would make them look like options
+  const sanitized = components.join("/").replace(/^-+/, "");
+  return sanitized === "@" ? "" : sanitized;
+}
+
+/**
+ * Levenshtein distance between two strings, ignoring case
+ */
+function editDistance(a: string, b: string): number {
+  const source = a.toLowerCase();
+  const target = b.toLowerCase();
+  let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
 
-  // Convert forward slashes in branch name to hyphens for filesystem compatibility
-  const safeBranchName = options.branch.replace(/\//g, "-");
-  targetDir = targetDir.replace("{branch}", safeBranchName);
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[target.length];
+}
+
+/**
+ * Returns the candidate closest to a misspelled key, if any is close enough to be a likely typo
+ */
+export function suggestKey(key: string, candidates: readonly string[]): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(key.length / 3));
+  let suggestion: string | undefined;
+  let suggestionDistance = Number.POSITIVE_INFINITY;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(key, candidate);
+    if (distance <= maxDistance && distance < suggestionDistance) {
+      suggestion = candidate;
+      suggestionDistance = distance;
+    }
+  }
 
-  return targetDir;
+  return suggestion;
 }